@@ -1,35 +1,255 @@
-import React, { Suspense, useRef, useState } from 'react';
+import React, { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Loader } from '@react-three/drei';
 import Experience from './components/Experience';
-import UI from './components/UI';
-import InputTracker, { InputData } from './components/HandTracker'; // Renamed import conceptually
+import UI, { MATERIAL_MODES } from './components/UI';
+import InputTracker, { InputData, createEmptyInputData } from './components/HandTracker'; // Renamed import conceptually
+import FallbackInput from './components/FallbackInput';
+import SessionPlayer from './components/SessionPlayer';
+import BridgeInput from './components/BridgeInput';
+import { AudioData, createAudioData } from './components/AudioManager';
+import { Session, SessionRecorder, downloadSession } from './components/SessionRecorder';
+import GestureLog from './components/GestureLog';
+import { onGestureEvent } from './components/GestureEvents';
+import CalibrationWizard from './components/CalibrationWizard';
+import {
+  Calibration, DEFAULT_CALIBRATION, applyCalibration,
+  loadProfiles, saveProfile, deleteProfile, loadActiveProfileName, saveActiveProfileName
+} from './components/Calibration';
+import SettingsPanel from './components/SettingsPanel';
+import { Settings, DEFAULT_SETTINGS, SETTING_FIELDS, loadSettingsFromUrl } from './components/Settings';
+import PaletteEditor from './components/PaletteEditor';
+import {
+  PaletteSet, EmotionPalettes, BUILTIN_PALETTES,
+  loadCustomPalettes, saveCustomPalettes, loadEmotionPalettes, saveEmotionPalettes
+} from './components/Palettes';
+import { DEFAULT_SCULPTURE } from './components/Sculptures';
+import { ThereminSettings, loadTheremin, saveTheremin } from './components/Theremin';
+import { SynthPatch, loadCurrentPatch, saveCurrentPatch } from './components/SynthPatch';
+import MidiPanel from './components/MidiPanel';
+import { MidiAction } from './components/Midi';
 
-export type AudioMode = 'OFF' | 'MIC' | 'THEREMIN';
+export type AudioMode = 'OFF' | 'MIC' | 'THEREMIN' | 'FILE';
+export type InputMode = 'CAMERA' | 'FALLBACK' | 'BRIDGE' | 'REPLAY';
+export type MaterialMode = 'GLASS' | 'PAINTED' | 'CRYSTAL';
 
 const App: React.FC = () => {
   // Shared ref for hand and face tracking data
-  const inputDataRef = useRef<InputData>({ 
-    hands: {
-        left: { present: false, x: 0, y: 0, pinch: 0 },
-        right: { present: false, x: 0, y: 0, pinch: 0 }
-    },
-    face: {
-        present: false,
-        smile: 0,
-        mouthOpen: 0,
-        browDown: 0
-    }
-  });
+  const inputDataRef = useRef<InputData>(createEmptyInputData());
+
+  // Analysed audio levels (written by AudioManager) and, while replaying a
+  // session recorded with audio, the values that should override them
+  const audioDataRef = useRef<AudioData>(createAudioData());
+  const audioReplayRef = useRef<AudioData | null>(null);
 
   const [audioMode, setAudioMode] = useState<AudioMode>('OFF');
+  const [inputMode, setInputMode] = useState<InputMode>('CAMERA');
+  const [materialMode, setMaterialMode] = useState<MaterialMode>('GLASS');
+  // Id of the sculpture generator (see components/Sculptures.ts)
+  const [sculpture, setSculpture] = useState(DEFAULT_SCULPTURE);
+  const [showGestureLog, setShowGestureLog] = useState(false);
+  // A shared link (?settings=...) overrides the defaults
+  const [settings, setSettings] = useState<Settings>(() => loadSettingsFromUrl() ?? DEFAULT_SETTINGS);
+  // Scale, glide and arpeggiator of the theremin synth
+  const [theremin, setTheremin] = useState<ThereminSettings>(loadTheremin);
+  useEffect(() => saveTheremin(theremin), [theremin]);
+  // Its sound (components/SynthPatch.ts), as last played or edited
+  const [synthPatch, setSynthPatch] = useState<SynthPatch>(loadCurrentPatch);
+  useEffect(() => saveCurrentPatch(synthPatch), [synthPatch]);
+
+  // --- Palettes ---
+  // Built-ins plus palettes created in the editor; each emotion maps to one by name
+  const [customPalettes, setCustomPalettes] = useState<PaletteSet>(loadCustomPalettes);
+  const [emotionPalettes, setEmotionPalettes] = useState<EmotionPalettes>(
+    () => loadEmotionPalettes({ ...BUILTIN_PALETTES, ...customPalettes })
+  );
+  const palettes = useMemo(() => ({ ...BUILTIN_PALETTES, ...customPalettes }), [customPalettes]);
+  const [showPaletteEditor, setShowPaletteEditor] = useState(false);
+
+  useEffect(() => saveCustomPalettes(customPalettes), [customPalettes]);
+  useEffect(() => saveEmotionPalettes(emotionPalettes), [emotionPalettes]);
+
+  // --- Session Recording ---
+  const recorderRef = useRef(new SessionRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordAudio, setRecordAudio] = useState(false);
+  const [session, setSession] = useState<Session | null>(null);
+
+  // --- Calibration ---
+  // Camera data is calibrated before it reaches the sculpture (and the
+  // recorder, so replays match what was seen); the wizard reads the raw data.
+  const rawCameraRef = useRef<InputData>(createEmptyInputData());
+  const [profiles, setProfiles] = useState<Record<string, Calibration>>(loadProfiles);
+  const [activeProfile, setActiveProfile] = useState<string | null>(loadActiveProfileName);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const calibrationRef = useRef<Calibration>(DEFAULT_CALIBRATION);
+  calibrationRef.current = (activeProfile && profiles[activeProfile]) || DEFAULT_CALIBRATION;
+
+  // Stable callback so input sources don't restart on every App render
+  const handleInputUpdate = useCallback((data: InputData) => {
+    inputDataRef.current = data;
+    recorderRef.current.capture(data, audioDataRef.current);
+  }, []);
+
+  // Replayed frames are shown but never recorded again
+  const handleReplayUpdate = useCallback((data: InputData) => {
+    inputDataRef.current = data;
+  }, []);
+
+  const handleCameraUpdate = useCallback((data: InputData) => {
+    rawCameraRef.current = data;
+    handleInputUpdate(applyCalibration(data, calibrationRef.current));
+  }, [handleInputUpdate]);
+
+  const selectProfile = (name: string | null) => {
+    setActiveProfile(name);
+    saveActiveProfileName(name);
+  };
+
+  const handleSaveCalibration = (calibration: Calibration) => {
+    setProfiles(saveProfile(calibration));
+    selectProfile(calibration.name);
+    setShowCalibration(false);
+  };
+
+  const handleDeleteProfile = (name: string) => {
+    setProfiles(deleteProfile(name));
+    if (activeProfile === name) selectProfile(null);
+  };
+
+  const openCalibration = () => {
+    setInputMode('CAMERA');
+    setShowCalibration(true);
+  };
+
+  const handleAudioReplay = useCallback((data: AudioData | null) => {
+    audioReplayRef.current = data;
+  }, []);
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.recording) {
+      const recorded = recorder.stop();
+      if (recorded.frames.length > 0) setSession(recorded);
+      setIsRecording(false);
+    } else {
+      recorder.start(recordAudio);
+      setIsRecording(true);
+    }
+  };
+
+  // Cycles the neutral palette through every palette, in order
+  const stepPalette = useCallback((step: number) => {
+    const order = Object.keys(palettes);
+    setEmotionPalettes(current => {
+      const i = order.indexOf(current.DEFAULT);
+      return { ...current, DEFAULT: order[(i + step + order.length) % order.length] };
+    });
+  }, [palettes]);
+
+  // Horizontal swipes cycle the material mode (left hand) or the neutral
+  // palette (right hand); vertical swipes belong to the camera (GestureControls)
+  useEffect(() => onGestureEvent((event) => {
+    if (event.type !== 'swipe' || (event.direction !== 'left' && event.direction !== 'right')) return;
+    const step = event.direction === 'right' ? 1 : -1;
+    if (event.hand === 'right') {
+      stepPalette(step);
+      return;
+    }
+    setMaterialMode(current => {
+      const i = MATERIAL_MODES.findIndex(m => m.mode === current);
+      return MATERIAL_MODES[(i + step + MATERIAL_MODES.length) % MATERIAL_MODES.length].mode;
+    });
+  }), [stepPalette]);
+
+  // Mapped MIDI controls (components/Midi.ts)
+  const handleMidiAction = useCallback((action: MidiAction) => {
+    if (action.kind === 'setting') {
+      const field = SETTING_FIELDS.find(f => f.key === action.key);
+      if (!field) return;
+      const value = Math.min(Math.max(action.value, field.min), field.max);
+      setSettings(current => ({ ...current, [action.key]: value }));
+    } else if (action.kind === 'palette') {
+      stepPalette(action.step);
+    } else {
+      setAudioMode(action.mode);
+    }
+  }, [stepPalette]);
+
+  // Don't let the previous source's last frame linger while the new one warms up
+  useEffect(() => {
+    inputDataRef.current = createEmptyInputData();
+  }, [inputMode]);
 
   return (
     <div className="relative w-full h-screen bg-[#1a1f21]">
-      <UI audioMode={audioMode} setAudioMode={setAudioMode} />
+      <UI 
+        audioMode={audioMode} 
+        setAudioMode={setAudioMode} 
+        theremin={theremin}
+        setTheremin={setTheremin}
+        synthPatch={synthPatch}
+        setSynthPatch={setSynthPatch}
+        inputMode={inputMode}
+        setInputMode={setInputMode}
+        materialMode={materialMode}
+        setMaterialMode={setMaterialMode}
+        sculpture={sculpture}
+        setSculpture={setSculpture}
+        isRecording={isRecording}
+        onToggleRecording={toggleRecording}
+        recordAudio={recordAudio}
+        setRecordAudio={setRecordAudio}
+        session={session}
+        onDownloadSession={() => session && downloadSession(session)}
+        basePalette={emotionPalettes.DEFAULT}
+        showPaletteEditor={showPaletteEditor}
+        setShowPaletteEditor={setShowPaletteEditor}
+        showGestureLog={showGestureLog}
+        setShowGestureLog={setShowGestureLog}
+        profileNames={Object.keys(profiles)}
+        activeProfile={activeProfile}
+        onSelectProfile={selectProfile}
+        onDeleteProfile={handleDeleteProfile}
+        onCalibrate={openCalibration}
+      />
+
+      {showGestureLog && <GestureLog />}
+
+      {showPaletteEditor && (
+        <PaletteEditor
+          customPalettes={customPalettes}
+          emotionPalettes={emotionPalettes}
+          onChangePalettes={setCustomPalettes}
+          onChangeEmotionPalettes={setEmotionPalettes}
+          onClose={() => setShowPaletteEditor(false)}
+        />
+      )}
+
+      <SettingsPanel settings={settings} onChange={setSettings} />
+      <MidiPanel inputDataRef={inputDataRef} onAction={handleMidiAction} />
+
+      {showCalibration && (
+        <CalibrationWizard
+          rawInputRef={rawCameraRef}
+          existingNames={Object.keys(profiles)}
+          onSave={handleSaveCalibration}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
       
-      {/* Tracker runs outside canvas, updates ref */}
-      <InputTracker onUpdate={(data) => { inputDataRef.current = data; }} />
+      {/* Active input source runs outside canvas, updates ref */}
+      {inputMode === 'CAMERA' && <InputTracker onUpdate={handleCameraUpdate} />}
+      {inputMode === 'FALLBACK' && <FallbackInput onUpdate={handleInputUpdate} />}
+      {inputMode === 'BRIDGE' && <BridgeInput onUpdate={handleInputUpdate} />}
+      {inputMode === 'REPLAY' && (
+        <SessionPlayer 
+          session={session}
+          onLoad={setSession}
+          onUpdate={handleReplayUpdate}
+          onAudioUpdate={handleAudioReplay}
+        />
+      )}
       
       <Canvas
         dpr={[1, 2]} 
@@ -44,7 +264,16 @@ const App: React.FC = () => {
         <Suspense fallback={null}>
           <Experience 
             inputDataRef={inputDataRef}
+            audioDataRef={audioDataRef}
+            audioReplayRef={audioReplayRef}
             audioMode={audioMode} 
+            palettes={palettes}
+            emotionPalettes={emotionPalettes}
+            materialMode={materialMode}
+            sculpture={sculpture}
+            settings={settings}
+            theremin={theremin}
+            synthPatch={synthPatch}
           />
         </Suspense>
       </Canvas>
@@ -0,0 +1,69 @@
+// --- Runtime Asset Locations ---
+// Online builds pull MediaPipe and the environment map from public CDNs.
+// Offline builds (`npm run build:offline`) bundle them under ./offline-assets/,
+// and ASSET_BASE_URL can point either build at a self-hosted copy instead.
+
+const OFFLINE = process.env.OFFLINE_ASSETS === 'true';
+const BASE_URL = process.env.ASSET_BASE_URL || (OFFLINE ? './offline-assets/' : '');
+
+// Self-hosted assets are checked up front; the CDNs are trusted
+export const SELF_HOSTED_ASSETS = Boolean(BASE_URL);
+
+const withSlash = (url: string) => (url.endsWith('/') ? url : url + '/');
+
+export const ASSETS = BASE_URL
+  ? {
+      visionWasm: `${withSlash(BASE_URL)}mediapipe/wasm`,
+      handModel: `${withSlash(BASE_URL)}mediapipe/hand_landmarker.task`,
+      faceModel: `${withSlash(BASE_URL)}mediapipe/face_landmarker.task`,
+      environmentMap: `${withSlash(BASE_URL)}hdri/forest_slope_1k.hdr` as string | null,
+    }
+  : {
+      visionWasm: "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.8/wasm",
+      handModel: "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
+      faceModel: "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task",
+      environmentMap: null as string | null, // drei's "forest" preset
+    };
+
+// --- Missing Asset Reporting ---
+// Loaders report here so the UI can say exactly which file is missing.
+
+export type AssetError = {
+  name: string;
+  url: string;
+  reason: string;
+};
+
+const errors: AssetError[] = [];
+const listeners = new Set<(errors: AssetError[]) => void>();
+
+export const reportAssetError = (error: AssetError) => {
+  if (errors.some(e => e.url === error.url)) return;
+  console.error(`Asset "${error.name}" failed to load from ${error.url}: ${error.reason}`);
+  errors.push(error);
+  listeners.forEach(l => l([...errors]));
+};
+
+export const onAssetErrors = (listener: (errors: AssetError[]) => void) => {
+  listeners.add(listener);
+  listener([...errors]);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Checks that an asset is reachable before handing it to a loader that would
+ * otherwise fail with an opaque error. Reports and throws on failure.
+ */
+export const verifyAsset = async (name: string, url: string) => {
+  let reason: string | null = null;
+  try {
+    const res = await fetch(url, { method: 'HEAD' });
+    if (!res.ok) reason = `HTTP ${res.status}`;
+  } catch (e: any) {
+    reason = e.message || "Network error";
+  }
+  if (reason) {
+    reportAssetError({ name, url, reason });
+    throw new Error(`Missing asset: ${name}`);
+  }
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { reportAssetError } from '../assets';
+
+interface Props {
+  name: string;
+  url: string;
+  children: React.ReactNode;
+}
+
+interface State {
+  failed: boolean;
+}
+
+/**
+ * Catches a suspense loader that throws (e.g. a missing HDRI) so the rest of
+ * the scene keeps rendering, and reports the asset to the UI.
+ */
+class AssetBoundary extends React.Component<Props, State> {
+  state: State = { failed: false };
+
+  static getDerivedStateFromError(): State {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    reportAssetError({ name: this.props.name, url: this.props.url, reason: error.message || "Load failed" });
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+export default AssetBoundary;
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { AudioAnalyzer, ANALYSIS_BANDS, bandBins, logSpectrum, SPECTRUM_BANDS } from './AudioAnalysis';
+import { AUDIO_ANALYSIS } from '../constants';
+
+// An AnalyserNode with the default fftSize
+const FFT_SIZE = 2048;
+const BINS = FFT_SIZE / 2;
+const FPS = 60;
+const binHzAt = (sampleRate: number) => sampleRate / FFT_SIZE;
+
+const SILENCE = new Float32Array(BINS);
+const LOUD = new Float32Array(BINS).fill(0.8);
+
+// A single tone: one bin at full level
+const tone = (hz: number, sampleRate: number) => {
+  const spectrum = new Float32Array(BINS);
+  spectrum[Math.round(hz / binHzAt(sampleRate))] = 1;
+  return spectrum;
+};
+
+describe('AudioAnalyzer onsets', () => {
+  const binHz = binHzAt(44100);
+
+  // Feeds `spectra` one frame apart from `start`, returning each frame's onset flag
+  const onsetsFor = (analyzer: AudioAnalyzer, spectra: Float32Array[], start: number) =>
+    spectra.map((spectrum, i) => analyzer.process(spectrum, binHz, start + i / FPS).onset);
+
+  it('fires on a step in flux', () => {
+    const analyzer = new AudioAnalyzer();
+    const quiet = onsetsFor(analyzer, Array(FPS).fill(SILENCE), 0);
+    expect(quiet.some(Boolean)).toBe(false);
+    expect(analyzer.process(LOUD, binHz, 1).onset).toBe(true);
+  });
+
+  it('does not fire again within onsetMinInterval', () => {
+    const analyzer = new AudioAnalyzer();
+    onsetsFor(analyzer, Array(FPS).fill(SILENCE), 0);
+    expect(analyzer.process(LOUD, binHz, 1).onset).toBe(true);
+
+    // Drop and rise again, sooner than the minimum interval
+    const soon = AUDIO_ANALYSIS.onsetMinInterval / 2;
+    analyzer.process(SILENCE, binHz, 1 + soon / 2);
+    expect(analyzer.process(LOUD, binHz, 1 + soon).onset).toBe(false);
+
+    // ...and again once it has passed
+    const later = AUDIO_ANALYSIS.onsetMinInterval * 2;
+    analyzer.process(SILENCE, binHz, 1 + later - 1 / FPS);
+    expect(analyzer.process(LOUD, binHz, 1 + later).onset).toBe(true);
+  });
+});
+
+describe('AudioAnalyzer tempo', () => {
+  it('locks onto a 120 BPM onset train', () => {
+    const analyzer = new AudioAnalyzer();
+    const binHz = binHzAt(44100);
+    const framesPerBeat = FPS * 60 / 120;
+    let beats = 0;
+    for (let i = 0; i < FPS * 10; i++) {
+      const features = analyzer.process(i % framesPerBeat === 0 ? LOUD : SILENCE, binHz, i / FPS);
+      if (i >= FPS * 8 && features.beat) beats++;
+    }
+    expect(analyzer.features.bpm).toBeCloseTo(120, 0);
+    expect(analyzer.features.beatConfidence).toBeGreaterThanOrEqual(AUDIO_ANALYSIS.minConfidence);
+    // Two seconds after locking: a beat every half second
+    expect(beats).toBe(4);
+  });
+});
+
+describe.each([44100, 48000])('spectrum bands at %i Hz', (sampleRate) => {
+  const binHz = binHzAt(sampleRate);
+
+  it('covers each analysis band with at least one bin', () => {
+    for (const [lo, hi] of Object.values(ANALYSIS_BANDS)) {
+      const [from, to] = bandBins(lo, hi, binHz, BINS);
+      expect(to).toBeGreaterThan(from);
+      expect(from * binHz).toBeLessThanOrEqual(lo);
+      expect(to * binHz).toBeGreaterThanOrEqual(Math.min(hi, BINS * binHz));
+    }
+  });
+
+  it('puts a tone in the same log band at either sample rate', () => {
+    const reference = logSpectrum(tone(1000, 44100), binHzAt(44100), new Float32Array(SPECTRUM_BANDS));
+    const out = logSpectrum(tone(1000, sampleRate), binHz, new Float32Array(SPECTRUM_BANDS));
+    const peak = (bands: ArrayLike<number>) => {
+      const levels = Array.from(bands);
+      return levels.indexOf(Math.max(...levels));
+    };
+    expect(peak(out)).toBe(peak(reference));
+    expect(out[peak(out)]).toBeGreaterThan(0);
+  });
+
+  it('reads a smooth spectrum the same at either sample rate', () => {
+    // Level rising linearly with frequency up to 16 kHz
+    const ramp = (rate: number) => Float32Array.from({ length: BINS }, (_, k) => Math.min(k * binHzAt(rate) / 16000, 1));
+    const reference = logSpectrum(ramp(44100), binHzAt(44100), new Float32Array(SPECTRUM_BANDS));
+    const out = logSpectrum(ramp(sampleRate), binHz, new Float32Array(SPECTRUM_BANDS));
+    out.forEach((level, b) => expect(Math.abs(level - reference[b])).toBeLessThan(0.01));
+  });
+});
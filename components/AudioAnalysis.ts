@@ -0,0 +1,334 @@
+import { AUDIO_ANALYSIS } from '../constants';
+
+export type AudioAnalysisConfig = typeof AUDIO_ANALYSIS;
+
+// Energy bands, in Hz
+export const ANALYSIS_BANDS = {
+  sub: [20, 60],
+  bass: [60, 250],
+  lowMid: [250, 500],
+  mid: [500, 2000],
+  highMid: [2000, 4000],
+  treble: [4000, 16000],
+} as const;
+
+export type BandName = keyof typeof ANALYSIS_BANDS;
+export type BandEnergies = Record<BandName, number>;
+
+export type AudioFeatures = {
+  flux: number;           // Spectral flux: mean rise per bin since the last spectrum
+  onset: boolean;         // True on the frame an onset is detected
+  kick: boolean;          // True on the frame an onset in the kick range is detected
+  beat: boolean;          // True on the frame the beat falls
+  bpm: number;            // 0 until a tempo is found
+  beatPhase: number;      // 0 on the beat, rising to 1 just before the next
+  beatConfidence: number; // 0-1, how periodic the onsets are
+  centroid: number;       // Spectral centroid, 0-1 on a log scale from 50 Hz to 10 kHz
+  centroidHz: number;
+  bands: BandEnergies;    // 0-1 mean level per band
+};
+
+// Log-spaced bands of the visual spectrum, and the range they cover
+export const SPECTRUM_BANDS = 64;
+const SPECTRUM_MIN_HZ = 30;
+const SPECTRUM_MAX_HZ = 16000;
+
+/**
+ * The FFT bins [from, to) covering loHz..hiHz, at least one, for spectra of
+ * `n` bins of `binHz` each (sampleRate / fftSize).
+ */
+export const bandBins = (loHz: number, hiHz: number, binHz: number, n: number) => {
+  const from = Math.min(Math.floor(loHz / binHz), n - 1);
+  const to = Math.min(Math.max(Math.ceil(hiHz / binHz), from + 1), n);
+  return [from, to] as const;
+};
+
+/**
+ * Averages a linear spectrum into `out.length` log-spaced bands from
+ * SPECTRUM_MIN_HZ to SPECTRUM_MAX_HZ. Low bands narrower than a bin read
+ * the spectrum interpolated at their centre instead.
+ */
+export const logSpectrum = (spectrum: ArrayLike<number>, binHz: number, out: number[] | Float32Array) => {
+  const n = spectrum.length;
+  const bands = out.length;
+  const ratio = Math.log(SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ);
+  for (let b = 0; b < bands; b++) {
+    const lo = SPECTRUM_MIN_HZ * Math.exp(ratio * b / bands);
+    const hi = SPECTRUM_MIN_HZ * Math.exp(ratio * (b + 1) / bands);
+    const from = Math.ceil(lo / binHz);
+    const to = Math.min(Math.floor(hi / binHz), n - 1);
+    if (to >= from) {
+      let sum = 0;
+      for (let k = from; k <= to; k++) sum += spectrum[k];
+      out[b] = sum / (to - from + 1);
+    } else {
+      const x = Math.min(Math.sqrt(lo * hi) / binHz, n - 1);
+      const k = Math.floor(x);
+      out[b] = spectrum[k] + (spectrum[Math.min(k + 1, n - 1)] - spectrum[k]) * (x - k);
+    }
+  }
+  return out;
+};
+
+const CENTROID_MIN_HZ = 50;
+const CENTROID_MAX_HZ = 10000;
+
+const createBands = (): BandEnergies => ({ sub: 0, bass: 0, lowMid: 0, mid: 0, highMid: 0, treble: 0 });
+
+export const createAudioFeatures = (): AudioFeatures => ({
+  flux: 0, onset: false, kick: false, beat: false,
+  bpm: 0, beatPhase: 0, beatConfidence: 0,
+  centroid: 0, centroidHz: 0,
+  bands: createBands(),
+});
+
+// Copies into `to` without replacing its bands object; missing values (old
+// session recordings) read as silence
+export const copyAudioFeatures = (from: Partial<AudioFeatures>, to: AudioFeatures) => {
+  to.flux = from.flux ?? 0;
+  to.onset = from.onset ?? false;
+  to.kick = from.kick ?? false;
+  to.beat = from.beat ?? false;
+  to.bpm = from.bpm ?? 0;
+  to.beatPhase = from.beatPhase ?? 0;
+  to.beatConfidence = from.beatConfidence ?? 0;
+  to.centroid = from.centroid ?? 0;
+  to.centroidHz = from.centroidHz ?? 0;
+  for (const band of Object.keys(to.bands) as BandName[]) to.bands[band] = from.bands?.[band] ?? 0;
+  return to;
+};
+
+/**
+ * Adaptive threshold over recent flux: an onset is flux rising above
+ * mean + k * std of the last `onsetWindow` seconds.
+ */
+class OnsetDetector {
+  private history: { t: number; flux: number }[] = [];
+  private above = false;
+  private lastOnset = -Infinity;
+
+  constructor(private config: AudioAnalysisConfig) {}
+
+  update(flux: number, time: number) {
+    const cfg = this.config;
+    const history = this.history;
+    while (history.length > 0 && time - history[0].t > cfg.onsetWindow) history.shift();
+
+    let mean = 0;
+    for (const h of history) mean += h.flux;
+    mean /= Math.max(history.length, 1);
+    let variance = 0;
+    for (const h of history) variance += (h.flux - mean) ** 2;
+    const std = Math.sqrt(variance / Math.max(history.length, 1));
+    history.push({ t: time, flux });
+
+    const above = flux > Math.max(mean + cfg.onsetSensitivity * std, cfg.onsetFloor);
+    const onset = above && !this.above && time - this.lastOnset >= cfg.onsetMinInterval;
+    this.above = above;
+    if (onset) this.lastOnset = time;
+    return onset;
+  }
+
+  reset() {
+    this.history = [];
+    this.above = false;
+    this.lastOnset = -Infinity;
+  }
+}
+
+/**
+ * Turns a stream of magnitude spectra into onsets, kicks, a tempo with a beat
+ * phase, the spectral centroid and band energies.
+ *
+ * Pure computation: feed process() one spectrum per frame (levels 0-1, e.g.
+ * AnalyserNode byte data / 255) with its bin width and a timestamp. Frames
+ * may come at any rate; the tempo search resamples the onset envelope.
+ */
+export class AudioAnalyzer {
+  config: AudioAnalysisConfig;
+  readonly features = createAudioFeatures();
+
+  private previous: Float32Array | null = null;
+  private onsets: OnsetDetector;
+  private kicks: OnsetDetector;
+  private lastTime: number | null = null;
+  private lastOnset = 0;
+
+  // Onset envelope (flux, resampled at envelopeRate) as a ring buffer
+  private envelope: Float32Array;
+  private envelopeHead = 0;
+  private envelopeFilled = 0;
+  private nextSample = 0;
+  private nextEstimate = 0;
+
+  private phase = 0;      // Beats since tracking started
+  private lastBeat = 0;
+
+  constructor(config: Partial<AudioAnalysisConfig> = {}) {
+    this.config = { ...AUDIO_ANALYSIS, ...config };
+    this.onsets = new OnsetDetector(this.config);
+    this.kicks = new OnsetDetector(this.config);
+    this.envelope = new Float32Array(Math.ceil(this.config.tempoWindow * this.config.envelopeRate));
+  }
+
+  process(spectrum: ArrayLike<number>, binHz: number, time: number): AudioFeatures {
+    const cfg = this.config;
+    const f = this.features;
+    const n = spectrum.length;
+
+    // A gap longer than the tempo window (paused tab, new source) starts over
+    if (this.lastTime !== null && (time < this.lastTime || time - this.lastTime > cfg.tempoWindow)) this.reset();
+    const first = this.lastTime === null;
+    const dt = first ? 0 : time - this.lastTime!;
+    this.lastTime = time;
+
+    if (!this.previous || this.previous.length !== n) this.previous = Float32Array.from(spectrum);
+    const previous = this.previous;
+
+    // --- Flux, centroid and bands in one pass ---
+    const kickBins = Math.max(1, Math.min(n, Math.ceil(cfg.kickMaxHz / binHz)));
+    let flux = 0;
+    let kickFlux = 0;
+    let weighted = 0;
+    let total = 0;
+    for (let k = 0; k < n; k++) {
+      const rise = Math.max(spectrum[k] - previous[k], 0);
+      flux += rise;
+      if (k < kickBins) kickFlux += rise;
+      weighted += spectrum[k] * k * binHz;
+      total += spectrum[k];
+      previous[k] = spectrum[k];
+    }
+    f.flux = flux / Math.max(n, 1);
+    kickFlux /= kickBins;
+
+    f.centroidHz = total > 0 ? weighted / total : 0;
+    f.centroid = f.centroidHz > 0
+      ? Math.min(Math.max(Math.log(f.centroidHz / CENTROID_MIN_HZ) / Math.log(CENTROID_MAX_HZ / CENTROID_MIN_HZ), 0), 1)
+      : 0;
+
+    for (const band of Object.keys(ANALYSIS_BANDS) as BandName[]) {
+      const [from, to] = bandBins(ANALYSIS_BANDS[band][0], ANALYSIS_BANDS[band][1], binHz, n);
+      let sum = 0;
+      for (let k = from; k < to; k++) sum += spectrum[k];
+      f.bands[band] = to > from ? sum / (to - from) : 0;
+    }
+
+    // --- Onsets ---
+    f.onset = this.onsets.update(f.flux, time);
+    f.kick = this.kicks.update(kickFlux, time);
+    if (f.onset) this.lastOnset = time;
+
+    // --- Tempo ---
+    if (first) {
+      this.nextSample = time;
+      this.nextEstimate = time + cfg.tempoInterval;
+    }
+    while (this.nextSample <= time) {
+      this.envelope[this.envelopeHead] = f.flux;
+      this.envelopeHead = (this.envelopeHead + 1) % this.envelope.length;
+      this.envelopeFilled = Math.min(this.envelopeFilled + 1, this.envelope.length);
+      this.nextSample += 1 / cfg.envelopeRate;
+    }
+    if (time >= this.nextEstimate) {
+      const locked = f.bpm > 0;
+      this.estimateTempo();
+      this.nextEstimate = time + cfg.tempoInterval;
+      // On first lock, start the clock as if the last onset was a beat
+      if (!locked && f.bpm > 0) {
+        const since = (time - this.lastOnset) * f.bpm / 60;
+        this.phase = this.lastBeat + since - Math.floor(since);
+      }
+    }
+
+    // --- Beat phase: a free-running clock at the tempo, pulled onto onsets ---
+    f.beat = false;
+    if (f.bpm > 0) {
+      this.phase += dt * f.bpm / 60;
+      if (f.onset) this.phase -= (this.phase - Math.round(this.phase)) * cfg.phaseGain;
+      const whole = Math.floor(this.phase);
+      if (whole > this.lastBeat) {
+        this.lastBeat = whole;
+        f.beat = f.beatConfidence >= cfg.minConfidence;
+      }
+      f.beatPhase = this.phase - whole;
+    } else {
+      f.beatPhase = 0;
+    }
+
+    return f;
+  }
+
+  /**
+   * Autocorrelation of the onset envelope over the lags of minBpm..maxBpm,
+   * weighted by a one-octave prior around preferredBpm. The winning lag is
+   * refined by parabolic interpolation.
+   */
+  private estimateTempo() {
+    const cfg = this.config;
+    const f = this.features;
+    const length = this.envelopeFilled;
+    const minLag = Math.floor(cfg.envelopeRate * 60 / cfg.maxBpm);
+    const maxLag = Math.ceil(cfg.envelopeRate * 60 / cfg.minBpm);
+    if (length < maxLag * 2) return;
+
+    // Oldest to newest, mean removed
+    const size = this.envelope.length;
+    const start = (this.envelopeHead - length + size) % size;
+    const e = new Float32Array(length);
+    let mean = 0;
+    for (let i = 0; i < length; i++) mean += (e[i] = this.envelope[(start + i) % size]);
+    mean /= length;
+    let energy = 0;
+    for (let i = 0; i < length; i++) {
+      e[i] -= mean;
+      energy += e[i] * e[i];
+    }
+    if (energy <= 1e-12) return;
+
+    const correlation = new Float32Array(maxLag + 2);
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+      let sum = 0;
+      for (let i = lag; i < length; i++) sum += e[i] * e[i - lag];
+      correlation[lag] = sum / (length - lag);
+    }
+
+    let best = -1;
+    let bestScore = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const octaves = Math.log2(cfg.envelopeRate * 60 / lag / cfg.preferredBpm);
+      const score = correlation[lag] * Math.exp(-0.5 * octaves * octaves);
+      if (score > bestScore) {
+        bestScore = score;
+        best = lag;
+      }
+    }
+    if (best < 0) return;
+
+    const [a, b, c] = [correlation[best - 1], correlation[best], correlation[best + 1]];
+    const curvature = a - 2 * b + c;
+    const lag = best + (curvature < 0 ? 0.5 * (a - c) / curvature : 0);
+    const bpm = cfg.envelopeRate * 60 / lag;
+
+    // Small drifts ease in; a different tempo is taken as is
+    f.bpm = f.bpm > 0 && Math.abs(bpm - f.bpm) / f.bpm < 0.05 ? f.bpm + (bpm - f.bpm) * 0.5 : bpm;
+    f.beatConfidence = Math.min(Math.max(b / (energy / length), 0), 1);
+  }
+
+  reset() {
+    const f = this.features;
+    copyAudioFeatures({}, f);
+    this.previous = null;
+    this.onsets.reset();
+    this.kicks.reset();
+    this.lastTime = null;
+    this.lastOnset = 0;
+    this.envelope.fill(0);
+    this.envelopeHead = 0;
+    this.envelopeFilled = 0;
+    this.nextSample = 0;
+    this.nextEstimate = 0;
+    this.phase = 0;
+    this.lastBeat = 0;
+  }
+}
@@ -3,49 +3,102 @@ import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { AudioMode } from '../App';
 import { TwoHandsData } from './HandTracker';
+import { smoothing } from './Springs';
+import { filePlayer } from './FilePlayer';
+import { SynthPatch } from './SynthPatch';
+import { ThereminSynth, handAxes, gateHeld } from './Synth';
+import {
+    ThereminSettings, Arpeggiator, BASS_HZ, LEAD_HZ, hzToMidi, midiToHz, quantizeMidi, chordTones,
+    readNote, setThereminNotes, NoteReading
+} from './Theremin';
+import { AudioAnalyzer, AudioFeatures, createAudioFeatures, copyAudioFeatures, bandBins, logSpectrum, SPECTRUM_BANDS } from './AudioAnalysis';
 
+// Smoothed levels, plus onsets, beats and spectral features (AudioAnalysis.ts)
 export type AudioData = {
     low: number;  // 0-1 Bass energy
     high: number; // 0-1 Treble energy
     vol: number;  // 0-1 Average volume
-};
+    spectrum: number[]; // 0-1 per log-spaced band, SPECTRUM_BANDS of them, lowest first
+} & AudioFeatures;
+
+export const createAudioData = (): AudioData => ({
+    low: 0, high: 0, vol: 0,
+    spectrum: new Array(SPECTRUM_BANDS).fill(0),
+    ...createAudioFeatures(),
+});
+
+// Arpeggio steps are scheduled this far ahead on the audio clock
+const ARP_LOOKAHEAD = 0.1;
+// Portion of an arpeggio step the note is held before its release
+const ARP_GATE = 0.6;
+
+// Ranges of the low and high levels, in Hz
+const LOW_HZ = [0, 280] as const;
+const HIGH_HZ = [1800, 9000] as const;
 
 interface Props {
     audioMode: AudioMode;
     handsDataRef: React.MutableRefObject<TwoHandsData>;
     audioDataRef: React.MutableRefObject<AudioData>;
+    audioReplayRef: React.MutableRefObject<AudioData | null>;
     listener: THREE.AudioListener;
+    theremin: ThereminSettings;
+    patch: SynthPatch;
 }
 
-const AudioManager: React.FC<Props> = ({ audioMode, handsDataRef, audioDataRef, listener }) => {
-    // Theremin Nodes
-    const oscBassRef = useRef<OscillatorNode | null>(null);
-    const gainBassRef = useRef<GainNode | null>(null);
-    
-    const oscLeadRef = useRef<OscillatorNode | null>(null);
-    const gainLeadRef = useRef<GainNode | null>(null);
-    const vibratoRef = useRef<OscillatorNode | null>(null);
-    const vibratoGainRef = useRef<GainNode | null>(null);
+const AudioManager: React.FC<Props> = ({ audioMode, handsDataRef, audioDataRef, audioReplayRef, listener, theremin, patch }) => {
+    // Theremin voices and effects (Synth.ts), playing `patch`
+    const synthRef = useRef<ThereminSynth | null>(null);
+    const patchRef = useRef(patch);
+    // Whether each hand holds its voice's gate open (pinch hysteresis)
+    const gatesRef = useRef({ bass: false, lead: false });
+    const arpeggiatorRef = useRef(new Arpeggiator());
+    // Arpeggio notes scheduled but not yet heard, for the note indicator
+    const arpNotesRef = useRef<{ time: number; note: number }[]>([]);
+    const arpNoteRef = useRef<number | null>(null);
 
     // Analysis Nodes
     const analyserRef = useRef<AnalyserNode | null>(null);
+    const onsetAnalyserRef = useRef<AnalyserNode | null>(null);
     const micStreamRef = useRef<MediaStream | null>(null);
     const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+    const fileSourceRef = useRef<MediaElementAudioSourceNode | null>(null);
     
     // Data Buffer (Persistent to avoid GC in useFrame)
     const dataArrayRef = useRef<Uint8Array | null>(null);
+    const levelsRef = useRef<Float32Array | null>(null);
+    const onsetDataRef = useRef<Uint8Array | null>(null);
+    const spectrumRef = useRef<Float32Array | null>(null);
+    const analyzerRef = useRef(new AudioAnalyzer());
 
     // Initialize Analyser once
     useEffect(() => {
         if (!listener) return;
         const ctx = listener.context;
         const analyser = ctx.createAnalyser();
-        analyser.fftSize = 512; // 256 bins
+        analyser.fftSize = 2048; // 1024 bins, ~23 Hz each at 48 kHz; fine enough for the low spectrum bands
         analyser.smoothingTimeConstant = 0.85; // Smoother
         analyserRef.current = analyser;
         dataArrayRef.current = new Uint8Array(analyser.frequencyBinCount);
+        levelsRef.current = new Float32Array(analyser.frequencyBinCount);
+
+        // Onset detection needs the spectrum unsmoothed. Analysers pass their
+        // input through, so this one hears whatever feeds the first
+        const onsetAnalyser = ctx.createAnalyser();
+        onsetAnalyser.fftSize = analyser.fftSize;
+        onsetAnalyser.smoothingTimeConstant = 0;
+        analyser.connect(onsetAnalyser);
+        onsetAnalyserRef.current = onsetAnalyser;
+        onsetDataRef.current = new Uint8Array(onsetAnalyser.frequencyBinCount);
+        spectrumRef.current = new Float32Array(onsetAnalyser.frequencyBinCount);
     }, [listener]);
 
+    // Patch edits apply to the running synth
+    useEffect(() => {
+        patchRef.current = patch;
+        synthRef.current?.setPatch(patch);
+    }, [patch]);
+
     // Handle Mode Switching and Node Setup
     useEffect(() => {
         if (!listener) return;
@@ -55,17 +108,18 @@ const AudioManager: React.FC<Props> = ({ audioMode, handsDataRef, audioDataRef,
         let active = true;
 
         // --- Cleanup Previous Nodes ---
-        const stopNode = (node: OscillatorNode | null) => { try { node?.stop(); node?.disconnect(); } catch(e){} };
         const disconnectNode = (node: AudioNode | null) => { try { node?.disconnect(); } catch(e){} };
 
-        stopNode(oscBassRef.current);
-        stopNode(oscLeadRef.current);
-        stopNode(vibratoRef.current);
-        
-        disconnectNode(gainBassRef.current);
-        disconnectNode(gainLeadRef.current);
-        disconnectNode(vibratoGainRef.current);
+        synthRef.current?.dispose();
+        synthRef.current = null;
+        gatesRef.current = { bass: false, lead: false };
         disconnectNode(micSourceRef.current);
+        disconnectNode(fileSourceRef.current);
+        fileSourceRef.current = null;
+        arpeggiatorRef.current.reset();
+        arpNotesRef.current = [];
+        arpNoteRef.current = null;
+        if (audioMode !== 'FILE') filePlayer.pause();
 
         if (micStreamRef.current) { 
             micStreamRef.current.getTracks().forEach(t => t.stop()); 
@@ -82,51 +136,10 @@ const AudioManager: React.FC<Props> = ({ audioMode, handsDataRef, audioDataRef,
                 
                 if (!active) return;
                 
-                // 1. Bass Drone (Left Hand)
-                const oscBass = ctx.createOscillator();
-                const gainBass = ctx.createGain();
-                oscBass.type = 'sawtooth';
-                gainBass.gain.value = 0;
-                
-                const bassFilter = ctx.createBiquadFilter();
-                bassFilter.type = 'lowpass';
-                bassFilter.frequency.value = 300; // Deeper
-
-                oscBass.connect(bassFilter);
-                bassFilter.connect(gainBass);
-                gainBass.connect(analyserRef.current!); 
-                gainBass.connect(ctx.destination);      
-                oscBass.start();
-                
-                oscBassRef.current = oscBass;
-                gainBassRef.current = gainBass;
-
-                // 2. Lead Synth (Right Hand)
-                const oscLead = ctx.createOscillator();
-                const gainLead = ctx.createGain();
-                oscLead.type = 'triangle';
-                gainLead.gain.value = 0; 
-
-                // Vibrato (LFO)
-                const lfo = ctx.createOscillator();
-                const lfoGain = ctx.createGain();
-                lfo.frequency.value = 6;
-                lfoGain.gain.value = 0;
-                
-                lfo.connect(lfoGain);
-                lfoGain.connect(oscLead.frequency); 
-
-                oscLead.connect(gainLead);
-                gainLead.connect(analyserRef.current!);
-                gainLead.connect(ctx.destination);
-                
-                oscLead.start();
-                lfo.start();
-
-                oscLeadRef.current = oscLead;
-                gainLeadRef.current = gainLead;
-                vibratoRef.current = lfo;
-                vibratoGainRef.current = lfoGain;
+                const synth = new ThereminSynth(ctx, patchRef.current);
+                synth.output.connect(analyserRef.current!);
+                synth.output.connect(listener.getInput()); // Through the listener so video capture can record it
+                synthRef.current = synth;
 
             } else if (audioMode === 'MIC') {
                 try {
@@ -162,9 +175,21 @@ const AudioManager: React.FC<Props> = ({ audioMode, handsDataRef, audioDataRef,
                     console.error("Mic access denied or error:", err);
                     // We don't change state here to avoid loops, just log
                 }
+            } else if (audioMode === 'FILE') {
+                if (ctx.state === 'suspended') {
+                    try { await ctx.resume(); } catch(e) { console.warn("Context resume failed", e); }
+                }
+                if (!active) return;
+
+                // Analysed like the mic, and heard through the listener (so video capture records it)
+                const source = filePlayer.source(ctx);
+                if (analyserRef.current) source.connect(analyserRef.current);
+                source.connect(listener.getInput());
+                fileSourceRef.current = source;
+
             } else {
                 // OFF Mode
-                audioDataRef.current = { low: 0, high: 0, vol: 0 };
+                audioDataRef.current = createAudioData();
             }
         };
 
@@ -175,66 +200,115 @@ const AudioManager: React.FC<Props> = ({ audioMode, handsDataRef, audioDataRef,
         };
     }, [audioMode, listener]);
 
-    useFrame(() => {
+    useFrame((_, delta) => {
         if (!listener || !listener.context) return;
         const ctx = listener.context;
 
         // 1. Theremin Control Logic
         if (audioMode === 'THEREMIN') {
             const { left, right } = handsDataRef.current;
+            const now = ctx.currentTime;
+            const { quantize, root, scale, glide, arpeggio } = theremin;
+            // Quantized notes slide over `glide` (about 3 time constants); raw pitch follows closely
+            const pitchTime = quantize ? Math.max(glide / 3, 0.001) : 0.05;
+            const pitchOf = (range: readonly [number, number], t: number) => {
+                const midi = hzToMidi(range[0] + (range[1] - range[0]) * THREE.MathUtils.clamp(t, 0, 1));
+                return quantize ? quantizeMidi(midi, root, scale) : midi;
+            };
+            let bassNote: NoteReading | null = null;
+            let leadNote: NoteReading | null = null;
+
+            const synth = synthRef.current;
+            if (synth) {
+                const gates = gatesRef.current;
+                const axes = handAxes(handsDataRef.current);
+                synth.bass.modulate(axes, now);
+                synth.lead.modulate(axes, now);
 
-            // Bass Control (Left)
-            if (oscBassRef.current && gainBassRef.current) {
+                // Bass (Left): pitch from height
                 if (left.present) {
-                    const pitch = 50 + ((left.y + 1) / 2) * 100; 
-                    oscBassRef.current.frequency.setTargetAtTime(pitch, ctx.currentTime, 0.05);
-                    
-                    const vol = Math.max(0, left.pinch) * 0.5; 
-                    gainBassRef.current.gain.setTargetAtTime(vol, ctx.currentTime, 0.05);
-                } else {
-                    gainBassRef.current.gain.setTargetAtTime(0, ctx.currentTime, 0.1);
+                    const midi = pitchOf(BASS_HZ, (left.y + 1) / 2);
+                    synth.setPitch('bass', midiToHz(midi), now, pitchTime);
+                    bassNote = readNote(midi);
                 }
-            }
+                gates.bass = gateHeld(synth.bass.patch.gate, left, gates.bass);
+                synth.bass.gate(gates.bass, now);
 
-            // Lead Control (Right)
-            if (oscLeadRef.current && gainLeadRef.current && vibratoGainRef.current) {
-                if (right.present) {
-                    const pitch = 440 + (right.x * 300);
-                    oscLeadRef.current.frequency.setTargetAtTime(pitch, ctx.currentTime, 0.05);
-                    
-                    // Volume is always on if hand is present, mod by pinch slightly?
-                    // Let's make it standard volume, pinch controls Vibrato
-                    gainLeadRef.current.gain.setTargetAtTime(0.3, ctx.currentTime, 0.05);
+                // Lead (Right): pitch from x
+                const t = (right.x + 1) / 2;
+                gates.lead = gateHeld(synth.lead.patch.gate, right, gates.lead);
+                const arpeggiating = arpNotesRef.current.length > 0 || arpNoteRef.current !== null;
+                // Drops arpeggio steps still queued on the audio clock
+                const stopArpeggio = () => {
+                    arpeggiatorRef.current.reset();
+                    arpNotesRef.current = [];
+                    arpNoteRef.current = null;
+                    synth.lead.stopPlucks(now);
+                };
 
-                    const vibDepth = (1 - right.pinch) * 20; 
-                    vibratoGainRef.current.gain.setTargetAtTime(vibDepth, ctx.currentTime, 0.05);
+                if (arpeggio) {
+                    // Each step plucks the next tone of the chord on the hand's note,
+                    // for as long as the gate is held
+                    synth.lead.gate(false, now);
+                    if (gates.lead) {
+                        const chord = chordTones(pitchOf(LEAD_HZ, t), root, scale);
+                        const stepSeconds = 60 / theremin.arpBpm / 4;
+                        arpeggiatorRef.current.schedule(now, ARP_LOOKAHEAD, chord, theremin.arpPattern, stepSeconds, (time, note) => {
+                            synth.setPitch('lead', midiToHz(note), time, Math.max(glide / 3, 0.001));
+                            synth.lead.pluck(time, stepSeconds * ARP_GATE);
+                            arpNotesRef.current.push({ time, note });
+                        });
+                        const pending = arpNotesRef.current;
+                        while (pending.length > 0 && pending[0].time <= now) arpNoteRef.current = pending.shift()!.note;
+                        if (arpNoteRef.current !== null) leadNote = readNote(arpNoteRef.current);
+                    } else if (arpeggiating) {
+                        stopArpeggio();
+                    }
                 } else {
-                    gainLeadRef.current.gain.setTargetAtTime(0, ctx.currentTime, 0.1);
+                    if (arpeggiating) stopArpeggio();
+                    if (right.present) {
+                        const midi = pitchOf(LEAD_HZ, t);
+                        synth.setPitch('lead', midiToHz(midi), now, pitchTime);
+                        leadNote = readNote(midi);
+                    }
+                    synth.lead.gate(gates.lead, now);
                 }
             }
+
+            setThereminNotes({ bass: bassNote, lead: leadNote });
+        } else {
+            setThereminNotes({ bass: null, lead: null });
         }
 
         // 2. Audio Analysis (For Visuals)
-        if (analyserRef.current && (audioMode === 'MIC' || audioMode === 'THEREMIN') && dataArrayRef.current) {
+        if (audioReplayRef.current) {
+            // A replayed session supplies the analysed values directly
+            const replay = audioReplayRef.current;
+            audioDataRef.current.low = replay.low;
+            audioDataRef.current.high = replay.high;
+            audioDataRef.current.vol = replay.vol;
+            const spectrum = audioDataRef.current.spectrum;
+            for (let i = 0; i < spectrum.length; i++) spectrum[i] = replay.spectrum?.[i] ?? 0;
+            copyAudioFeatures(replay, audioDataRef.current);
+
+        } else if (analyserRef.current && (audioMode === 'MIC' || audioMode === 'THEREMIN' || audioMode === 'FILE') && dataArrayRef.current) {
             const dataArray = dataArrayRef.current;
             analyserRef.current.getByteFrequencyData(dataArray);
             
-            // Analyze specific bands
-            // FFT Size 512 -> 256 Bins. Sample Rate ~48000. Bin Width ~93Hz.
-            
-            // Bass: 0-3 (~0-280Hz)
-            let bassSum = 0;
-            for(let i=0; i<4; i++) bassSum += dataArray[i];
-            const avgBass = (bassSum / 4) / 255;
+            // Bands are in Hz; the bins they cover depend on the device's sample rate
+            const binHz = ctx.sampleRate / analyserRef.current.fftSize;
+            const bandLevel = ([loHz, hiHz]: readonly [number, number]) => {
+                const [from, to] = bandBins(loHz, hiHz, binHz, dataArray.length);
+                let sum = 0;
+                for (let i = from; i < to; i++) sum += dataArray[i];
+                return (sum / (to - from)) / 255;
+            };
+
+            // Bass (~0-280Hz)
+            const avgBass = bandLevel(LOW_HZ);
             
-            // High Mids / Treble: 20-100 (~1800Hz - 9000Hz)
-            let highSum = 0;
-            let count = 0;
-            for(let i=20; i<100; i++) {
-                highSum += dataArray[i];
-                count++;
-            }
-            const avgHigh = (highSum / count) / 255;
+            // High Mids / Treble (~1800Hz - 9000Hz)
+            const avgHigh = bandLevel(HIGH_HZ);
             
             // Overall Volume
             let totalSum = 0;
@@ -243,18 +317,37 @@ const AudioManager: React.FC<Props> = ({ audioMode, handsDataRef, audioDataRef,
 
             // Lerp the ref values for smoothness
             const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
-            const smooth = 0.3;
+            const smooth = smoothing(0.3, delta);
             
             audioDataRef.current.low = lerp(audioDataRef.current.low, avgBass, smooth);
             audioDataRef.current.high = lerp(audioDataRef.current.high, avgHigh, smooth);
             audioDataRef.current.vol = lerp(audioDataRef.current.vol, avgVol, smooth);
 
+            // The visual spectrum, from the smoothed analyser
+            const levels = levelsRef.current!;
+            for (let i = 0; i < dataArray.length; i++) levels[i] = dataArray[i] / 255;
+            logSpectrum(levels, binHz, audioDataRef.current.spectrum);
+
+            // Onsets, tempo and spectral shape from the unsmoothed spectrum
+            const onsetAnalyser = onsetAnalyserRef.current!;
+            const onsetData = onsetDataRef.current!;
+            const spectrum = spectrumRef.current!;
+            onsetAnalyser.getByteFrequencyData(onsetData);
+            for (let i = 0; i < onsetData.length; i++) spectrum[i] = onsetData[i] / 255;
+            const features = analyzerRef.current.process(spectrum, ctx.sampleRate / onsetAnalyser.fftSize, ctx.currentTime);
+            copyAudioFeatures(features, audioDataRef.current);
+
         } else {
             // Decay to 0
             const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
-            audioDataRef.current.low = lerp(audioDataRef.current.low, 0, 0.1);
-            audioDataRef.current.high = lerp(audioDataRef.current.high, 0, 0.1);
-            audioDataRef.current.vol = lerp(audioDataRef.current.vol, 0, 0.1);
+            const decay = smoothing(0.1, delta);
+            audioDataRef.current.low = lerp(audioDataRef.current.low, 0, decay);
+            audioDataRef.current.high = lerp(audioDataRef.current.high, 0, decay);
+            audioDataRef.current.vol = lerp(audioDataRef.current.vol, 0, decay);
+            const spectrum = audioDataRef.current.spectrum;
+            for (let i = 0; i < spectrum.length; i++) spectrum[i] = lerp(spectrum[i], 0, decay);
+            analyzerRef.current.reset();
+            copyAudioFeatures({}, audioDataRef.current);
         }
     });
 
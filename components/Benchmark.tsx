@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Settings } from './Settings';
+
+// Slice counts the benchmark steps through
+export const BENCHMARK_COUNTS = [60, 500, 1000, 2500, 5000, 10000, 20000];
+
+// Time for the new geometry to upload and the frame rate to settle, then the measured window
+const WARMUP_MS = 1000;
+const MEASURE_MS = 3000;
+
+export type BenchmarkResult = { count: number; avgMs: number; p95Ms: number; fps: number };
+
+// Frame intervals as the browser schedules them, for `duration` ms
+const recordFrames = (duration: number) => new Promise<number[]>(resolve => {
+  const times: number[] = [];
+  let start = 0;
+  let last = 0;
+  const tick = (now: number) => {
+    if (last) times.push(now - last);
+    else start = now;
+    last = now;
+    if (now - start < duration) requestAnimationFrame(tick);
+    else resolve(times);
+  };
+  requestAnimationFrame(tick);
+});
+
+export const summarizeFrames = (count: number, times: number[]): BenchmarkResult => {
+  if (!times.length) return { count, avgMs: 0, p95Ms: 0, fps: 0 };
+  const sorted = [...times].sort((a, b) => a - b);
+  const avgMs = times.reduce((sum, t) => sum + t, 0) / times.length;
+  return { count, avgMs, p95Ms: sorted[Math.floor((sorted.length - 1) * 0.95)], fps: 1000 / avgMs };
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface Props {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+// Steps the sculpture through BENCHMARK_COUNTS slices and reports the frame
+// time at each, then puts the slice count back
+const Benchmark: React.FC<Props> = ({ settings, onChange }) => {
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [measuring, setMeasuring] = useState<number | null>(null);
+  const cancelledRef = useRef(false);
+  // The run spans many renders; other settings may change while it measures
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  // Closing the panel stops the run; the loop still restores the slice count
+  useEffect(() => () => { cancelledRef.current = true; }, []);
+
+  const run = async () => {
+    const original = settings.sliceCount;
+    cancelledRef.current = false;
+    setResults([]);
+    for (const count of BENCHMARK_COUNTS) {
+      if (cancelledRef.current) break;
+      setMeasuring(count);
+      onChange({ ...settingsRef.current, sliceCount: count });
+      await wait(WARMUP_MS);
+      const times = await recordFrames(MEASURE_MS);
+      if (cancelledRef.current) break;
+      setResults(r => [...r, summarizeFrames(count, times)]);
+    }
+    setMeasuring(null);
+    onChange({ ...settingsRef.current, sliceCount: original });
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        {measuring === null ? (
+          <button onClick={run} className="px-2 py-0.5 border border-gray-600 rounded hover:text-white hover:border-white">RUN</button>
+        ) : (
+          <button onClick={() => { cancelledRef.current = true; }} className="px-2 py-0.5 border border-red-400 text-red-400 rounded">STOP</button>
+        )}
+        <span className="text-gray-400">
+          {measuring === null ? `${BENCHMARK_COUNTS.length} steps, ~${Math.round(BENCHMARK_COUNTS.length * (WARMUP_MS + MEASURE_MS) / 1000)}s` : `Measuring ${measuring} slices…`}
+        </span>
+      </div>
+      {results.length > 0 && (
+        <table className="w-full text-right">
+          <thead className="text-gray-400">
+            <tr><th className="text-left font-normal">Slices</th><th className="font-normal">avg ms</th><th className="font-normal">p95 ms</th><th className="font-normal">fps</th></tr>
+          </thead>
+          <tbody>
+            {results.map(r => (
+              <tr key={r.count} className={r.fps >= 55 ? 'text-green-400' : r.fps >= 30 ? 'text-yellow-400' : 'text-red-400'}>
+                <td className="text-left">{r.count}</td>
+                <td>{r.avgMs.toFixed(1)}</td>
+                <td>{r.p95Ms.toFixed(1)}</td>
+                <td>{r.fps.toFixed(0)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default Benchmark;
@@ -0,0 +1,289 @@
+import * as THREE from 'three';
+import { SculptureSnapshot, torusSegments } from './SculptureExport';
+
+// A standalone Blender (bpy) script that rebuilds the scene: the slices with
+// their colors as materials, the two spot lights and the camera, optionally
+// keyframed over a recorded stretch of time.
+//
+// SceneBridge (inside the Canvas) registers a SceneRecorder here that reads
+// the live scene; the export controls call it and write the script.
+
+export type CameraState = {
+  position: THREE.Vector3;
+  rotation: THREE.Quaternion;
+  fov: number;     // Vertical, degrees
+  width: number;   // Canvas size in pixels, for the render resolution
+  height: number;
+};
+
+export type SpotLightState = {
+  position: THREE.Vector3;
+  rotation: THREE.Quaternion; // Pointing -Z at the light's target, like a camera
+  color: THREE.Color;
+  intensity: number;          // Candela
+  angle: number;              // Half-angle of the cone, radians
+  penumbra: number;
+  distance: number;
+};
+
+export type SceneSnapshot = {
+  sculpture: SculptureSnapshot;
+  camera: CameraState;
+  lights: SpotLightState[];
+  background: THREE.Color;
+};
+
+export type SceneRecording = {
+  fps: number;
+  frames: { frame: number; scene: SceneSnapshot }[];
+};
+
+export interface SceneRecorder {
+  // The scene as it was last drawn, or null before the first frame
+  snapshot(): SceneSnapshot | null;
+  // Samples the scene every 1 / fps seconds of wall-clock time
+  startRecording(fps: number, onFrame?: (frames: number) => void): void;
+  stopRecording(): SceneRecording;
+}
+
+let recorder: SceneRecorder | null = null;
+
+export const setSceneRecorder = (next: SceneRecorder | null) => {
+  recorder = next;
+};
+
+export const getSceneRecorder = () => recorder;
+
+// Recordings stop sampling past this many slice-frames, which keeps scripts
+// for big stacks to tens of megabytes
+export const MAX_RECORDED_SLICES = 500_000;
+
+// Blender lights are in watts; three's spot intensity is in candela
+const WATTS_PER_CANDELA = (4 * Math.PI) / 683;
+
+const num = (x: number) => String(Number(x.toFixed(5)));
+const tuple = (values: number[]) => `(${values.map(num).join(', ')})`;
+
+// (x, y, z, qw, qx, qy, qz, sx, sy, sz, r, g, b) per slice. Quaternions are
+// negated in place where needed to stay on the previous frame's side, so the
+// keyframes interpolate the short way
+const sliceRows = (sculpture: SculptureSnapshot, previous?: Float32Array) => {
+  const { transforms, colors } = sculpture;
+  const rows: string[] = [];
+  for (let i = 0; i < transforms.count; i++) {
+    const [qx, qy, qz, qw] = transforms.rotation.subarray(i * 4, i * 4 + 4);
+    const flip = previous && qx * previous[i * 4] + qy * previous[i * 4 + 1] + qz * previous[i * 4 + 2] + qw * previous[i * 4 + 3] < 0 ? -1 : 1;
+    if (flip < 0) for (let k = 0; k < 4; k++) transforms.rotation[i * 4 + k] *= -1;
+    rows.push(tuple([
+      ...transforms.position.subarray(i * 3, i * 3 + 3),
+      qw * flip, qx * flip, qy * flip, qz * flip,
+      ...transforms.scale.subarray(i * 3, i * 3 + 3),
+      ...colors.subarray(i * 3, i * 3 + 3),
+    ]));
+  }
+  return `[${rows.join(',\n  ')}]`;
+};
+
+const cameraRow = ({ position, rotation, fov, width, height }: CameraState) =>
+  tuple([position.x, position.y, position.z, rotation.w, rotation.x, rotation.y, rotation.z, fov, width, height]);
+
+const lightRows = (lights: SpotLightState[]) => `[${lights.map(l => tuple([
+  l.position.x, l.position.y, l.position.z,
+  l.rotation.w, l.rotation.x, l.rotation.y, l.rotation.z,
+  l.color.r, l.color.g, l.color.b,
+  l.intensity * WATTS_PER_CANDELA, l.angle * 2, l.penumbra, l.distance,
+])).join(', ')}]`;
+
+export const createBlenderScript = (scene: SceneSnapshot, recording?: SceneRecording, date = new Date()) => {
+  // The slice count can change mid-recording; keep the frames that match
+  const frames = recording?.frames.filter(f => f.scene.sculpture.transforms.count === scene.sculpture.transforms.count) ?? [];
+  const { radial, tubular } = torusSegments(scene.sculpture.transforms.count);
+
+  let previous: Float32Array | undefined;
+  const frameRows = frames.map(({ frame, scene: s }) => {
+    const slices = sliceRows(s.sculpture, previous);
+    previous = s.sculpture.transforms.rotation;
+    return `(${frame}, ${slices}, ${cameraRow(s.camera)}, ${lightRows(s.lights)})`;
+  });
+
+  return `# Spatial Color Slices, exported ${date.toISOString()}
+# Rebuilds the scene in Blender 3.6 or later: Scripting workspace, open this
+# file and Run Script. Everything hangs off one empty that turns three.js'
+# Y-up into Blender's Z-up.
+import bpy
+import math
+
+MATERIAL = "${scene.sculpture.material}"
+TORUS = ${tuple([scene.sculpture.radius, scene.sculpture.tube])}  # Ring radius, tube radius
+SEGMENTS = (${tubular}, ${radial})  # Around the ring, around the tube
+
+# (x, y, z, qw, qx, qy, qz, sx, sy, sz, r, g, b) per slice, colors linear
+SLICES = ${sliceRows(scene.sculpture)}
+
+# (x, y, z, qw, qx, qy, qz, vertical fov in degrees, width, height)
+CAMERA = ${cameraRow(scene.camera)}
+
+# (x, y, z, qw, qx, qy, qz, r, g, b, watts, spot size, blend, distance) per spot light
+LIGHTS = ${lightRows(scene.lights)}
+
+BACKGROUND = ${tuple([scene.background.r, scene.background.g, scene.background.b])}
+
+FPS = ${recording?.fps ?? 24}
+# (frame, slices, camera, lights) per recorded frame
+FRAMES = [${frameRows.join(',\n  ')}]
+
+
+def torus_mesh(name):
+    major, minor = SEGMENTS
+    ring, tube = TORUS
+    verts = []
+    for j in range(minor):
+        v = j / minor * 2 * math.pi
+        for i in range(major):
+            u = i / major * 2 * math.pi
+            verts.append(((ring + tube * math.cos(v)) * math.cos(u), (ring + tube * math.cos(v)) * math.sin(u), tube * math.sin(v)))
+    faces = []
+    for j in range(minor):
+        for i in range(major):
+            j1, i1 = (j + 1) % minor, (i + 1) % major
+            faces.append((j * major + i, j * major + i1, j1 * major + i1, j1 * major + i))
+    mesh = bpy.data.meshes.new(name)
+    mesh.from_pydata(verts, [], faces)
+    mesh.polygons.foreach_set("use_smooth", [True] * len(mesh.polygons))
+    mesh.update()
+    return mesh
+
+
+def set_input(node, names, value):
+    # Principled BSDF inputs were renamed in Blender 4.0
+    for name in names:
+        if name in node.inputs:
+            node.inputs[name].default_value = value
+            return
+
+
+def slice_material(name, color):
+    material = bpy.data.materials.new(name)
+    material.use_nodes = True
+    bsdf = material.node_tree.nodes["Principled BSDF"]
+    bsdf.inputs["Base Color"].default_value = (*color, 1)
+    if MATERIAL == "GLASS":
+        set_input(bsdf, ["Transmission Weight", "Transmission"], 1.0)
+        set_input(bsdf, ["Roughness"], 0.15)
+        set_input(bsdf, ["IOR"], 1.5)
+        set_input(bsdf, ["Coat Weight", "Clearcoat"], 1.0)
+    elif MATERIAL == "CRYSTAL":
+        set_input(bsdf, ["Roughness"], 0.05)
+        set_input(bsdf, ["Metallic"], 0.1)
+        set_input(bsdf, ["Coat Weight", "Clearcoat"], 1.0)
+    else:
+        set_input(bsdf, ["Roughness"], 0.6)
+    return material
+
+
+def place(obj, location, rotation):
+    obj.rotation_mode = "QUATERNION"
+    obj.location = location
+    obj.rotation_quaternion = rotation
+
+
+def animate(id_data, path, size, frames, values):
+    if id_data.animation_data is None:
+        id_data.animation_data_create()
+    if id_data.animation_data.action is None:
+        id_data.animation_data.action = bpy.data.actions.new(id_data.name + "Action")
+    action = id_data.animation_data.action
+    for index in range(size):
+        if hasattr(action, "fcurve_ensure_for_datablock"):
+            curve = action.fcurve_ensure_for_datablock(id_data, path, index=index)
+        else:
+            curve = action.fcurves.find(path, index=index) or action.fcurves.new(path, index=index)
+        curve.keyframe_points.add(len(frames))
+        co = []
+        for frame, value in zip(frames, values):
+            co += (frame, value[index])
+        curve.keyframe_points.foreach_set("co", co)
+        curve.update()
+
+
+scene = bpy.context.scene
+root = bpy.data.objects.new("Spatial Color Slices", None)
+root.rotation_euler = (math.pi / 2, 0, 0)
+scene.collection.objects.link(root)
+collection = bpy.data.collections.new("Slices")
+scene.collection.children.link(collection)
+
+# One shared ring; each slice links its own material to the object. Animated
+# colors need a material per slice, still ones share one per color
+mesh = torus_mesh("Slice")
+mesh.materials.append(None)
+palette = {}
+slices = []
+for k, s in enumerate(SLICES):
+    obj = bpy.data.objects.new(f"slice_{k:05d}", mesh)
+    obj.parent = root
+    place(obj, s[0:3], s[3:7])
+    obj.scale = s[7:10]
+    color = tuple(round(c, 3) for c in s[10:13])
+    if FRAMES:
+        material = slice_material(obj.name, color)
+    else:
+        material = palette.get(color) or palette.setdefault(color, slice_material(f"palette_{len(palette):03d}", color))
+    obj.material_slots[0].link = "OBJECT"
+    obj.material_slots[0].material = material
+    collection.objects.link(obj)
+    slices.append(obj)
+
+camera_data = bpy.data.cameras.new("Camera")
+camera_data.sensor_fit = "VERTICAL"
+camera_data.angle_y = math.radians(CAMERA[7])
+camera = bpy.data.objects.new("Camera", camera_data)
+camera.parent = root
+place(camera, CAMERA[0:3], CAMERA[3:7])
+scene.collection.objects.link(camera)
+scene.camera = camera
+scene.render.resolution_x = int(CAMERA[8])
+scene.render.resolution_y = int(CAMERA[9])
+
+lights = []
+for k, l in enumerate(LIGHTS):
+    light_data = bpy.data.lights.new(f"Spot {k + 1}", "SPOT")
+    light_data.color = l[7:10]
+    light_data.energy = l[10]
+    light_data.spot_size = l[11]
+    light_data.spot_blend = l[12]
+    if hasattr(light_data, "use_custom_distance"):
+        light_data.use_custom_distance = True
+        light_data.cutoff_distance = l[13]
+    light = bpy.data.objects.new(f"Spot {k + 1}", light_data)
+    light.parent = root
+    place(light, l[0:3], l[3:7])
+    scene.collection.objects.link(light)
+    lights.append(light)
+
+if scene.world is None:
+    scene.world = bpy.data.worlds.new("World")
+scene.world.use_nodes = True
+scene.world.node_tree.nodes["Background"].inputs["Color"].default_value = (*BACKGROUND, 1)
+
+if FRAMES:
+    keys = [f[0] for f in FRAMES]
+    scene.render.fps = FPS
+    scene.frame_start = keys[0]
+    scene.frame_end = keys[-1]
+    for k, obj in enumerate(slices):
+        rows = [f[1][k] for f in FRAMES]
+        animate(obj, "location", 3, keys, [r[0:3] for r in rows])
+        animate(obj, "rotation_quaternion", 4, keys, [r[3:7] for r in rows])
+        animate(obj, "scale", 3, keys, [r[7:10] for r in rows])
+        tree = obj.material_slots[0].material.node_tree
+        animate(tree, 'nodes["Principled BSDF"].inputs["Base Color"].default_value', 3, keys, [r[10:13] for r in rows])
+    animate(camera, "location", 3, keys, [f[2][0:3] for f in FRAMES])
+    animate(camera, "rotation_quaternion", 4, keys, [f[2][3:7] for f in FRAMES])
+    for k, light in enumerate(lights):
+        animate(light, "location", 3, keys, [f[3][k][0:3] for f in FRAMES])
+        animate(light, "rotation_quaternion", 4, keys, [f[3][k][3:7] for f in FRAMES])
+        animate(light.data, "color", 3, keys, [f[3][k][7:10] for f in FRAMES])
+        animate(light.data, "energy", 1, keys, [f[3][k][10:11] for f in FRAMES])
+`;
+};
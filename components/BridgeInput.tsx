@@ -0,0 +1,50 @@
+import React, { useMemo, useState } from 'react';
+import { InputData } from './HandTracker';
+import { WebSocketSource, DEFAULT_BRIDGE_URL } from './WebSocketSource';
+import { useInputSource } from './InputSource';
+
+type Props = {
+  onUpdate: (data: InputData) => void;
+};
+
+const URL_STORAGE_KEY = 'scs-bridge-url';
+
+// Status + relay address for the WebSocket/OSC bridge source
+const BridgeInput: React.FC<Props> = ({ onUpdate }) => {
+  const [url, setUrl] = useState(() => localStorage.getItem(URL_STORAGE_KEY) || DEFAULT_BRIDGE_URL);
+  const [draft, setDraft] = useState(url);
+
+  // A new URL means a new connection
+  const source = useMemo(() => new WebSocketSource(url), [url]);
+  const status = useInputSource(source, onUpdate);
+
+  const applyUrl = () => {
+    const next = draft.trim() || DEFAULT_BRIDGE_URL;
+    localStorage.setItem(URL_STORAGE_KEY, next);
+    setUrl(next);
+  };
+
+  const statusColor = status.state === 'active' ? 'text-green-400' : status.state === 'error' ? 'text-red-400' : 'text-white';
+
+  return (
+    <div className="fixed bottom-4 right-4 w-56 rounded-lg border border-white/20 z-50 bg-black/80 text-[10px] font-mono text-gray-300 p-2 space-y-1">
+        <div className={`text-center ${statusColor}`}>{status.message}</div>
+        <form
+            className="flex gap-1"
+            onSubmit={(e) => { e.preventDefault(); applyUrl(); }}
+        >
+            <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="flex-1 min-w-0 bg-black/50 border border-gray-600 rounded px-1 text-white"
+            />
+            <button type="submit" className="px-2 rounded border border-gray-600 hover:border-white hover:text-white">
+                SET
+            </button>
+        </form>
+        <div className="text-gray-500">npm run relay -- --demo</div>
+    </div>
+  );
+};
+
+export default BridgeInput;
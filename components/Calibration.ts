@@ -0,0 +1,139 @@
+import { InputData, HandData } from './HandTracker';
+import { asRecord, clampTo } from './Sanitize';
+
+export type Expression = 'smile' | 'mouthOpen' | 'browDown';
+export const EXPRESSIONS: Expression[] = ['smile', 'mouthOpen', 'browDown'];
+
+export type ReachBox = {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+};
+
+export type Calibration = {
+  name: string;
+  // Raw score at rest and at the performer's strongest expression
+  face: Record<Expression, { neutral: number; max: number }>;
+  // Area of the frame (in raw -1..1 input units) the performer can comfortably reach
+  reach: ReachBox;
+};
+
+// Identity calibration: passes data through unchanged
+export const DEFAULT_CALIBRATION: Calibration = {
+  name: 'Default',
+  face: {
+    smile: { neutral: 0, max: 1 },
+    mouthOpen: { neutral: 0, max: 1 },
+    browDown: { neutral: 0, max: 1 },
+  },
+  reach: { minX: -1, maxX: 1, minY: -1, maxY: 1 },
+};
+
+const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
+
+// Map [lo, hi] onto [-1, 1]
+const remap = (v: number, lo: number, hi: number) =>
+  hi - lo < 1e-3 ? v : clamp(((v - lo) / (hi - lo)) * 2 - 1, -1, 1);
+
+const normalizeHand = (hand: HandData, reach: ReachBox): HandData =>
+  hand.present
+    ? { ...hand, x: remap(hand.x, reach.minX, reach.maxX), y: remap(hand.y, reach.minY, reach.maxY) }
+    : hand;
+
+/**
+ * Rescales raw tracking so the performer's neutral face reads 0, their
+ * strongest expression reads 1 and their reach box spans the full -1..1 range.
+ * Landmarks are left in raw image space.
+ */
+export const applyCalibration = (data: InputData, cal: Calibration): InputData => {
+  const face = { ...data.face };
+  if (face.present) {
+    for (const expr of EXPRESSIONS) {
+      const { neutral, max } = cal.face[expr];
+      face[expr] = clamp((face[expr] - neutral) / Math.max(max - neutral, 0.05), 0, 1);
+    }
+  }
+  return {
+    hands: {
+      left: normalizeHand(data.hands.left, cal.reach),
+      right: normalizeHand(data.hands.right, cal.reach),
+    },
+    face,
+  };
+};
+
+// Robust statistic over samples, so a single tracking glitch can't define a limit
+export const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[clamp(Math.round((sorted.length - 1) * p), 0, sorted.length - 1)];
+};
+
+const SIGNED = { min: -1, max: 1 };
+const UNIT = { min: 0, max: 1 };
+
+// A stored or imported calibration with every field present and in range;
+// anything missing or malformed falls back to the identity calibration
+export const sanitizeCalibration = (raw: unknown): Calibration => {
+  const src = asRecord(raw);
+  const face = asRecord(src.face);
+  const reach = asRecord(src.reach);
+  const def = DEFAULT_CALIBRATION;
+  const cal: Calibration = {
+    name: typeof src.name === 'string' && src.name ? src.name : DEFAULT_CALIBRATION.name,
+    face: { ...def.face },
+    reach: {
+      minX: clampTo(reach.minX, def.reach.minX, SIGNED),
+      maxX: clampTo(reach.maxX, def.reach.maxX, SIGNED),
+      minY: clampTo(reach.minY, def.reach.minY, SIGNED),
+      maxY: clampTo(reach.maxY, def.reach.maxY, SIGNED),
+    },
+  };
+  for (const expr of EXPRESSIONS) {
+    const range = asRecord(face[expr]);
+    cal.face[expr] = {
+      neutral: clampTo(range.neutral, def.face[expr].neutral, UNIT),
+      max: clampTo(range.max, def.face[expr].max, UNIT),
+    };
+  }
+  return cal;
+};
+
+// --- Profile Storage (localStorage) ---
+
+const PROFILES_KEY = 'scs-calibration-profiles';
+const ACTIVE_KEY = 'scs-calibration-active';
+
+export const loadProfiles = (): Record<string, Calibration> => {
+  try {
+    const stored = asRecord(JSON.parse(localStorage.getItem(PROFILES_KEY) || '{}'));
+    const profiles: Record<string, Calibration> = {};
+    // Profiles are keyed by name, so the key wins over any stored name
+    for (const name of Object.keys(stored)) profiles[name] = { ...sanitizeCalibration(stored[name]), name };
+    return profiles;
+  } catch {
+    return {};
+  }
+};
+
+export const saveProfile = (cal: Calibration) => {
+  const profiles = loadProfiles();
+  profiles[cal.name] = cal;
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+export const deleteProfile = (name: string) => {
+  const profiles = loadProfiles();
+  delete profiles[name];
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+export const loadActiveProfileName = () => localStorage.getItem(ACTIVE_KEY);
+
+export const saveActiveProfileName = (name: string | null) => {
+  if (name) localStorage.setItem(ACTIVE_KEY, name);
+  else localStorage.removeItem(ACTIVE_KEY);
+};
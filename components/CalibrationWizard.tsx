@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InputData, FaceData } from './HandTracker';
+import {
+  Calibration, DEFAULT_CALIBRATION, EXPRESSIONS, Expression, ReachBox, percentile
+} from './Calibration';
+
+interface Props {
+  rawInputRef: React.MutableRefObject<InputData>; // Uncalibrated camera data
+  existingNames: string[];
+  onSave: (calibration: Calibration) => void;
+  onClose: () => void;
+}
+
+type StepId = 'neutral' | Expression | 'reach';
+
+const STEPS: { id: StepId; title: string; prompt: string; durationMs: number }[] = [
+  { id: 'neutral', title: 'Neutral Face', prompt: 'Relax your face and look at the camera.', durationMs: 3000 },
+  { id: 'smile', title: 'Smile', prompt: 'Smile as wide as you comfortably can.', durationMs: 3000 },
+  { id: 'mouthOpen', title: 'Surprise', prompt: 'Open your mouth wide.', durationMs: 3000 },
+  { id: 'browDown', title: 'Frown', prompt: 'Lower your brows into a frown.', durationMs: 3000 },
+  { id: 'reach', title: 'Hand Reach', prompt: 'Slowly sweep both hands around the edge of the area you can comfortably reach.', durationMs: 6000 },
+];
+
+const SAMPLE_INTERVAL_MS = 33;
+const MIN_SAMPLES = 10;
+
+// Guided capture of a neutral face, each expression's maximum and the hand reach box
+const CalibrationWizard: React.FC<Props> = ({ rawInputRef, existingNames, onSave, onClose }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [progress, setProgress] = useState<number | null>(null); // null = not recording
+  const [warning, setWarning] = useState<string | null>(null);
+  const [name, setName] = useState(() => `Profile ${existingNames.length + 1}`);
+
+  const faceSamples = useRef<Record<StepId, FaceData[]>>({ neutral: [], smile: [], mouthOpen: [], browDown: [], reach: [] });
+  const reachSamples = useRef<{ xs: number[]; ys: number[] }>({ xs: [], ys: [] });
+  const timerRef = useRef<number>(0);
+
+  useEffect(() => () => clearInterval(timerRef.current), []);
+
+  const step = STEPS[stepIndex];
+  const done = stepIndex >= STEPS.length;
+
+  const record = () => {
+    const { id, durationMs } = STEPS[stepIndex];
+    const faces: FaceData[] = [];
+    const xs: number[] = [];
+    const ys: number[] = [];
+    const start = performance.now();
+    setWarning(null);
+    setProgress(0);
+
+    timerRef.current = window.setInterval(() => {
+      const { face, hands } = rawInputRef.current;
+      if (id === 'reach') {
+        [hands.left, hands.right].forEach(h => {
+          if (h.present) { xs.push(h.x); ys.push(h.y); }
+        });
+      } else if (face.present) {
+        faces.push({ ...face });
+      }
+
+      const elapsed = performance.now() - start;
+      setProgress(Math.min(elapsed / durationMs, 1));
+      if (elapsed < durationMs) return;
+
+      clearInterval(timerRef.current);
+      setProgress(null);
+      const count = id === 'reach' ? xs.length : faces.length;
+      if (count < MIN_SAMPLES) {
+        setWarning(id === 'reach' ? "No hands detected, try again." : "No face detected, try again.");
+        return;
+      }
+      if (id === 'reach') reachSamples.current = { xs, ys };
+      else faceSamples.current[id] = faces;
+      setStepIndex(i => i + 1);
+    }, SAMPLE_INTERVAL_MS);
+  };
+
+  const buildCalibration = (): Calibration => {
+    const neutralFaces = faceSamples.current.neutral;
+    const face = { ...DEFAULT_CALIBRATION.face };
+    for (const expr of EXPRESSIONS) {
+      const neutral = percentile(neutralFaces.map(f => f[expr]), 0.5);
+      const max = percentile(faceSamples.current[expr].map(f => f[expr]), 0.9);
+      // Someone who can't move this blendshape much still gets a usable range
+      face[expr] = { neutral, max: Math.max(max, neutral + 0.1) };
+    }
+
+    const { xs, ys } = reachSamples.current;
+    let reach: ReachBox = {
+      minX: percentile(xs, 0.03), maxX: percentile(xs, 0.97),
+      minY: percentile(ys, 0.03), maxY: percentile(ys, 0.97),
+    };
+    if (reach.maxX - reach.minX < 0.3 || reach.maxY - reach.minY < 0.3) reach = { ...DEFAULT_CALIBRATION.reach };
+
+    return { name: name.trim() || 'Profile', face, reach };
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 pointer-events-auto">
+        <div className="w-96 rounded-lg border border-white/20 bg-black/80 backdrop-blur-md p-6 font-mono text-sm text-gray-300">
+            <div className="flex justify-between items-center mb-4">
+                <span className="font-bold text-white">Calibration</span>
+                <span className="text-xs text-gray-500">{Math.min(stepIndex + 1, STEPS.length + 1)} / {STEPS.length + 1}</span>
+            </div>
+
+            {!done ? (
+                <>
+                    <p className="text-white text-lg mb-1">{step.title}</p>
+                    <p className="mb-4">{step.prompt}</p>
+                    <div className="h-1 bg-gray-700 rounded mb-4 overflow-hidden">
+                        <div className="h-full bg-[#D7CEA3]" style={{ width: `${(progress ?? 0) * 100}%` }} />
+                    </div>
+                    {warning && <p className="text-red-400 text-xs mb-3">{warning}</p>}
+                    <button
+                        onClick={record}
+                        disabled={progress !== null}
+                        className="px-6 py-2 rounded-full text-sm font-bold border bg-white text-black border-white disabled:opacity-50"
+                    >
+                        {progress !== null ? 'RECORDING...' : 'RECORD'}
+                    </button>
+                </>
+            ) : (
+                <form onSubmit={(e) => { e.preventDefault(); onSave(buildCalibration()); }}>
+                    <p className="text-white text-lg mb-1">Save Profile</p>
+                    <p className="mb-3">Name this calibration to reuse it later.</p>
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="w-full bg-black/50 border border-gray-600 rounded px-2 py-1 text-white mb-1"
+                    />
+                    {existingNames.includes(name.trim()) && <p className="text-xs text-yellow-400 mb-2">Overwrites the existing profile.</p>}
+                    <button type="submit" className="mt-2 px-6 py-2 rounded-full text-sm font-bold border bg-white text-black border-white">
+                        SAVE
+                    </button>
+                </form>
+            )}
+
+            <button onClick={onClose} className="block mt-4 text-xs text-gray-500 hover:text-white">
+                Cancel
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,50 @@
+import { ZipEntry } from './Zip';
+
+// Capture of the canvas: stills, video and frame sequences.
+//
+// The renderer lives inside the Canvas, the buttons outside it. CaptureBridge
+// (inside) registers a Capturer here and the capture controls call it.
+
+export type VideoOptions = {
+  fps: number;
+  audio: boolean;  // Mix in everything played through the AudioListener (the theremin)
+};
+
+export type SequenceOptions = {
+  fps: number;      // Simulation steps by exactly 1 / fps per frame
+  frames: number;
+  scale: number;    // Resolution multiplier over the window
+  signal?: AbortSignal;
+  onFrame?: (done: number) => void;
+};
+
+export interface Capturer {
+  // PNG of the current moment at `scale` times the window's resolution
+  still(scale: number): Promise<Blob>;
+  startVideo(options: VideoOptions): void;
+  stopVideo(): Promise<Blob>;
+  // PNGs rendered offline; the live loop is paused meanwhile
+  sequence(options: SequenceOptions): Promise<ZipEntry[]>;
+}
+
+let capturer: Capturer | null = null;
+
+export const setCapturer = (next: Capturer | null) => {
+  capturer = next;
+};
+
+export const getCapturer = () => capturer;
+
+// WebM variants in order of preference; the first the browser records
+const VIDEO_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export const pickVideoType = () =>
+  VIDEO_TYPES.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type)) ?? '';
+
+// Must be called right after the frame is drawn: the drawing buffer isn't preserved
+export const canvasToPng = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Canvas capture failed"))), 'image/png');
+});
+
+export const captureFilename = (extension: string, date = new Date()) =>
+  `spatial-color-slices-${date.toISOString().replace(/[:.]/g, '-')}.${extension}`;
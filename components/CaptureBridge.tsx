@@ -0,0 +1,129 @@
+import React, { useEffect } from 'react';
+import { RootState, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Capturer, setCapturer, canvasToPng, pickVideoType } from './Capture';
+import { ZipEntry } from './Zip';
+
+interface Props {
+  listener: THREE.AudioListener;
+}
+
+const VIDEO_BITRATE = 12_000_000;
+
+/**
+ * Pauses the render loop and hands `body` a function that renders one frame
+ * at an exact clock time. The clock is stopped and won't auto-start, so
+ * advance() sets the time (and the frame's delta) from the timestamp alone.
+ */
+const offline = async <T,>(state: RootState, body: (renderAt: (time: number) => void) => Promise<T>) => {
+  const { clock, set, advance, invalidate, frameloop } = state;
+  clock.stop();
+  clock.autoStart = false;
+  set({ frameloop: 'never' });
+  try {
+    return await body(time => advance(time, true));
+  } finally {
+    const elapsed = clock.elapsedTime;
+    clock.autoStart = true;
+    clock.start();
+    clock.elapsedTime = elapsed;
+    set({ frameloop });
+    invalidate();
+  }
+};
+
+// Registers the Capturer for the canvas it's mounted in
+const CaptureBridge: React.FC<Props> = ({ listener }) => {
+  const gl = useThree(state => state.gl);
+  const get = useThree(state => state.get);
+
+  useEffect(() => {
+    let recorder: MediaRecorder | null = null;
+    let chunks: Blob[] = [];
+    let audioTap: MediaStreamAudioDestinationNode | null = null;
+
+    // Pixel ratio for `scale` times the current resolution, within what the GPU can render
+    const scaledRatio = (scale: number) => {
+      const ratio = gl.getPixelRatio();
+      const size = gl.getSize(new THREE.Vector2());
+      const max = gl.capabilities.maxTextureSize;
+      return ratio * Math.max(1, Math.min(scale, max / (size.x * ratio), max / (size.y * ratio)));
+    };
+
+    const capturer: Capturer = {
+      still: (scale) => offline(get(), async renderAt => {
+        const ratio = gl.getPixelRatio();
+        gl.setPixelRatio(scaledRatio(scale));
+        try {
+          // Same moment (zero delta), just more pixels
+          renderAt(get().clock.elapsedTime);
+          return await canvasToPng(gl.domElement);
+        } finally {
+          gl.setPixelRatio(ratio);
+        }
+      }),
+
+      startVideo: ({ fps, audio }) => {
+        if (recorder) return;
+        const stream = gl.domElement.captureStream(fps);
+        if (audio) {
+          audioTap = listener.context.createMediaStreamDestination();
+          listener.getInput().connect(audioTap);
+          audioTap.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+        }
+        const mimeType = pickVideoType();
+        recorder = new MediaRecorder(stream, { mimeType: mimeType || undefined, videoBitsPerSecond: VIDEO_BITRATE });
+        chunks = [];
+        recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+        recorder.start(1000);
+      },
+
+      stopVideo: () => new Promise<Blob>((resolve, reject) => {
+        const active = recorder;
+        if (!active) {
+          reject(new Error("No video is being recorded"));
+          return;
+        }
+        active.onstop = () => {
+          active.stream.getTracks().forEach(track => track.stop());
+          if (audioTap) {
+            listener.getInput().disconnect(audioTap);
+            audioTap = null;
+          }
+          resolve(new Blob(chunks, { type: active.mimeType || 'video/webm' }));
+          chunks = [];
+        };
+        active.stop();
+        recorder = null;
+      }),
+
+      sequence: ({ fps, frames, scale, signal, onFrame }) => offline(get(), async renderAt => {
+        const ratio = gl.getPixelRatio();
+        gl.setPixelRatio(scaledRatio(scale));
+        const start = get().clock.elapsedTime;
+        const entries: ZipEntry[] = [];
+        try {
+          for (let k = 0; k < frames && !signal?.aborted; k++) {
+            renderAt(start + (k + 1) / fps);
+            const png = await canvasToPng(gl.domElement);
+            entries.push({ name: `frame_${String(k).padStart(5, '0')}.png`, data: new Uint8Array(await png.arrayBuffer()) });
+            onFrame?.(k + 1);
+          }
+          return entries;
+        } finally {
+          gl.setPixelRatio(ratio);
+        }
+      }),
+    };
+
+    setCapturer(capturer);
+    return () => {
+      setCapturer(null);
+      if (recorder && recorder.state !== 'inactive') recorder.stop();
+    };
+  }, [gl, get, listener]);
+
+  return null;
+};
+
+export default CaptureBridge;
@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import { getCapturer, captureFilename } from './Capture';
+import { createZip } from './Zip';
+import { downloadBlob } from './Download';
+
+const SCALES = [1, 2, 4, 8];
+const SEQUENCE_FPS = [24, 30, 60];
+const VIDEO_FPS = 60;
+
+const BUTTON = 'px-4 py-1 rounded-full text-xs font-bold border transition-all duration-300';
+const IDLE = 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white';
+const SELECT = 'bg-black/50 text-gray-300 border border-gray-600 rounded-full px-3 py-1 text-xs font-mono';
+
+// Stills, WebM video and offline PNG sequences of the canvas
+const CaptureControls: React.FC = () => {
+  const [scale, setScale] = useState(2);
+  const [recording, setRecording] = useState(false);
+  const [withAudio, setWithAudio] = useState(true);
+  const [fps, setFps] = useState(30);
+  const [seconds, setSeconds] = useState(5);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleStill = () => {
+    getCapturer()?.still(scale)
+      .then(blob => downloadBlob(blob, captureFilename('png')))
+      .catch(e => console.error("Still capture failed", e));
+  };
+
+  const handleVideo = () => {
+    const capturer = getCapturer();
+    if (!capturer) return;
+    if (recording) {
+      setRecording(false);
+      capturer.stopVideo()
+        .then(blob => downloadBlob(blob, captureFilename('webm')))
+        .catch(e => console.error("Video capture failed", e));
+    } else {
+      try {
+        capturer.startVideo({ fps: VIDEO_FPS, audio: withAudio });
+        setRecording(true);
+      } catch (e) {
+        console.error("Video capture failed", e);
+      }
+    }
+  };
+
+  const handleSequence = async () => {
+    const capturer = getCapturer();
+    if (!capturer) return;
+    if (abortRef.current) {
+      abortRef.current.abort();
+      return;
+    }
+    const total = Math.max(1, Math.round(seconds * fps));
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setProgress({ done: 0, total });
+    try {
+      const frames = await capturer.sequence({
+        fps, frames: total, scale, signal: abort.signal,
+        onFrame: (done) => setProgress({ done, total }),
+      });
+      if (frames.length) downloadBlob(createZip(frames), captureFilename('zip'));
+    } catch (e) {
+      console.error("Sequence export failed", e);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 flex flex-wrap gap-2 pointer-events-auto items-center">
+        <span className="text-xs font-mono text-gray-500 mr-1">CAPTURE</span>
+        <select value={scale} onChange={(e) => setScale(Number(e.target.value))} className={SELECT} title="Resolution multiplier for stills and sequences">
+            {SCALES.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+        <button onClick={handleStill} disabled={progress !== null} className={`${BUTTON} ${IDLE}`}>
+            PNG
+        </button>
+        <button
+            onClick={handleVideo}
+            disabled={progress !== null}
+            className={`${BUTTON} ${recording ? 'bg-red-500 text-white border-red-400 animate-pulse' : IDLE}`}
+        >
+            {recording ? '■ STOP VIDEO' : '● VIDEO'}
+        </button>
+        <label className="flex items-center gap-1 text-xs font-mono text-gray-400">
+            <input type="checkbox" checked={withAudio} disabled={recording} onChange={(e) => setWithAudio(e.target.checked)} />
+            + audio
+        </label>
+
+        <span className="text-xs font-mono text-gray-500 ml-4 mr-1">SEQUENCE</span>
+        <select value={fps} onChange={(e) => setFps(Number(e.target.value))} disabled={progress !== null} className={SELECT}>
+            {SEQUENCE_FPS.map(f => <option key={f} value={f}>{f} fps</option>)}
+        </select>
+        <input
+            type="number"
+            min={0.1}
+            step={0.5}
+            value={seconds}
+            disabled={progress !== null}
+            onChange={(e) => setSeconds(Math.max(0.1, Number(e.target.value) || 0))}
+            className="w-16 bg-black/50 text-gray-300 border border-gray-600 rounded-full px-3 py-1 text-xs font-mono"
+        />
+        <span className="text-xs font-mono text-gray-400">s</span>
+        <button onClick={handleSequence} disabled={recording} className={`${BUTTON} ${progress ? 'bg-white text-black border-white' : IDLE}`}>
+            {progress ? `CANCEL (${progress.done}/${progress.total})` : 'EXPORT PNGs'}
+        </button>
+    </div>
+  );
+};
+
+export default CaptureControls;
@@ -0,0 +1,59 @@
+import * as THREE from 'three';
+
+// How palette colors are assigned to slices
+export type ColorMapping = 'STRIPES' | 'HEIGHT' | 'TWIST' | 'AUDIO' | 'RANDOM';
+
+export const COLOR_MAPPINGS: { mode: ColorMapping; label: string }[] = [
+  { mode: 'STRIPES', label: 'Stripes' },
+  { mode: 'HEIGHT', label: 'Height Gradient' },
+  { mode: 'TWIST', label: 'Twist Gradient' },
+  { mode: 'AUDIO', label: 'Audio Bands' },
+  { mode: 'RANDOM', label: 'Random (Seeded)' },
+];
+
+export type SliceContext = {
+  index: number;
+  count: number;
+  angle: number; // Rotation of the slice around the stack axis, radians
+  level: number; // Audio level of the band this slice listens to, 0..1
+  seed: number;
+};
+
+/**
+ * Linear gradient through the colors, t in 0..1. A cyclic gradient wraps the
+ * last color back to the first so angles have no seam.
+ */
+export const sampleGradient = (colors: THREE.Color[], t: number, target: THREE.Color, cyclic = false) => {
+  const n = colors.length;
+  if (n === 1) return target.copy(colors[0]);
+  const segments = cyclic ? n : n - 1;
+  const x = (cyclic ? t - Math.floor(t) : THREE.MathUtils.clamp(t, 0, 1)) * segments;
+  const i = Math.min(Math.floor(x), segments - 1);
+  return target.copy(colors[i]).lerp(colors[(i + 1) % n], x - i);
+};
+
+// Deterministic value in [0, 1) per (seed, index)
+export const seededRandom = (seed: number, index: number) => {
+  let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(index + 1, 0xc2b2ae35);
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+export const mapSliceColor = (mode: ColorMapping, colors: THREE.Color[], slice: SliceContext, target: THREE.Color) => {
+  const n = colors.length;
+  const t = slice.count > 1 ? slice.index / (slice.count - 1) : 0;
+  switch (mode) {
+    case 'HEIGHT':
+      return sampleGradient(colors, t, target);
+    case 'TWIST':
+      return sampleGradient(colors, slice.angle / (Math.PI * 2), target, true);
+    case 'AUDIO':
+      return sampleGradient(colors, slice.level, target);
+    case 'RANDOM':
+      return target.copy(colors[Math.floor(seededRandom(slice.seed, slice.index) * n)]);
+    case 'STRIPES':
+    default:
+      return target.copy(colors[slice.index % n]);
+  }
+};
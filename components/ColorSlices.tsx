@@ -1,103 +1,247 @@
-import React, { useRef, useMemo, useLayoutEffect } from 'react';
+import React, { useRef, useMemo, useLayoutEffect, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { CONFIG, PALETTES } from '../constants';
-import { InputData } from './HandTracker';
-import { AudioData } from './AudioManager';
-import { AudioMode } from '../App';
+import { PALETTES, GESTURE_EVENTS } from '../constants';
+import { InputData, HandData } from './HandTracker';
+import { GestureName } from './GestureClassifier';
+import { EmotionState, EMOTIONS } from './EmotionState';
+import { AudioData, createAudioData } from './AudioManager';
+import { AudioMode, MaterialMode } from '../App';
+import { SliceMaterial } from './SliceShader';
+import { Settings, SpringName, SpringSettings } from './Settings';
+import { Spring, SpringValue, DampedSpring, smoothing, frequencyFromStiffness, dampingRatioFromConstants } from './Springs';
+import { SpringChain, ChainParams } from './SpringChain';
+import { PaletteSet, EmotionPalettes } from './Palettes';
+import {
+    createSliceUniforms, createSliceGeometry, applySliceInstancing, setPlacement, setChain,
+    setTransforms, colorMappingIndex, applyChain, PaletteLayers, MAX_CHAIN_NODES,
+    setSpectrum, applySpectrum
+} from './SliceInstancing';
+import {
+    SculptureGenerator, GeneratorContext, SliceTransforms, createSliceTransforms, copySliceTransforms, blendSliceTransforms
+} from './SculptureGenerator';
+import { getSculptureGenerator } from './Sculptures';
+import { setSnapshotSource } from './SculptureExport';
 
 interface Props {
     inputDataRef: React.MutableRefObject<InputData>;
     audioDataRef: React.MutableRefObject<AudioData>;
+    audioReplayRef: React.MutableRefObject<AudioData | null>;
     audioMode: AudioMode;
+    palettes: PaletteSet;
+    emotionPalettes: EmotionPalettes;
+    emotion: EmotionState;
+    materialMode: MaterialMode;
+    sculpture: string;
+    settings: Settings;
 }
 
-// --- Simple Spring Physics Class ---
-class SpringValue {
-    value: number;
-    target: number;
-    velocity: number;
-    stiffness: number;
-    damping: number;
-
-    constructor(initial: number, stiffness = 0.1, damping = 0.8) {
-        this.value = initial;
-        this.target = initial;
-        this.velocity = 0;
-        this.stiffness = stiffness;
-        this.damping = damping;
-    }
+// Fixed-step spring with the per-step constants, or a closed-form spring
+// with the same natural frequency and damping ratio
+const createSpring = (initial: number, params: SpringSettings, analytic: boolean): Spring =>
+    analytic
+        ? new DampedSpring(initial, frequencyFromStiffness(params.stiffness), dampingRatioFromConstants(params.stiffness, params.damping))
+        : new SpringValue(initial, params.stiffness, params.damping);
 
-    update() {
-        const force = (this.target - this.value) * this.stiffness;
-        this.velocity = this.velocity * this.damping + force;
-        this.value += this.velocity;
+const configureSpring = (spring: Spring, params: SpringSettings) => {
+    if (spring instanceof SpringValue) {
+        spring.stiffness = params.stiffness;
+        spring.damping = params.damping;
+    } else if (spring instanceof DampedSpring) {
+        spring.frequency = frequencyFromStiffness(params.stiffness);
+        spring.dampingRatio = dampingRatioFromConstants(params.stiffness, params.damping);
     }
-}
+};
+
+const chainParams = (settings: Settings): ChainParams => ({
+    stiffness: settings.chainStiffness,
+    waveSpeed: settings.chainWaveSpeed,
+    damping: settings.chainDamping,
+    massTaper: settings.chainMassTaper,
+});
+
+// Spring velocity each detected kick adds, per unit of bass
+const KICK_RADIUS = 0.3;
+const KICK_HEIGHT = 0.6;
+
+// Gradient stops fed to the shader materials (uColor1..5)
+const PALETTE_SLOTS = 5;
+
+// Easing of the palette weights per 60 fps frame (smooths palette swaps from swiping)
+const COLOR_EASE = 0.15;
 
-const ColorSlices: React.FC<Props> = ({ inputDataRef, audioDataRef, audioMode }) => {
-  const meshRef = useRef<THREE.InstancedMesh>(null);
+// Time constant of the cross-fade between material modes
+const MATERIAL_FADE_MS = 400;
+
+// Length of the morph between sculpture forms
+const MORPH_MS = 1500;
+
+// What generators hear when no audio is playing
+const SILENCE: AudioData = createAudioData();
+
+// Gestures below this confidence are ignored
+const GESTURE_CONFIDENCE = 0.7;
+
+const gestureOf = (hand: HandData): GestureName =>
+    hand.present && hand.gesture && hand.gesture.confidence >= GESTURE_CONFIDENCE ? hand.gesture.name : 'none';
+
+const ColorSlices: React.FC<Props> = ({ inputDataRef, audioDataRef, audioReplayRef, audioMode, palettes, emotionPalettes, emotion, materialMode, sculpture, settings }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
   const materialRef = useRef<THREE.MeshPhysicalMaterial>(null);
-  const tempObject = useMemo(() => new THREE.Object3D(), []);
+  // Shader-based modes render on a second mesh with the same placement
+  const paintMeshRef = useRef<THREE.Mesh>(null);
+
+  // Both meshes place and color their instances on the GPU from these
+  const sliceUniforms = useMemo(createSliceUniforms, []);
+  const geometry = useMemo(
+      () => createSliceGeometry(settings.radius, settings.tubeThickness, settings.sliceCount),
+      [settings.radius, settings.tubeThickness, settings.sliceCount]
+  );
+  useLayoutEffect(() => () => geometry.dispose(), [geometry]);
+
+  const paintMaterial = useMemo(() => {
+      const material = new SliceMaterial();
+      material.transparent = true;
+      Object.assign(material.uniforms, sliceUniforms);
+      return material;
+  }, [sliceUniforms]);
+  useLayoutEffect(() => () => paintMaterial.dispose(), [paintMaterial]);
+
+  useLayoutEffect(() => {
+      if (materialRef.current) applySliceInstancing(materialRef.current, sliceUniforms);
+      return () => {
+          sliceUniforms.uChain.value.dispose();
+          sliceUniforms.uPalettes.value.dispose();
+          sliceUniforms.uTransforms.value.dispose();
+          sliceUniforms.uSpectrum.value.dispose();
+      };
+  }, [sliceUniforms]);
+
+  // Current mix of the modes: glass vs shader, and painted vs crystal within the shader
+  const fadeRef = useRef({ glass: 1, crystal: 0 });
   
-  // Instance colors array to manage smooth transitions
-  const currentPaletteRef = useRef<THREE.Color[]>(PALETTES.DEFAULT.map(c => new THREE.Color(c)));
-  const targetPaletteRef = useRef<string[]>(PALETTES.DEFAULT);
+  // Palettes as colors; the on-screen ones are blended as eased layers
+  const paletteColors = useMemo(() => {
+      const colors: Record<string, THREE.Color[]> = {};
+      for (const [name, hexes] of Object.entries(palettes)) colors[name] = hexes.map(c => new THREE.Color(c));
+      return colors;
+  }, [palettes]);
+  const fallbackColors = useMemo(() => PALETTES.DEFAULT.map(c => new THREE.Color(c)), []);
+  const colorsOf = useMemo(
+      () => (name: string) => paletteColors[name]?.length ? paletteColors[name] : fallbackColors,
+      [paletteColors, fallbackColors]
+  );
+  const paletteLayers = useMemo(() => new PaletteLayers(), []);
+  const paletteTargets = useMemo(() => new Map<string, number>(), []);
+  // Gradient stops of the blend, for the shader materials and the glow
+  const paletteStopsRef = useRef<THREE.Color[]>(PALETTES.DEFAULT.map(c => new THREE.Color(c)));
+  const targetEmissive = useMemo(() => new THREE.Color(), []);
 
   // --- Physics State (Springs) ---
-  const springs = useMemo(() => ({
-      stackHeight: new SpringValue(CONFIG.stackHeight, 0.05, 0.85), // Bouncy spine
-      twist: new SpringValue(0, 0.03, 0.90),                        // Flowy twist
-      radiusScale: new SpringValue(1.0, 0.1, 0.8),                  // Punchy radius
-      chaos: new SpringValue(0, 0.05, 0.9)                          // Slow decay chaos
-  }), []);
-
-  // --- Initial Setup ---
-  useLayoutEffect(() => {
-    if (meshRef.current) {
-      for (let i = 0; i < CONFIG.sliceCount; i++) {
-        tempObject.position.set(0, 0, 0);
-        tempObject.updateMatrix();
-        meshRef.current.setMatrixAt(i, tempObject.matrix);
-        meshRef.current.setColorAt(i, currentPaletteRef.current[i % 5]);
+  // Rebuilt when switching integrators, carrying over the current motion
+  const springsRef = useRef<Record<SpringName, Spring> | null>(null);
+  const springs = useMemo(() => {
+      const initial: Record<SpringName, number> = { stackHeight: settings.stackHeight, twist: 0, radiusScale: 1.0, chaos: 0 };
+      const previous = springsRef.current;
+      const next = {} as Record<SpringName, Spring>;
+      for (const name of Object.keys(initial) as SpringName[]) {
+          const spring = createSpring(previous ? previous[name].value : initial[name], settings.springs[name], settings.analyticSprings);
+          if (previous) {
+              spring.target = previous[name].target;
+              spring.velocity = previous[name].velocity;
+          }
+          next[name] = spring;
       }
-      meshRef.current.instanceMatrix.needsUpdate = true;
-      if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
-    }
-  }, [tempObject]);
+      springsRef.current = next;
+      return next;
+  }, [settings.analyticSprings]);
+
+  // Spring constants are live-editable; keep the springs' state, swap the constants
+  useLayoutEffect(() => {
+      (Object.keys(springs) as SpringName[]).forEach(name => configureSpring(springs[name], settings.springs[name]));
+  }, [springs, settings.springs]);
+
+  // Chain on top of the global springs: local waves up and down the stack.
+  // Past MAX_CHAIN_NODES the slices interpolate between nodes
+  const chain = useMemo(
+      () => new SpringChain(Math.min(settings.sliceCount, MAX_CHAIN_NODES), chainParams(settings)),
+      [settings.sliceCount]
+  );
+  useLayoutEffect(() => {
+      chain.configure(chainParams(settings));
+  }, [chain, settings.chainStiffness, settings.chainWaveSpeed, settings.chainDamping, settings.chainMassTaper]);
+
+  // Sculpture form: generators write into `to` (and `from` while morphing),
+  // the blend goes to `out`
+  const transforms = useMemo(() => ({
+      from: createSliceTransforms(settings.sliceCount),
+      to: createSliceTransforms(settings.sliceCount),
+      out: createSliceTransforms(settings.sliceCount),
+  }), [settings.sliceCount]);
+  // `from` is null when a morph was interrupted; it then starts from a snapshot
+  const morphRef = useRef<{ from: SculptureGenerator | null; to: SculptureGenerator; progress: number }>({
+      from: null, to: getSculptureGenerator(sculpture), progress: 1,
+  });
+
+  // What the last frame placed: its generator input, and the transforms it
+  // uploaded (null when the stack was placed on the GPU)
+  const lastFrameRef = useRef<{ ctx: GeneratorContext; placed: SliceTransforms | null } | null>(null);
+
+  // Exports rebuild the slices from the last frame on the CPU
+  useEffect(() => {
+      setSnapshotSource(() => {
+          const frame = lastFrameRef.current;
+          if (!frame) return null;
+          const { ctx, placed } = frame;
+          const out = createSliceTransforms(ctx.count);
+          if (placed) copySliceTransforms(placed, out);
+          else morphRef.current.to.generate(ctx, out);
+          applyChain(out, chain);
+          applySpectrum(out, ctx.audio.spectrum, ctx.settings.spectrumMode);
+          const colors = paletteLayers.sliceColors(colorsOf, ctx.settings.colorMapping, {
+              count: ctx.count,
+              twist: ctx.springs.twist,
+              time: ctx.time,
+              low: ctx.audio.low,
+              high: ctx.audio.high,
+              seed: ctx.settings.colorSeed,
+          });
+          return { transforms: out, colors, radius: ctx.settings.radius, tube: ctx.settings.tubeThickness, material: materialMode };
+      });
+      return () => setSnapshotSource(null);
+  }, [chain, paletteLayers, colorsOf, materialMode]);
+
+  // Edge detection for the open-palm burst and pinch plucks
+  const palmOpenRef = useRef(false);
+  const pinchedRef = useRef({ left: false, right: false });
 
   // --- Animation Loop ---
-  useFrame((state) => {
-    const time = state.clock.elapsedTime * CONFIG.animationSpeed;
+  useFrame((state, delta) => {
+    const time = state.clock.elapsedTime * settings.animationSpeed;
     const { hands, face } = inputDataRef.current;
     const { left, right } = hands;
     const audio = audioDataRef.current;
     
     // --- 1. DETERMINE TARGET PALETTE (Face) ---
-    // Default
-    let nextPalette = PALETTES.DEFAULT;
-    let emotionIntensity = 0;
-    
-    if (face.present) {
-        if (face.smile > 0.4) {
-             nextPalette = PALETTES.JOY;
-             emotionIntensity = face.smile;
-        }
-        else if (face.mouthOpen > 0.2) {
-             nextPalette = PALETTES.SURPRISE;
-             emotionIntensity = face.mouthOpen;
-        }
-        else if (face.browDown > 0.3) {
-             nextPalette = PALETTES.MOODY;
-             emotionIntensity = face.browDown;
-        }
+    // Each palette shows as much as the emotions mapped to it; the layers
+    // ease toward that, so swiping to another palette cross-fades
+    emotion.update(face, state.clock.elapsedTime * 1000);
+
+    paletteTargets.clear();
+    for (const e of EMOTIONS) {
+        if (emotion.weights[e] < 0.001) continue;
+        const name = emotionPalettes[e];
+        paletteTargets.set(name, (paletteTargets.get(name) ?? 0) + emotion.weights[e]);
     }
-    targetPaletteRef.current = nextPalette;
+    paletteLayers.update(paletteTargets, smoothing(COLOR_EASE, delta));
+    paletteLayers.upload(sliceUniforms, colorsOf);
+    paletteStopsRef.current.forEach((stop, k) => paletteLayers.gradient(colorsOf, k / (PALETTE_SLOTS - 1), stop));
+    const emotionIntensity = emotion.intensity;
 
     // --- 2. UPDATE SPRINGS (Physics) ---
     
     // Calculate Targets
-    let targetHeight = CONFIG.stackHeight;
+    let targetHeight = settings.stackHeight;
     let targetTwist = 0;
     let targetRadius = 1.0;
     let targetChaos = 0;
@@ -105,7 +249,7 @@ const ColorSlices: React.FC<Props> = ({ inputDataRef, audioDataRef, audioMode })
     // Hands Input
     if (left.present) {
         const heightMult = 1.5 + left.y; 
-        targetHeight = CONFIG.stackHeight * Math.max(0.5, heightMult);
+        targetHeight = settings.stackHeight * Math.max(0.5, heightMult);
         targetTwist = left.x * Math.PI * 4;
     }
 
@@ -115,78 +259,111 @@ const ColorSlices: React.FC<Props> = ({ inputDataRef, audioDataRef, audioMode })
     }
 
     // Audio Input (Kick adds immediate velocity to springs for punch)
-    if (audioMode !== 'OFF') {
-        if (audio.low > 0.4) {
-            // Apply force directly to velocity for "Kick" feel
-            springs.radiusScale.velocity += audio.low * 0.05; 
-            springs.stackHeight.velocity += audio.low * 0.1;
-        }
+    const audioActive = audioMode !== 'OFF' || audioReplayRef.current !== null;
+    if (audioActive && audio.kick) {
+        // Once per detected kick, however long the bass sustains; it also
+        // thumps the bottom of the chain
+        chain.pluck(0, { r: audio.low * 4, z: audio.low * 2 }, 0.08);
+        springs.radiusScale.velocity += audio.low * KICK_RADIUS;
+        springs.stackHeight.velocity += audio.low * KICK_HEIGHT;
     }
 
+    // Gestures: opening a palm releases a burst of chaos, two fists freeze the
+    // springs (one fist is the camera grab, see GestureControls)
+    const leftGesture = gestureOf(left);
+    const rightGesture = gestureOf(right);
+    const palmOpen = leftGesture === 'open_palm' || rightGesture === 'open_palm';
+    const frozen = leftGesture === 'fist' && rightGesture === 'fist';
+
+    if (palmOpen && !palmOpenRef.current) {
+        springs.chaos.velocity += 0.3;
+    }
+    palmOpenRef.current = palmOpen;
+
+    // Pinching plucks the chain at the hand's height, pushing toward its side
+    // (same hysteresis as the recognizer's pinch event)
+    (['left', 'right'] as const).forEach(side => {
+        const hand = hands[side];
+        const wasPinched = pinchedRef.current[side];
+        const pinched = hand.present && hand.pinch < (wasPinched ? GESTURE_EVENTS.pinchExit : GESTURE_EVENTS.pinchEnter);
+        if (pinched && !wasPinched) chain.pluck((hand.y + 1) / 2, { r: 2, x: hand.x * 3 });
+        pinchedRef.current[side] = pinched;
+    });
+
     // Update Springs
     springs.stackHeight.target = targetHeight;
     springs.twist.target = targetTwist;
     springs.radiusScale.target = targetRadius;
     springs.chaos.target = targetChaos;
 
-    Object.values(springs).forEach((s: SpringValue) => s.update());
-
-
-    // --- 3. APPLY TRANSFORMATIONS ---
-    if (meshRef.current) {
-        const height = springs.stackHeight.value;
-        const twist = springs.twist.value;
-        const radiusScale = springs.radiusScale.value;
-        const chaos = springs.chaos.value;
-
-        // Color Lerping - INCREASED SPEED for responsiveness
-        const lerpSpeed = 0.15; 
-
-        for (let i = 0; i < CONFIG.sliceCount; i++) {
-            const t = i / CONFIG.sliceCount;
-            const centeredT = t - 0.5;
-
-            // Geometry Physics
-            let posX = 0;
-            let posY = centeredT * height;
-            let posZ = 0;
-
-            // Add organic sine wave that moves up the stack
-            const organicWave = Math.sin(t * Math.PI * 6 - time * 2) * 0.2;
-            const radius = Math.max(0.1, radiusScale + organicWave);
-
-            // Chaos Jitter
-            if (chaos > 0.01) {
-                posX += (Math.random() - 0.5) * chaos;
-                posZ += (Math.random() - 0.5) * chaos;
-            }
-
-            const rotX = Math.PI / 2;
-            const rotY = (t * twist) + (time * 0.2);
-            
-            // "Worm" movement based on noise
-            posX += Math.sin(time + t * 4) * (chaos * 2);
-
-            tempObject.rotation.set(rotX, rotY, 0);
-            tempObject.position.set(posX, posY, posZ);
-            tempObject.scale.set(radius, radius, 1.0);
-            
-            tempObject.updateMatrix();
-            meshRef.current.setMatrixAt(i, tempObject.matrix);
-
-            // Color Blending
-            // Get target hex for this index
-            const targetHex = targetPaletteRef.current[i % 5];
-            const targetColor = new THREE.Color(targetHex);
-            
-            // Lerp current color towards target
-            currentPaletteRef.current[i % 5].lerp(targetColor, lerpSpeed);
-            meshRef.current.setColorAt(i, currentPaletteRef.current[i % 5]);
+    if (frozen) {
+        // Hold the current shape; kill momentum so it doesn't lurch on release
+        Object.values(springs).forEach(s => { s.velocity = 0; });
+        chain.stop();
+    } else {
+        Object.values(springs).forEach(s => s.update(delta));
+        chain.update(delta);
+    }
+
+
+    // --- 3. PLACEMENT & COLORS (GPU) ---
+    // Every slice is colored in the vertex shader, and placed there too for
+    // the stack; other forms are generated here and uploaded
+    const generator = getSculptureGenerator(sculpture);
+    const morph = morphRef.current;
+    if (generator !== morph.to) {
+        if (morph.progress < 1) {
+            copySliceTransforms(transforms.out, transforms.from);
+            morph.from = null;
+        } else {
+            morph.from = morph.to;
         }
-        
-        meshRef.current.instanceMatrix.needsUpdate = true;
-        if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
+        morph.to = generator;
+        morph.progress = 0;
     }
+    morph.progress = Math.min(morph.progress + delta * 1000 / MORPH_MS, 1);
+
+    const ctx: GeneratorContext = {
+        count: settings.sliceCount,
+        time,
+        springs: {
+            height: springs.stackHeight.value,
+            twist: springs.twist.value,
+            radiusScale: springs.radiusScale.value,
+            chaos: springs.chaos.value,
+        },
+        input: inputDataRef.current,
+        audio: audioActive ? audio : SILENCE,
+        settings,
+    };
+    let placed: SliceTransforms | null = null;
+    if (!(morph.progress >= 1 && generator.gpu)) {
+        generator.generate(ctx, transforms.to);
+        placed = transforms.to;
+        if (morph.progress < 1) {
+            morph.from?.generate(ctx, transforms.from);
+            blendSliceTransforms(transforms.from, transforms.to, THREE.MathUtils.smoothstep(morph.progress, 0, 1), transforms.out);
+            placed = transforms.out;
+        }
+    }
+    setTransforms(sliceUniforms, placed);
+    lastFrameRef.current = { ctx, placed };
+
+    setPlacement(sliceUniforms, {
+        count: settings.sliceCount,
+        time,
+        height: springs.stackHeight.value,
+        twist: springs.twist.value,
+        radiusScale: springs.radiusScale.value,
+        chaos: springs.chaos.value,
+        jitterSeed: Math.floor(Math.random() * 1e6),
+    });
+    setChain(sliceUniforms, chain);
+    sliceUniforms.uColorMapping.value = colorMappingIndex(settings.colorMapping);
+    sliceUniforms.uColorSeed.value = settings.colorSeed;
+    sliceUniforms.uAudioLow.value = audioActive ? audio.low : 0;
+    sliceUniforms.uAudioHigh.value = audioActive ? audio.high : 0;
+    setSpectrum(sliceUniforms, (audioActive ? audio : SILENCE).spectrum, settings.spectrumMode);
 
     // --- 4. MATERIAL UPDATES ---
     // Use the radius spring velocity to drive refraction!
@@ -197,36 +374,76 @@ const ColorSlices: React.FC<Props> = ({ inputDataRef, audioDataRef, audioMode })
         const targetIor = 1.5 + (right.present ? right.pinch : 0) + springEnergy;
         const targetAberration = 0.05 + springEnergy * 0.5;
         
-        materialRef.current.ior = THREE.MathUtils.lerp(materialRef.current.ior, targetIor, 0.1);
-        materialRef.current.chromaticAberration = THREE.MathUtils.lerp(materialRef.current.chromaticAberration, targetAberration, 0.1);
+        const materialEase = smoothing(0.1, delta);
+        materialRef.current.ior = THREE.MathUtils.lerp(materialRef.current.ior, targetIor, materialEase);
+        materialRef.current.chromaticAberration = THREE.MathUtils.lerp(materialRef.current.chromaticAberration, targetAberration, materialEase);
         
         // Emissive Pulse based on Emotion
         // Neutral = Black emissive. High Emotion = Slight glow of the palette color.
-        const baseEmissive = new THREE.Color("#000000");
-        const targetEmissive = new THREE.Color(targetPaletteRef.current[0]).multiplyScalar(emotionIntensity * 0.5); // Glow the first color of palette
-        materialRef.current.emissive.lerp(targetEmissive, 0.1);
+        // With a steady tempo it also flashes on the beat and fades until the next
+        const beatPulse = audioActive ? (1 - audio.beatPhase) ** 4 * audio.beatConfidence : 0;
+        targetEmissive.copy(paletteStopsRef.current[0]).multiplyScalar((emotionIntensity + beatPulse) * 0.5); // Glow the first color of palette
+        materialRef.current.emissive.lerp(targetEmissive, materialEase);
+    }
+
+    // --- 5. MATERIAL MODE CROSS-FADE ---
+    const fade = fadeRef.current;
+    const fadeK = 1 - Math.exp(-delta * 1000 / MATERIAL_FADE_MS);
+    fade.glass += ((materialMode === 'GLASS' ? 1 : 0) - fade.glass) * fadeK;
+    fade.crystal += ((materialMode === 'CRYSTAL' ? 1 : 0) - fade.crystal) * fadeK;
+
+    if (meshRef.current && materialRef.current) {
+        meshRef.current.visible = fade.glass > 0.01;
+        const fading = fade.glass < 0.99;
+        if (materialRef.current.transparent !== fading) {
+            materialRef.current.transparent = fading;
+            materialRef.current.needsUpdate = true;
+        }
+        materialRef.current.opacity = fading ? fade.glass : 1;
+    }
+
+    if (paintMeshRef.current) {
+        paintMeshRef.current.visible = fade.glass < 0.99;
+        if (paintMeshRef.current.visible) {
+            // Left hand twist scrolls the gradient, chaos and bass roughen the surface,
+            // right-hand pinch and treble shift the hue
+            paintMaterial.uHeight = springs.stackHeight.value;
+            paintMaterial.uOffset = springs.twist.value / (Math.PI * 8);
+            paintMaterial.uNoiseScale = settings.noiseScale;
+            paintMaterial.uNoiseStrength = 0.3 + springs.chaos.value * 0.7 + audio.low * 0.5;
+            paintMaterial.uHueShift = (right.present ? (1 - right.pinch) * 0.25 : 0) + audio.high * 0.1;
+            paintMaterial.uCrystalMode = fade.crystal;
+            paintMaterial.uOpacity = 1 - fade.glass;
+            // The shader's gradient runs from uColor5 (bottom) to uColor1 (top)
+            [paintMaterial.uColor1, paintMaterial.uColor2, paintMaterial.uColor3, paintMaterial.uColor4, paintMaterial.uColor5]
+                .forEach((c, k) => c.copy(paletteStopsRef.current[k]));
+        }
     }
   });
 
   return (
-    <instancedMesh ref={meshRef} args={[undefined, undefined, CONFIG.sliceCount]} frustumCulled={false}>
-      <torusGeometry args={[CONFIG.radius, CONFIG.tubeThickness, 16, 64]} />
-      <meshPhysicalMaterial
-        ref={materialRef}
-        thickness={2.5}       
-        roughness={0.15}      
-        transmission={1.0}    
-        ior={1.5}             
-        chromaticAberration={0.05} 
-        attenuationDistance={1.0}  
-        attenuationColor="#ffffff"
-        color="#ffffff"       
-        emissive="#000000"
-        clearcoat={1.0}       
-        clearcoatRoughness={0.1}
-        side={THREE.DoubleSide}
-      />
-    </instancedMesh>
+    <group>
+      <mesh ref={meshRef} geometry={geometry} frustumCulled={false}>
+        <meshPhysicalMaterial
+          ref={materialRef}
+          thickness={2.5}       
+          roughness={0.15}      
+          transmission={1.0}    
+          ior={1.5}             
+          chromaticAberration={0.05} 
+          attenuationDistance={1.0}  
+          attenuationColor="#ffffff"
+          color="#ffffff"       
+          emissive="#000000"
+          clearcoat={1.0}       
+          clearcoatRoughness={0.1}
+          side={THREE.DoubleSide}
+        />
+      </mesh>
+      <mesh ref={paintMeshRef} geometry={geometry} frustumCulled={false}>
+        <primitive object={paintMaterial} attach="material" />
+      </mesh>
+    </group>
   );
 };
 
@@ -2,6 +2,7 @@ import React, { useRef } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TwoHandsData, HandData } from './HandTracker';
+import { smoothing } from './Springs';
 
 interface Props {
   handsDataRef: React.MutableRefObject<TwoHandsData>;
@@ -19,7 +20,7 @@ const SingleCursor = ({
     const meshRef = useRef<THREE.Mesh>(null);
     const lightRef = useRef<THREE.PointLight>(null);
 
-    useFrame(() => {
+    useFrame((_, delta) => {
         if (!meshRef.current || !lightRef.current) return;
         const { present, x, y, pinch } = hand;
 
@@ -28,7 +29,7 @@ const SingleCursor = ({
             const targetY = (y * viewport.height) / 3;
             const targetZ = 6;
 
-            meshRef.current.position.lerp(new THREE.Vector3(targetX, targetY, targetZ), 0.2);
+            meshRef.current.position.lerp(new THREE.Vector3(targetX, targetY, targetZ), smoothing(0.2, delta));
             
             const scale = 0.2 + pinch * 0.1;
             meshRef.current.scale.setScalar(scale);
@@ -95,7 +96,7 @@ const BoundCursor = ({
     const meshRef = useRef<THREE.Mesh>(null);
     const lightRef = useRef<THREE.PointLight>(null);
 
-    useFrame(() => {
+    useFrame((_, delta) => {
         if (!meshRef.current || !lightRef.current) return;
         const hand = handsDataRef.current[handKey];
 
@@ -104,7 +105,7 @@ const BoundCursor = ({
             const targetY = (hand.y * viewport.height) / 3;
             const targetZ = 6;
 
-            meshRef.current.position.lerp(new THREE.Vector3(targetX, targetY, targetZ), 0.2);
+            meshRef.current.position.lerp(new THREE.Vector3(targetX, targetY, targetZ), smoothing(0.2, delta));
             
             const scale = 0.2 + hand.pinch * 0.1;
             meshRef.current.scale.setScalar(scale);
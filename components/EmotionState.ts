@@ -0,0 +1,68 @@
+import { FaceData } from './HandTracker';
+import { EMOTION } from '../constants';
+
+export type Emotion = 'DEFAULT' | 'JOY' | 'SURPRISE' | 'MOODY';
+export type EmotionWeights = Record<Emotion, number>;
+export type EmotionConfig = typeof EMOTION;
+
+export const EMOTIONS: Emotion[] = ['DEFAULT', 'JOY', 'SURPRISE', 'MOODY'];
+const EXPRESSIVE = ['JOY', 'SURPRISE', 'MOODY'] as const;
+
+/**
+ * Turns FaceData into a stable emotion plus smoothly blended weights.
+ *
+ *  - Hysteresis: an emotion starts above its `enter` score and holds until
+ *    it falls below `exit`, so a score hovering at a threshold can't flicker.
+ *  - Dwell: an emotion is held for at least `minDwellMs`.
+ *  - Blend: `weights` ease toward the active emotion and always sum to 1,
+ *    so consumers can mix palettes/lighting instead of snapping.
+ *
+ * Several components share one instance; update() ignores repeat calls with
+ * the same timestamp, so each of them may call it every frame.
+ */
+export class EmotionState {
+  config: EmotionConfig;
+  current: Emotion = 'DEFAULT';
+  weights: EmotionWeights = { DEFAULT: 1, JOY: 0, SURPRISE: 0, MOODY: 0 };
+  intensity = 0; // Smoothed score of the active emotion, 0 for DEFAULT
+
+  private enteredAt = -Infinity;
+  private lastTime: number | null = null;
+
+  constructor(config: Partial<EmotionConfig> = {}) {
+    this.config = { ...EMOTION, ...config };
+  }
+
+  update(face: FaceData, timeMs: number) {
+    if (timeMs === this.lastTime) return;
+    const dt = this.lastTime === null ? 0 : Math.max(timeMs - this.lastTime, 0);
+    this.lastTime = timeMs;
+
+    const next = this.resolve(face);
+    if (next !== this.current && timeMs - this.enteredAt >= this.config.minDwellMs) {
+      this.current = next;
+      this.enteredAt = timeMs;
+    }
+
+    // Exponential approach, independent of frame rate
+    const k = 1 - Math.exp(-dt / Math.max(this.config.blendMs, 1));
+    for (const e of EMOTIONS) {
+      const target = e === this.current ? 1 : 0;
+      this.weights[e] += (target - this.weights[e]) * k;
+    }
+
+    const score = this.current === 'DEFAULT' || !face.present ? 0 : face[this.config[this.current].score];
+    this.intensity += (score - this.intensity) * k;
+  }
+
+  private resolve(face: FaceData): Emotion {
+    if (!face.present) return 'DEFAULT';
+    for (const e of EXPRESSIVE) {
+      const { score, enter, exit } = this.config[e];
+      // The active emotion only needs to stay above its (lower) exit score
+      const threshold = e === this.current ? exit : enter;
+      if (face[score] > threshold) return e;
+    }
+    return 'DEFAULT';
+  }
+}
@@ -7,14 +7,46 @@ import ColorSlices from './ColorSlices';
 import Cursor from './Cursor';
 import { InputData } from './HandTracker';
 import AudioManager, { AudioData } from './AudioManager';
-import { AudioMode } from '../App';
+import { AudioMode, MaterialMode } from '../App';
+import AssetBoundary from './AssetBoundary';
+import GestureControls from './GestureControls';
+import CaptureBridge from './CaptureBridge';
+import SceneBridge from './SceneBridge';
+import { ASSETS } from '../assets';
+import { Emotion, EmotionState, EMOTIONS } from './EmotionState';
+import { Settings } from './Settings';
+import { smoothing } from './Springs';
+import { PaletteSet, EmotionPalettes } from './Palettes';
+import { ThereminSettings } from './Theremin';
+import { SynthPatch } from './SynthPatch';
 
 interface Props {
   inputDataRef: React.MutableRefObject<InputData>;
+  audioDataRef: React.MutableRefObject<AudioData>;
+  audioReplayRef: React.MutableRefObject<AudioData | null>;
   audioMode: AudioMode;
+  palettes: PaletteSet;
+  emotionPalettes: EmotionPalettes;
+  materialMode: MaterialMode;
+  sculpture: string;
+  settings: Settings;
+  theremin: ThereminSettings;
+  synthPatch: SynthPatch;
 }
 
-const ReactiveLighting = ({ inputDataRef }: { inputDataRef: React.MutableRefObject<InputData> }) => {
+// Lighting look per emotion; blended by the shared emotion weights
+const LIGHTING: Record<Emotion, { color1: THREE.Color; color2: THREE.Color; intensity: number; ambient: number }> = {
+    // Neutral / No Face
+    DEFAULT: { color1: new THREE.Color("#00ffff"), color2: new THREE.Color("#ffaa00"), intensity: 80, ambient: 0.5 },
+    // JOY: Warm, Pink/Peach, High Ambient, Soft
+    JOY: { color1: new THREE.Color("#FF9AA2"), color2: new THREE.Color("#FFDAC1"), intensity: 150, ambient: 1.2 },
+    // SURPRISE: Neon Green, High Contrast, Very Bright Spotlight, Dark shadows
+    SURPRISE: { color1: new THREE.Color("#39FF14"), color2: new THREE.Color("#00FF41"), intensity: 300, ambient: 0.1 },
+    // MOODY: Deep Blue/Teal, Dim, Mysterious, Pitch black shadows
+    MOODY: { color1: new THREE.Color("#001219"), color2: new THREE.Color("#0a9396"), intensity: 200, ambient: 0.05 },
+};
+
+const ReactiveLighting = ({ inputDataRef, emotion }: { inputDataRef: React.MutableRefObject<InputData>, emotion: EmotionState }) => {
     const spot1Ref = useRef<THREE.SpotLight>(null);
     const spot2Ref = useRef<THREE.SpotLight>(null);
     const ambientRef = useRef<THREE.AmbientLight>(null);
@@ -25,47 +57,32 @@ const ReactiveLighting = ({ inputDataRef }: { inputDataRef: React.MutableRefObje
     const targetIntensity = useRef(80);
     const targetAmbient = useRef(0.5);
 
-    useFrame((state) => {
+    useFrame((state, delta) => {
         const { face } = inputDataRef.current;
         const time = state.clock.elapsedTime;
 
-        // --- Logic to determine target lighting state ---
-        if (face.present) {
-            if (face.smile > 0.4) {
-                // JOY: Warm, Pink/Peach, High Ambient, Soft
-                targetColor1.current.set("#FF9AA2"); 
-                targetColor2.current.set("#FFDAC1"); 
-                targetIntensity.current = 150; 
-                targetAmbient.current = 1.2;
-            } else if (face.mouthOpen > 0.2) {
-                // SURPRISE: Neon Green, High Contrast, Very Bright Spotlight
-                targetColor1.current.set("#39FF14");
-                targetColor2.current.set("#00FF41");
-                targetIntensity.current = 300; 
-                targetAmbient.current = 0.1; // Dark shadows
-            } else if (face.browDown > 0.3) {
-                // MOODY: Deep Blue/Teal, Dim, Mysterious
-                targetColor1.current.set("#001219");
-                targetColor2.current.set("#0a9396");
-                targetIntensity.current = 200; 
-                targetAmbient.current = 0.05; // Pitch black shadows
-            } else {
-                // Neutral Face present
-                 targetColor1.current.set("#00ffff");
-                 targetColor2.current.set("#ffaa00");
-                 targetIntensity.current = 80;
-                 targetAmbient.current = 0.5;
-            }
-        } else {
-            // No Face
-            targetColor1.current.set("#00ffff");
-            targetColor2.current.set("#ffaa00");
-            targetIntensity.current = 80;
-            targetAmbient.current = 0.5;
+        // --- Blend target lighting state from emotion weights ---
+        emotion.update(face, time * 1000);
+
+        targetColor1.current.setRGB(0, 0, 0);
+        targetColor2.current.setRGB(0, 0, 0);
+        targetIntensity.current = 0;
+        targetAmbient.current = 0;
+        for (const e of EMOTIONS) {
+            const w = emotion.weights[e];
+            const look = LIGHTING[e];
+            targetColor1.current.r += look.color1.r * w;
+            targetColor1.current.g += look.color1.g * w;
+            targetColor1.current.b += look.color1.b * w;
+            targetColor2.current.r += look.color2.r * w;
+            targetColor2.current.g += look.color2.g * w;
+            targetColor2.current.b += look.color2.b * w;
+            targetIntensity.current += look.intensity * w;
+            targetAmbient.current += look.ambient * w;
         }
 
         // --- Apply Updates with Lerp ---
-        const lerpSpeed = 0.05;
+        const lerpSpeed = smoothing(0.05, delta);
 
         if (spot1Ref.current) {
             spot1Ref.current.color.lerp(targetColor1.current, lerpSpeed);
@@ -119,15 +136,14 @@ const ReactiveLighting = ({ inputDataRef }: { inputDataRef: React.MutableRefObje
     );
 };
 
-const Experience: React.FC<Props> = ({ inputDataRef, audioMode }) => {
-  // Ref to hold the analyzed audio level for the visuals
-  // low: Bass, high: Treble, vol: Average Volume
-  const audioDataRef = useRef<AudioData>({ low: 0, high: 0, vol: 0 });
-
+const Experience: React.FC<Props> = ({ inputDataRef, audioDataRef, audioReplayRef, audioMode, palettes, emotionPalettes, materialMode, sculpture, settings, theremin, synthPatch }) => {
   // Initialize AudioListener once
   const [listener] = useState(() => new THREE.AudioListener());
   const { camera } = useThree();
 
+  // One emotion state shared by the slices and the lighting so they always agree
+  const [emotion] = useState(() => new EmotionState());
+
   useEffect(() => {
     camera.add(listener);
     return () => {
@@ -148,11 +164,20 @@ const Experience: React.FC<Props> = ({ inputDataRef, audioMode }) => {
         audioMode={audioMode} 
         handsDataRef={handsDataProxy} 
         audioDataRef={audioDataRef} 
+        audioReplayRef={audioReplayRef}
         listener={listener}
+        theremin={theremin}
+        patch={synthPatch}
       />
 
+      {/* Stills, video and frame sequences for the capture controls */}
+      <CaptureBridge listener={listener} />
+      {/* Scene readback for the Blender script export */}
+      <SceneBridge />
+
       <PerspectiveCamera makeDefault position={[-10, 6, 14]} fov={35} />
       <OrbitControls 
+        makeDefault
         enablePan={false} 
         enableZoom={true} 
         maxPolarAngle={Math.PI / 1.5} 
@@ -161,6 +186,9 @@ const Experience: React.FC<Props> = ({ inputDataRef, audioMode }) => {
         autoRotateSpeed={0.5}
       />
 
+      {/* Hand gestures steer the orbit controls */}
+      <GestureControls inputDataRef={inputDataRef} />
+
       {/* Deep Forest Slate Background */}
       <color attach="background" args={['#1a1f21']} />
       
@@ -171,14 +199,21 @@ const Experience: React.FC<Props> = ({ inputDataRef, audioMode }) => {
       <ColorSlices 
         inputDataRef={inputDataRef}
         audioDataRef={audioDataRef}
+        audioReplayRef={audioReplayRef}
         audioMode={audioMode}
+        palettes={palettes}
+        emotionPalettes={emotionPalettes}
+        emotion={emotion}
+        materialMode={materialMode}
+        sculpture={sculpture}
+        settings={settings}
       />
       
       {/* Interactive Cursor */}
       <Cursor handsDataRef={handsDataProxy} />
 
       {/* New Reactive Lighting System */}
-      <ReactiveLighting inputDataRef={inputDataRef} />
+      <ReactiveLighting inputDataRef={inputDataRef} emotion={emotion} />
       
       {/* Fireflies / Pollen - Warmer, slower, more organic */}
       <Sparkles 
@@ -210,9 +245,9 @@ const Experience: React.FC<Props> = ({ inputDataRef, audioMode }) => {
 
       <EffectComposer disableNormalPass>
         <Bloom 
-          luminanceThreshold={0.5} 
+          luminanceThreshold={settings.bloomThreshold} 
           mipmapBlur 
-          intensity={0.8} 
+          intensity={settings.bloomIntensity} 
           radius={0.7}
         />
         <ChromaticAberration offset={[0.001, 0.001]} />
@@ -220,8 +255,14 @@ const Experience: React.FC<Props> = ({ inputDataRef, audioMode }) => {
         <Vignette eskil={false} offset={0.1} darkness={0.9} />
       </EffectComposer>
       
-      {/* Forest HDRI for softer reflections */}
-      <Environment preset="forest" background={false} blur={0.8} />
+      {/* Forest HDRI for softer reflections (bundled copy in offline builds) */}
+      {ASSETS.environmentMap ? (
+        <AssetBoundary name="Environment map" url={ASSETS.environmentMap}>
+          <Environment files={ASSETS.environmentMap} background={false} blur={0.8} />
+        </AssetBoundary>
+      ) : (
+        <Environment preset="forest" background={false} blur={0.8} />
+      )}
     </>
   );
 };
@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EXPORT_FORMATS, ExportFormat, exportSculpture, takeSnapshot } from './SculptureExport';
+import { onGestureEvent } from './GestureEvents';
+import { createBlenderScript, getSceneRecorder } from './BlenderScript';
+import { captureFilename } from './Capture';
+import { downloadBlob } from './Download';
+
+const BUTTON = 'px-4 py-1 rounded-full text-xs font-bold border transition-all duration-300';
+const IDLE = 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white';
+const SELECT = 'bg-black/50 text-gray-300 border border-gray-600 rounded-full px-3 py-1 text-xs font-mono';
+
+// Pinches closer together than this only export once
+const PINCH_COOLDOWN_MS = 3000;
+
+const KEYFRAME_FPS = 24;
+
+// Freezes the sculpture into a mesh file, on click or on a pinch, or into a
+// Blender script, optionally keyframed
+const ExportControls: React.FC = () => {
+  const [format, setFormat] = useState<ExportFormat>('GLB');
+  const [onPinch, setOnPinch] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const busyRef = useRef(false);
+  const lastPinchRef = useRef(0);
+  const [keyframes, setKeyframes] = useState<number | null>(null);
+
+  const handleExport = async (chosen: ExportFormat) => {
+    if (busyRef.current) return;
+    const snapshot = takeSnapshot();
+    if (!snapshot) return;
+    const { extension } = EXPORT_FORMATS.find(f => f.format === chosen)!;
+    busyRef.current = true;
+    setBusy(true);
+    try {
+      downloadBlob(await exportSculpture(snapshot, chosen), captureFilename(extension));
+    } catch (e) {
+      console.error("Sculpture export failed", e);
+    } finally {
+      busyRef.current = false;
+      setBusy(false);
+    }
+  };
+
+  const downloadScript = (script: string) =>
+    downloadBlob(new Blob([script], { type: 'text/x-python' }), captureFilename('py'));
+
+  const handleScript = () => {
+    const scene = getSceneRecorder()?.snapshot();
+    if (scene) downloadScript(createBlenderScript(scene));
+  };
+
+  const handleKeyframes = () => {
+    const recorder = getSceneRecorder();
+    if (!recorder) return;
+    if (keyframes === null) {
+      recorder.startRecording(KEYFRAME_FPS, setKeyframes);
+      setKeyframes(0);
+      return;
+    }
+    const recording = recorder.stopRecording();
+    setKeyframes(null);
+    if (recording.frames.length) downloadScript(createBlenderScript(recording.frames[0].scene, recording));
+  };
+
+  useEffect(() => {
+    if (!onPinch) return;
+    return onGestureEvent((event) => {
+      if (event.type !== 'pinch' || event.t - lastPinchRef.current < PINCH_COOLDOWN_MS) return;
+      lastPinchRef.current = event.t;
+      handleExport(format);
+    });
+  }, [onPinch, format]);
+
+  return (
+    <div className="mt-3 flex flex-wrap gap-2 pointer-events-auto items-center">
+        <span className="text-xs font-mono text-gray-500 mr-1">EXPORT</span>
+        <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={SELECT}>
+            {EXPORT_FORMATS.map(f => <option key={f.format} value={f.format}>{f.label}</option>)}
+        </select>
+        <button onClick={() => handleExport(format)} disabled={busy} className={`${BUTTON} ${busy ? 'bg-white text-black border-white' : IDLE}`}>
+            {busy ? 'EXPORTING…' : 'EXPORT MESH'}
+        </button>
+        <label className="flex items-center gap-1 text-xs font-mono text-gray-400" title="Every pinch freezes the sculpture into a file">
+            <input type="checkbox" checked={onPinch} onChange={(e) => setOnPinch(e.target.checked)} />
+            capture on pinch
+        </label>
+
+        <span className="text-xs font-mono text-gray-500 ml-4 mr-1">BLENDER</span>
+        <button onClick={handleScript} className={`${BUTTON} ${IDLE}`}>
+            SCRIPT
+        </button>
+        <button
+            onClick={handleKeyframes}
+            className={`${BUTTON} ${keyframes !== null ? 'bg-red-500 text-white border-red-400 animate-pulse' : IDLE}`}
+            title={`Records keyframes at ${KEYFRAME_FPS} fps until stopped`}
+        >
+            {keyframes !== null ? `■ STOP (${keyframes})` : '● KEYFRAMES'}
+        </button>
+    </div>
+  );
+};
+
+export default ExportControls;
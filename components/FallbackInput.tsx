@@ -0,0 +1,26 @@
+import React, { useState } from 'react';
+import { InputData } from './HandTracker';
+import { FallbackSource } from './FallbackSource';
+import { useInputSource } from './InputSource';
+
+type Props = {
+  onUpdate: (data: InputData) => void;
+};
+
+// Status + key legend for the mouse/keyboard/gamepad source
+const FallbackInput: React.FC<Props> = ({ onUpdate }) => {
+  const [source] = useState(() => new FallbackSource());
+  const status = useInputSource(source, onUpdate);
+
+  return (
+    <div className="fixed bottom-4 right-4 w-48 rounded-lg overflow-hidden border border-white/20 z-50 bg-black/80 text-[10px] font-mono text-gray-300 p-2 space-y-0.5 pointer-events-none">
+        <div className="text-white text-center mb-1">{status.message}</div>
+        <div><span className="text-cyan-400">Shift+Drag</span> / WASD: Left</div>
+        <div><span className="text-orange-400">R-Drag</span> / Arrows: Right</div>
+        <div>1 / 2: Hold Hand | Z / X: Pinch</div>
+        <div>J Smile | K Open | L Frown</div>
+    </div>
+  );
+};
+
+export default FallbackInput;
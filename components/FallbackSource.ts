@@ -0,0 +1,226 @@
+import { createEmptyInputData } from './HandTracker';
+import { BaseInputSource } from './InputSource';
+import { smoothing } from './Springs';
+
+type HandKey = 'left' | 'right';
+type FaceKey = 'smile' | 'mouthOpen' | 'browDown';
+
+// --- Tuning ---
+const KEY_MOVE_SPEED = 1.8;    // Units per second while an arrow/WASD key is held
+const EXPRESSION_RAMP = 0.15;  // How fast face keys ease in/out, per 60 fps frame
+const MAX_FRAME_DT = 0.1;      // Seconds; a stalled tab doesn't jump the hands
+const STICK_DEADZONE = 0.15;
+
+// Keyboard layout
+const MOVE_KEYS: Record<string, { hand: HandKey; dx: number; dy: number }> = {
+  KeyW: { hand: 'left', dx: 0, dy: 1 },
+  KeyS: { hand: 'left', dx: 0, dy: -1 },
+  KeyA: { hand: 'left', dx: -1, dy: 0 },
+  KeyD: { hand: 'left', dx: 1, dy: 0 },
+  ArrowUp: { hand: 'right', dx: 0, dy: 1 },
+  ArrowDown: { hand: 'right', dx: 0, dy: -1 },
+  ArrowLeft: { hand: 'right', dx: -1, dy: 0 },
+  ArrowRight: { hand: 'right', dx: 1, dy: 0 },
+};
+const LATCH_KEYS: Record<string, HandKey> = { Digit1: 'left', Digit2: 'right' };
+const PINCH_KEYS: Record<string, HandKey> = { KeyZ: 'left', KeyX: 'right' };
+const FACE_KEYS: Record<string, FaceKey> = { KeyJ: 'smile', KeyK: 'mouthOpen', KeyL: 'browDown' };
+
+// Standard Gamepad mapping (A, B, X for expressions; LT/RT for pinch)
+const PAD_FACE_BUTTONS: [number, FaceKey][] = [[0, 'smile'], [1, 'mouthOpen'], [2, 'browDown']];
+const PAD_TRIGGERS: Record<HandKey, number> = { left: 6, right: 7 };
+
+const clamp = (v: number, min = -1, max = 1) => Math.min(Math.max(v, min), max);
+const deadzone = (v: number) => (Math.abs(v) < STICK_DEADZONE ? 0 : v);
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+
+// Drags and the suppressed context menu only apply over the 3D view, so the
+// panels keep their normal mouse behaviour
+const isCanvasTarget = (target: EventTarget | null) => target instanceof HTMLCanvasElement;
+
+/**
+ * Camera-free input source. Produces the same InputData as the camera from:
+ *  - Mouse (over the canvas): Shift + drag moves the left hand, right-button drag
+ *    moves the right hand, wheel while dragging opens/closes the pinch.
+ *  - Keyboard: WASD / arrows move left / right hand, 1 / 2 latch a hand on,
+ *    Z / X close the pinch, J / K / L hold smile / mouth open / brow down.
+ *  - Gamepad: sticks drive the hands, triggers pinch, A / B / X are expressions.
+ */
+export class FallbackSource extends BaseInputSource {
+  readonly name = 'Mouse / Keys / Gamepad';
+  private teardown: (() => void) | null = null;
+
+  async start() {
+    if (this.teardown) return;
+
+    let animationFrameId: number;
+    let lastTime = performance.now();
+
+    const hands: Record<HandKey, { x: number; y: number; pinch: number }> = {
+      left: { x: -0.5, y: 0, pinch: 1 },
+      right: { x: 0.5, y: 0, pinch: 1 },
+    };
+    const latched: Record<HandKey, boolean> = { left: false, right: false };
+    const face: Record<FaceKey, number> = { smile: 0, mouthOpen: 0, browDown: 0 };
+
+    const heldKeys = new Set<string>();
+    let dragHand: HandKey | null = null;
+    let padIndex: number | null = null;
+
+    // --- Mouse ---
+    const pointerToHand = (e: PointerEvent, hand: HandKey) => {
+      hands[hand].x = clamp((e.clientX / window.innerWidth) * 2 - 1);
+      hands[hand].y = clamp(-((e.clientY / window.innerHeight) * 2 - 1));
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      if (!isCanvasTarget(e.target)) return;
+      if (e.button === 2) dragHand = 'right';
+      else if (e.button === 0 && e.shiftKey) dragHand = 'left';
+      else return;
+      pointerToHand(e, dragHand);
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      if (dragHand) pointerToHand(e, dragHand);
+    };
+    const onPointerUp = () => { dragHand = null; };
+    const onWheel = (e: WheelEvent) => {
+      if (!dragHand) return;
+      hands[dragHand].pinch = clamp(hands[dragHand].pinch - e.deltaY * 0.001, 0, 1);
+    };
+    const onContextMenu = (e: MouseEvent) => {
+      if (isCanvasTarget(e.target)) e.preventDefault();
+    };
+
+    // --- Keyboard ---
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      if (LATCH_KEYS[e.code] && !e.repeat) {
+        const hand = LATCH_KEYS[e.code];
+        latched[hand] = !latched[hand];
+      }
+      heldKeys.add(e.code);
+    };
+    const onKeyUp = (e: KeyboardEvent) => { heldKeys.delete(e.code); };
+    const onBlur = () => { heldKeys.clear(); dragHand = null; };
+
+    // --- Gamepad ---
+    const onGamepadConnected = (e: GamepadEvent) => {
+      padIndex = e.gamepad.index;
+      this.setStatus('active', "Gamepad: " + e.gamepad.id.slice(0, 24));
+    };
+    const onGamepadDisconnected = (e: GamepadEvent) => {
+      if (e.gamepad.index !== padIndex) return;
+      padIndex = null;
+      this.setStatus('active', "Mouse + Keys");
+    };
+
+    const tick = (now = performance.now()) => {
+      const dt = Math.min(Math.max(now - lastTime, 0) / 1000, MAX_FRAME_DT);
+      lastTime = now;
+      const newData = createEmptyInputData();
+      const pad = padIndex !== null ? navigator.getGamepads?.()[padIndex] : null;
+
+      (['left', 'right'] as HandKey[]).forEach((key, i) => {
+        const hand = hands[key];
+        let moved = false;
+
+        for (const code of heldKeys) {
+          const move = MOVE_KEYS[code];
+          if (move && move.hand === key) {
+            hand.x = clamp(hand.x + move.dx * KEY_MOVE_SPEED * dt);
+            hand.y = clamp(hand.y + move.dy * KEY_MOVE_SPEED * dt);
+            moved = true;
+          }
+        }
+
+        let pinch = hand.pinch;
+        const pinchKeyHeld = Object.entries(PINCH_KEYS).some(([code, h]) => h === key && heldKeys.has(code));
+        if (pinchKeyHeld) pinch = 0;
+
+        let padActive = false;
+        if (pad) {
+          const sx = deadzone(pad.axes[i * 2] ?? 0);
+          const sy = deadzone(pad.axes[i * 2 + 1] ?? 0);
+          const trigger = pad.buttons[PAD_TRIGGERS[key]]?.value ?? 0;
+          // An idle pad shouldn't override the mouse/keyboard position
+          padActive = sx !== 0 || sy !== 0 || trigger > 0.05;
+          if (padActive) {
+            hand.x = sx;
+            hand.y = -sy;
+            pinch = Math.min(pinch, 1 - trigger);
+          }
+        }
+
+        newData.hands[key] = {
+          present: latched[key] || moved || dragHand === key || padActive,
+          x: hand.x,
+          y: hand.y,
+          pinch,
+        };
+      });
+
+      // Expressions ease toward 1 while held, back to 0 on release
+      const ramp = smoothing(EXPRESSION_RAMP, dt);
+      (Object.keys(face) as FaceKey[]).forEach((expr) => {
+        let held = Object.entries(FACE_KEYS).some(([code, e]) => e === expr && heldKeys.has(code));
+        if (pad) held = held || PAD_FACE_BUTTONS.some(([b, e]) => e === expr && pad.buttons[b]?.pressed);
+        face[expr] += ((held ? 1 : 0) - face[expr]) * ramp;
+        if (face[expr] < 0.001) face[expr] = 0;
+      });
+
+      newData.face.smile = face.smile;
+      newData.face.mouthOpen = face.mouthOpen;
+      newData.face.browDown = face.browDown;
+      newData.face.present = face.smile > 0 || face.mouthOpen > 0 || face.browDown > 0;
+
+      this.emit(newData);
+      animationFrameId = requestAnimationFrame(tick);
+    };
+
+    window.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    window.addEventListener('wheel', onWheel);
+    window.addEventListener('contextmenu', onContextMenu);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    window.addEventListener('gamepadconnected', onGamepadConnected);
+    window.addEventListener('gamepaddisconnected', onGamepadDisconnected);
+
+    this.setStatus('active', "Mouse + Keys");
+
+    // A pad that was connected before we started won't fire 'gamepadconnected' again
+    const existing = navigator.getGamepads?.().find(p => p);
+    if (existing) {
+      padIndex = existing.index;
+      this.setStatus('active', "Gamepad: " + existing.id.slice(0, 24));
+    }
+
+    tick();
+
+    this.teardown = () => {
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('wheel', onWheel);
+      window.removeEventListener('contextmenu', onContextMenu);
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      window.removeEventListener('gamepadconnected', onGamepadConnected);
+      window.removeEventListener('gamepaddisconnected', onGamepadDisconnected);
+      if (animationFrameId) cancelAnimationFrame(animationFrameId);
+    };
+  }
+
+  stop() {
+    this.teardown?.();
+    this.teardown = null;
+    this.setStatus('idle', "Stopped");
+  }
+}
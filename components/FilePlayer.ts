@@ -0,0 +1,178 @@
+// Playlist and transport for FILE audio mode.
+//
+// One <audio> element plays the tracks. AudioManager routes it through the
+// AudioListener and the analyser; the transport and playlist in the UI drive
+// it through here and re-render on changes.
+
+export type LoopMode = 'OFF' | 'TRACK' | 'ALL';
+
+export type Track = {
+  id: number;
+  name: string;
+  url: string; // Object URL of the dropped or picked file
+};
+
+export type PlayerState = {
+  tracks: Track[];
+  current: number; // Index into tracks, -1 when empty
+  playing: boolean;
+  time: number;
+  duration: number;
+  loop: LoopMode;
+};
+
+export const isAudioFile = (file: File) =>
+  file.type.startsWith('audio/') || /\.(mp3|wav|ogg|oga|flac|m4a|aac|opus|webm)$/i.test(file.name);
+
+export class FilePlayer {
+  private audio: HTMLAudioElement | null = null;
+  private tracks: Track[] = [];
+  private current = -1;
+  private loop: LoopMode = 'ALL';
+  private nextId = 1;
+  private listeners = new Set<() => void>();
+  private sources = new WeakMap<AudioContext, MediaElementAudioSourceNode>();
+  private state: PlayerState = { tracks: [], current: -1, playing: false, time: 0, duration: 0, loop: 'ALL' };
+
+  // Created on first use so nothing touches the DOM at import
+  get element() {
+    if (!this.audio) {
+      const audio = new Audio();
+      audio.preload = 'auto';
+      audio.addEventListener('ended', () => this.advance());
+      for (const type of ['play', 'pause', 'timeupdate', 'durationchange', 'seeked', 'emptied']) {
+        audio.addEventListener(type, () => this.changed());
+      }
+      this.audio = audio;
+    }
+    return this.audio;
+  }
+
+  // The element's node in `ctx`. An element only ever gets one per context,
+  // so it's kept and reconnected rather than recreated
+  source(ctx: AudioContext) {
+    let node = this.sources.get(ctx);
+    if (!node) {
+      node = ctx.createMediaElementSource(this.element);
+      this.sources.set(ctx, node);
+    }
+    return node;
+  }
+
+  getState = () => this.state;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  // Adds the audio files among `files`; starts the first if nothing was loaded
+  add(files: Iterable<File>) {
+    const added = [...files].filter(isAudioFile).map(file => ({
+      id: this.nextId++,
+      name: file.name.replace(/\.[^.]+$/, ''),
+      url: URL.createObjectURL(file),
+    }));
+    if (!added.length) return 0;
+    this.tracks = [...this.tracks, ...added];
+    if (this.current < 0) this.select(this.tracks.length - added.length);
+    else this.changed();
+    return added.length;
+  }
+
+  remove(id: number) {
+    const index = this.tracks.findIndex(t => t.id === id);
+    if (index < 0) return;
+    URL.revokeObjectURL(this.tracks[index].url);
+    this.tracks = this.tracks.filter(t => t.id !== id);
+    if (index === this.current) {
+      const wasPlaying = !this.element.paused;
+      if (this.tracks.length) this.select(Math.min(index, this.tracks.length - 1), wasPlaying);
+      else this.unload();
+    } else {
+      if (index < this.current) this.current--;
+      this.changed();
+    }
+  }
+
+  select(index: number, play = true) {
+    if (index < 0 || index >= this.tracks.length) return;
+    const audio = this.element;
+    this.current = index;
+    audio.src = this.tracks[index].url;
+    audio.loop = this.loop === 'TRACK';
+    if (play) this.play();
+    this.changed();
+  }
+
+  play() {
+    if (this.current < 0) return;
+    this.element.play().catch(e => console.warn("Playback failed", e));
+  }
+
+  pause() {
+    this.audio?.pause();
+  }
+
+  toggle() {
+    if (this.audio && !this.audio.paused) this.pause();
+    else this.play();
+  }
+
+  seek(seconds: number) {
+    const audio = this.element;
+    if (!Number.isFinite(audio.duration)) return;
+    audio.currentTime = Math.min(Math.max(seconds, 0), audio.duration);
+  }
+
+  next() {
+    if (this.tracks.length) this.select((this.current + 1) % this.tracks.length);
+  }
+
+  previous() {
+    // Like most players: back to the start first, then the previous track
+    if (this.element.currentTime > 3 || this.tracks.length < 2) this.seek(0);
+    else this.select((this.current - 1 + this.tracks.length) % this.tracks.length);
+  }
+
+  setLoop(loop: LoopMode) {
+    this.loop = loop;
+    if (this.audio) this.audio.loop = loop === 'TRACK';
+    this.changed();
+  }
+
+  // A track ended (never with TRACK looping, the element loops by itself)
+  private advance() {
+    const last = this.current === this.tracks.length - 1;
+    if (last && this.loop === 'OFF') {
+      this.changed();
+      return;
+    }
+    this.next();
+  }
+
+  private unload() {
+    const audio = this.element;
+    audio.pause();
+    audio.removeAttribute('src');
+    audio.load();
+    this.current = -1;
+    this.changed();
+  }
+
+  private changed() {
+    const audio = this.audio;
+    this.state = {
+      tracks: this.tracks,
+      current: this.current,
+      playing: !!audio && !audio.paused,
+      time: audio?.currentTime ?? 0,
+      duration: audio && Number.isFinite(audio.duration) ? audio.duration : 0,
+      loop: this.loop,
+    };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// The one player behind FILE mode
+export const filePlayer = new FilePlayer();
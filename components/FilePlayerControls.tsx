@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { filePlayer, LoopMode } from './FilePlayer';
+
+interface Props {
+  active: boolean;          // FILE mode is on
+  onActivate: () => void;   // Called when files arrive while it's off
+}
+
+const BUTTON = 'px-3 py-1 rounded-full text-xs font-bold border transition-all duration-300';
+const IDLE = 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white';
+
+const LOOP_MODES: LoopMode[] = ['ALL', 'TRACK', 'OFF'];
+
+const formatTime = (seconds: number) => {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+// Transport and playlist for FILE mode. Audio files dropped anywhere on the
+// page are queued, and switch to FILE mode if it's off
+const FilePlayerControls: React.FC<Props> = ({ active, onActivate }) => {
+  const [state, setState] = useState(filePlayer.getState);
+  useEffect(() => filePlayer.subscribe(() => setState(filePlayer.getState())), []);
+  const [dragging, setDragging] = useState(false);
+  const pickerRef = useRef<HTMLInputElement>(null);
+  // Seeking follows the slider while it's held, not the playback position
+  const [scrub, setScrub] = useState<number | null>(null);
+
+  const addFiles = (files: FileList | null) => {
+    if (files && filePlayer.add(files) > 0 && !active) onActivate();
+  };
+
+  useEffect(() => {
+    // dragenter/dragleave fire for every child crossed; count them
+    let depth = 0;
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+    // Only MIME types are readable mid-drag; other files (palette images and
+    // JSON for the editor) don't bring up the overlay
+    const hasAudio = (e: DragEvent) =>
+      Array.from(e.dataTransfer?.items ?? []).some(item => item.kind === 'file' && item.type.startsWith('audio/'));
+    const onEnter = (e: DragEvent) => { if (hasAudio(e)) { depth++; setDragging(true); } };
+    const onLeave = (e: DragEvent) => { if (hasAudio(e) && --depth <= 0) { depth = 0; setDragging(false); } };
+    const onOver = (e: DragEvent) => { if (hasFiles(e)) e.preventDefault(); };
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth = 0;
+      setDragging(false);
+      addFiles(e.dataTransfer!.files);
+    };
+    window.addEventListener('dragenter', onEnter);
+    window.addEventListener('dragleave', onLeave);
+    window.addEventListener('dragover', onOver);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragenter', onEnter);
+      window.removeEventListener('dragleave', onLeave);
+      window.removeEventListener('dragover', onOver);
+      window.removeEventListener('drop', onDrop);
+    };
+  }, [active, onActivate]);
+
+  const { tracks, current, playing, time, duration, loop } = state;
+
+  return (
+    <>
+      {dragging && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 border-4 border-dashed border-white/40 pointer-events-none">
+          <p className="text-2xl font-light text-white">Drop audio files to play</p>
+        </div>
+      )}
+
+      {active && (
+        <div className="mt-3 max-w-xl pointer-events-auto">
+          <div className="flex flex-wrap gap-2 items-center">
+            <span className="text-xs font-mono text-gray-500 mr-1">FILE</span>
+            <button onClick={() => filePlayer.previous()} disabled={current < 0} className={`${BUTTON} ${IDLE}`}>⏮</button>
+            <button onClick={() => filePlayer.toggle()} disabled={current < 0} className={`${BUTTON} ${playing ? 'bg-white text-black border-white' : IDLE}`}>
+              {playing ? '❚❚' : '▶'}
+            </button>
+            <button onClick={() => filePlayer.next()} disabled={tracks.length < 2} className={`${BUTTON} ${IDLE}`}>⏭</button>
+            <input
+              type="range"
+              min={0}
+              max={duration || 1}
+              step={0.1}
+              value={scrub ?? time}
+              disabled={!duration}
+              onChange={(e) => setScrub(Number(e.target.value))}
+              onPointerUp={() => { if (scrub !== null) filePlayer.seek(scrub); setScrub(null); }}
+              onKeyUp={() => { if (scrub !== null) filePlayer.seek(scrub); setScrub(null); }}
+              className="w-40 accent-white"
+            />
+            <span className="text-xs font-mono text-gray-400 w-20">{formatTime(scrub ?? time)} / {formatTime(duration)}</span>
+            <button
+              onClick={() => filePlayer.setLoop(LOOP_MODES[(LOOP_MODES.indexOf(loop) + 1) % LOOP_MODES.length])}
+              className={`${BUTTON} ${IDLE}`}
+              title="Loop the playlist, the current track, or stop at the end"
+            >
+              LOOP: {loop}
+            </button>
+            <button onClick={() => pickerRef.current?.click()} className={`${BUTTON} ${IDLE}`}>+ ADD</button>
+            <input
+              ref={pickerRef}
+              type="file"
+              accept="audio/*"
+              multiple
+              className="hidden"
+              onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+            />
+          </div>
+
+          <div className="mt-2 text-xs font-mono bg-black/40 border border-white/10 rounded-lg p-2 max-h-40 overflow-y-auto">
+            {tracks.length === 0 && <p className="text-gray-500">Drop audio files anywhere, or + ADD</p>}
+            {tracks.map((track, i) => (
+              <div key={track.id} className={`flex items-center gap-2 px-1 rounded ${i === current ? 'text-white bg-white/10' : 'text-gray-400'}`}>
+                <button onClick={() => filePlayer.select(i)} className="flex-1 text-left truncate hover:text-white">
+                  {i === current && playing ? '▶ ' : ''}{track.name}
+                </button>
+                <button onClick={() => filePlayer.remove(track.id)} className="text-gray-500 hover:text-red-400" title="Remove">×</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default FilePlayerControls;
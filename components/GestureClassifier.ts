@@ -0,0 +1,71 @@
+import type { Landmark } from './HandTracker';
+
+export type GestureName = 'none' | 'open_palm' | 'fist' | 'point' | 'peace' | 'thumbs_up';
+
+export type GestureResult = {
+  name: GestureName;
+  confidence: number; // 0 to 1
+};
+
+// Below this the hand is reported as 'none'
+const MIN_CONFIDENCE = 0.5;
+
+// MediaPipe hand landmark indices
+const WRIST = 0;
+const THUMB = { mcp: 2, tip: 4 };
+const FINGERS = {
+  index: { mcp: 5, pip: 6, tip: 8 },
+  middle: { mcp: 9, pip: 10, tip: 12 },
+  ring: { mcp: 13, pip: 14, tip: 16 },
+  pinky: { mcp: 17, pip: 18, tip: 20 },
+};
+
+const dist = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+const mean = (...values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// 0 = curled, 1 = straight. A straight finger's tip is much further from the
+// wrist than its middle joint; a curled one folds back past it.
+const fingerExtension = (lm: Landmark[], finger: { pip: number; tip: number }) => {
+  const ratio = dist(lm[WRIST], lm[finger.tip]) / Math.max(dist(lm[WRIST], lm[finger.pip]), 1e-6);
+  return clamp01((ratio - 1.0) / 0.4);
+};
+
+// The thumb folds across the palm, so judge it by how far its tip sits from
+// the pinky knuckle, relative to palm size
+const thumbExtension = (lm: Landmark[], palm: number) =>
+  clamp01((dist(lm[THUMB.tip], lm[FINGERS.pinky.mcp]) / palm - 0.8) / 0.5);
+
+/**
+ * Classifies a static hand pose from 21 landmarks. Works on either image or
+ * world landmarks: only distance ratios are used, and both spaces have y
+ * pointing down (used for thumbs-up).
+ */
+export const classifyGesture = (lm: Landmark[]): GestureResult => {
+  if (lm.length < 21) return { name: 'none', confidence: 0 };
+
+  const palm = Math.max(dist(lm[WRIST], lm[FINGERS.middle.mcp]), 1e-6);
+  const index = fingerExtension(lm, FINGERS.index);
+  const middle = fingerExtension(lm, FINGERS.middle);
+  const ring = fingerExtension(lm, FINGERS.ring);
+  const pinky = fingerExtension(lm, FINGERS.pinky);
+  const thumb = thumbExtension(lm, palm);
+
+  // Thumb tip clearly above its own base (image y grows downward)
+  const thumbUp = clamp01((lm[THUMB.mcp].y - lm[THUMB.tip].y) / palm / 0.6);
+  const fourCurled = mean(1 - index, 1 - middle, 1 - ring, 1 - pinky);
+
+  const scores: [GestureName, number][] = [
+    ['open_palm', mean(index, middle, ring, pinky, thumb)],
+    ['fist', fourCurled * (1 - thumb * 0.5)],
+    ['point', index * mean(1 - middle, 1 - ring, 1 - pinky)],
+    ['peace', mean(index, middle) * mean(1 - ring, 1 - pinky)],
+    ['thumbs_up', thumb * fourCurled * thumbUp],
+  ];
+
+  let best: GestureResult = { name: 'none', confidence: 0 };
+  for (const [name, score] of scores) {
+    if (score > best.confidence) best = { name, confidence: score };
+  }
+  return best.confidence >= MIN_CONFIDENCE ? best : { name: 'none', confidence: best.confidence };
+};
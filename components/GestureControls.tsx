@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { OrbitControls } from '@react-three/drei';
+import { InputData } from './HandTracker';
+import { GestureRecognizer, publishGestureEvent } from './GestureEvents';
+
+interface Props {
+  inputDataRef: React.MutableRefObject<InputData>;
+}
+
+type OrbitControlsImpl = React.ElementRef<typeof OrbitControls>;
+
+const MIN_DISTANCE = 6;
+const MAX_DISTANCE = 40;
+
+/**
+ * Runs the gesture recognizer every frame and steers the default
+ * OrbitControls with it: grab-and-drag with one fist orbits, two-hand spread zooms,
+ * swipe up resets the view, swipe down toggles auto-rotate.
+ * Every event is also published for the debug log and palette cycling.
+ */
+const GestureControls: React.FC<Props> = ({ inputDataRef }) => {
+  const controls = useThree((state) => state.controls) as OrbitControlsImpl | null;
+  const recognizer = useMemo(() => new GestureRecognizer(), []);
+  const offset = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame(() => {
+    const events = recognizer.update(inputDataRef.current, performance.now());
+    if (events.length === 0) return;
+
+    for (const event of events) {
+      publishGestureEvent(event);
+      if (!controls) continue;
+
+      switch (event.type) {
+        case 'grab_move': {
+          const speed = recognizer.config.orbitSpeed;
+          controls.setAzimuthalAngle(controls.getAzimuthalAngle() - event.dx * speed);
+          controls.setPolarAngle(controls.getPolarAngle() + event.dy * speed);
+          break;
+        }
+        case 'spread': {
+          // Hands apart = zoom in
+          const cam = controls.object;
+          offset.copy(cam.position).sub(controls.target);
+          const distance = THREE.MathUtils.clamp(offset.length() / event.scale, MIN_DISTANCE, MAX_DISTANCE);
+          cam.position.copy(controls.target).add(offset.setLength(distance));
+          controls.update();
+          break;
+        }
+        case 'swipe':
+          if (event.direction === 'up') controls.reset();
+          if (event.direction === 'down') controls.autoRotate = !controls.autoRotate;
+          break;
+      }
+    }
+  });
+
+  return null;
+};
+
+export default GestureControls;
@@ -0,0 +1,151 @@
+import { InputData } from './HandTracker';
+import { GESTURE_EVENTS } from '../constants';
+
+export type HandSide = 'left' | 'right';
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+export type GestureEvent = { t: number } & (
+  | { type: 'swipe'; hand: HandSide; direction: SwipeDirection; speed: number }
+  | { type: 'pinch'; hand: HandSide }  // Thumb and index just closed
+  | { type: 'grab_start'; hand: HandSide }
+  | { type: 'grab_move'; hand: HandSide; dx: number; dy: number }
+  | { type: 'grab_end'; hand: HandSide }
+  | { type: 'spread_start' }
+  | { type: 'spread'; scale: number } // Hand distance relative to the previous spread event
+  | { type: 'spread_end' }
+);
+
+export type GestureEventConfig = typeof GESTURE_EVENTS;
+
+type Track = {
+  samples: { t: number; x: number; y: number }[];
+  cooldownUntil: number;
+  grabbing: boolean;
+  pinched: boolean;
+  lastX: number;
+  lastY: number;
+};
+
+const newTrack = (): Track => ({ samples: [], cooldownUntil: 0, grabbing: false, pinched: false, lastX: 0, lastY: 0 });
+
+/**
+ * Turns the per-frame hand stream into discrete and continuous events:
+ * swipes (fast straight flicks), grab-and-drag (a fist held in one hand;
+ * two fists are left to freeze the sculpture), pinches and two-hand
+ * pinch-spread. Call update() once per frame.
+ */
+export class GestureRecognizer {
+  config: GestureEventConfig;
+  private tracks: Record<HandSide, Track> = { left: newTrack(), right: newTrack() };
+  private spreading = false;
+  private spreadDistance = 0;
+
+  constructor(config: Partial<GestureEventConfig> = {}) {
+    this.config = { ...GESTURE_EVENTS, ...config };
+  }
+
+  update(input: InputData, now: number): GestureEvent[] {
+    const cfg = this.config;
+    const events: GestureEvent[] = [];
+    const { left, right } = input.hands;
+
+    // --- Two-hand spread ---
+    const bothPinched = left.present && right.present && left.pinch < cfg.spreadPinch && right.pinch < cfg.spreadPinch;
+    const distance = Math.hypot(left.x - right.x, left.y - right.y);
+
+    if (bothPinched) {
+      if (!this.spreading) {
+        this.spreading = true;
+        this.spreadDistance = distance;
+        events.push({ t: now, type: 'spread_start' });
+      } else {
+        const scale = distance / Math.max(this.spreadDistance, 1e-3);
+        if (Math.abs(scale - 1) > cfg.spreadMinChange) {
+          events.push({ t: now, type: 'spread', scale });
+          this.spreadDistance = distance;
+        }
+      }
+    } else if (this.spreading) {
+      this.spreading = false;
+      events.push({ t: now, type: 'spread_end' });
+    }
+
+    // --- Per-hand grab + swipe ---
+    const isFist = (side: HandSide) => {
+      const hand = input.hands[side];
+      return hand.present && hand.gesture?.name === 'fist' && hand.gesture.confidence >= cfg.grabConfidence;
+    };
+    const bothFists = isFist('left') && isFist('right');
+
+    (['left', 'right'] as HandSide[]).forEach(side => {
+      const hand = input.hands[side];
+      const track = this.tracks[side];
+
+      if (!hand.present) {
+        if (track.grabbing) events.push({ t: now, type: 'grab_end', hand: side });
+        this.tracks[side] = { ...newTrack(), cooldownUntil: track.cooldownUntil };
+        return;
+      }
+
+      const grabbing = isFist(side) && !bothFists;
+      if (grabbing && !track.grabbing) {
+        events.push({ t: now, type: 'grab_start', hand: side });
+      } else if (grabbing) {
+        const dx = hand.x - track.lastX;
+        const dy = hand.y - track.lastY;
+        if (dx !== 0 || dy !== 0) events.push({ t: now, type: 'grab_move', hand: side, dx, dy });
+      } else if (track.grabbing) {
+        events.push({ t: now, type: 'grab_end', hand: side });
+      }
+      track.grabbing = grabbing;
+
+      const pinched = hand.pinch < (track.pinched ? cfg.pinchExit : cfg.pinchEnter);
+      if (pinched && !track.pinched) events.push({ t: now, type: 'pinch', hand: side });
+      track.pinched = pinched;
+      track.lastX = hand.x;
+      track.lastY = hand.y;
+
+      // A grabbing or spreading hand is steering, not swiping
+      if (grabbing || this.spreading) {
+        track.samples = [];
+        return;
+      }
+
+      track.samples.push({ t: now, x: hand.x, y: hand.y });
+      while (track.samples.length > 0 && now - track.samples[0].t > cfg.swipeWindowMs) track.samples.shift();
+      if (now < track.cooldownUntil || track.samples.length < 2) return;
+
+      const first = track.samples[0];
+      const dx = hand.x - first.x;
+      const dy = hand.y - first.y;
+      const travel = Math.hypot(dx, dy);
+      const speed = travel / Math.max((now - first.t) / 1000, 1e-3);
+      if (travel < cfg.swipeMinDistance || speed < cfg.swipeMinSpeed) return;
+
+      let direction: SwipeDirection | null = null;
+      if (Math.abs(dx) >= Math.abs(dy) * cfg.swipeAxisRatio) direction = dx > 0 ? 'right' : 'left';
+      else if (Math.abs(dy) >= Math.abs(dx) * cfg.swipeAxisRatio) direction = dy > 0 ? 'up' : 'down';
+      if (!direction) return;
+
+      events.push({ t: now, type: 'swipe', hand: side, direction, speed });
+      track.cooldownUntil = now + cfg.swipeCooldownMs;
+      track.samples = [];
+    });
+
+    return events;
+  }
+}
+
+// --- Event Bus ---
+// The recognizer runs inside the Canvas; the debug log and App listen here.
+
+const listeners = new Set<(event: GestureEvent) => void>();
+
+export const publishGestureEvent = (event: GestureEvent) => {
+  listeners.forEach(l => l(event));
+};
+
+export const onGestureEvent = (listener: (event: GestureEvent) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { GestureEvent, onGestureEvent } from './GestureEvents';
+
+const MAX_ENTRIES = 12;
+
+type Entry = {
+  key: string;
+  label: string;
+  detail: string;
+  count: number;
+  t: number;
+};
+
+const describe = (e: GestureEvent): { key: string; label: string; detail: string } => {
+  switch (e.type) {
+    case 'swipe':
+      return { key: `swipe-${e.hand}-${e.direction}`, label: `SWIPE ${e.direction.toUpperCase()}`, detail: `${e.hand} ${e.speed.toFixed(1)}/s` };
+    case 'pinch':
+    case 'grab_start':
+    case 'grab_end':
+      return { key: `${e.type}-${e.hand}`, label: e.type.toUpperCase(), detail: e.hand };
+    case 'grab_move':
+      return { key: `grab_move-${e.hand}`, label: 'GRAB MOVE', detail: `${e.hand} ${e.dx.toFixed(3)}, ${e.dy.toFixed(3)}` };
+    case 'spread':
+      return { key: 'spread', label: 'SPREAD', detail: `x${e.scale.toFixed(3)}` };
+    default:
+      return { key: e.type, label: e.type.toUpperCase(), detail: '' };
+  }
+};
+
+// Debug overlay listing recent gesture events. Repeats of continuous events
+// (grab move, spread) collapse into one line with a counter.
+const GestureLog: React.FC = () => {
+  const [entries, setEntries] = useState<Entry[]>([]);
+
+  useEffect(() => onGestureEvent((event) => {
+    const { key, label, detail } = describe(event);
+    setEntries(prev => {
+      if (prev.length > 0 && prev[0].key === key) {
+        return [{ ...prev[0], detail, count: prev[0].count + 1, t: event.t }, ...prev.slice(1)];
+      }
+      return [{ key, label, detail, count: 1, t: event.t }, ...prev].slice(0, MAX_ENTRIES);
+    });
+  }), []);
+
+  return (
+    <div className="fixed top-4 right-4 w-64 rounded-lg border border-white/20 z-50 bg-black/80 text-[10px] font-mono text-gray-300 p-2 pointer-events-none">
+        <div className="text-white mb-1">Gesture Events</div>
+        {entries.length === 0 && <div className="text-gray-500">Waiting for gestures...</div>}
+        {entries.map((e, i) => (
+            <div key={`${e.key}-${e.t}-${i}`} className="flex justify-between gap-2">
+                <span className="text-cyan-300">{e.label}{e.count > 1 ? ` ×${e.count}` : ''}</span>
+                <span className="truncate">{e.detail}</span>
+                <span className="text-gray-500">{(e.t / 1000).toFixed(1)}s</span>
+            </div>
+        ))}
+    </div>
+  );
+};
+
+export default GestureLog;
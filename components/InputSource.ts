@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { InputData } from './HandTracker';
+
+export type InputSourceState = 'idle' | 'starting' | 'active' | 'error';
+
+export type InputSourceStatus = {
+  state: InputSourceState;
+  message: string;
+};
+
+type Listener<T> = (value: T) => void;
+
+/**
+ * Anything that can drive the sculpture. A source produces InputData frames
+ * through onUpdate; the app never needs to know where they came from.
+ * start() may be called again after stop().
+ */
+export interface InputSource {
+  readonly name: string;
+  readonly status: InputSourceStatus;
+  start(): Promise<void>;
+  stop(): void;
+  onUpdate(listener: Listener<InputData>): () => void;
+  onStatus(listener: Listener<InputSourceStatus>): () => void;
+}
+
+// Listener bookkeeping shared by the concrete sources
+export abstract class BaseInputSource implements InputSource {
+  abstract readonly name: string;
+  status: InputSourceStatus = { state: 'idle', message: 'Idle' };
+
+  private updateListeners = new Set<Listener<InputData>>();
+  private statusListeners = new Set<Listener<InputSourceStatus>>();
+
+  abstract start(): Promise<void>;
+  abstract stop(): void;
+
+  onUpdate(listener: Listener<InputData>) {
+    this.updateListeners.add(listener);
+    return () => { this.updateListeners.delete(listener); };
+  }
+
+  onStatus(listener: Listener<InputSourceStatus>) {
+    this.statusListeners.add(listener);
+    return () => { this.statusListeners.delete(listener); };
+  }
+
+  protected emit(data: InputData) {
+    this.updateListeners.forEach(l => l(data));
+  }
+
+  protected setStatus(state: InputSourceState, message: string) {
+    this.status = { state, message };
+    this.statusListeners.forEach(l => l(this.status));
+  }
+}
+
+/**
+ * Runs a source for the lifetime of the calling component, forwarding its
+ * frames to onUpdate. Returns the live status for display.
+ */
+export const useInputSource = (source: InputSource, onUpdate: (data: InputData) => void) => {
+  const [status, setStatus] = useState<InputSourceStatus>(source.status);
+
+  useEffect(() => {
+    const offUpdate = source.onUpdate(onUpdate);
+    const offStatus = source.onStatus(setStatus);
+    source.start().catch(e => console.error(`${source.name} failed to start:`, e));
+
+    return () => {
+      source.stop();
+      offUpdate();
+      offStatus();
+    };
+  }, [source, onUpdate]);
+
+  return status;
+};
@@ -0,0 +1,209 @@
+import { FilesetResolver, HandLandmarker, FaceLandmarker } from '@mediapipe/tasks-vision';
+import { InputData, HandData, createEmptyInputData } from './HandTracker';
+import { BaseInputSource } from './InputSource';
+import { ASSETS, SELF_HOSTED_ASSETS, verifyAsset } from '../assets';
+import { classifyGesture } from './GestureClassifier';
+
+/**
+ * Webcam hand + face tracking via MediaPipe. The video element is owned by
+ * the source so a view can mount it as a preview.
+ */
+export class MediaPipeSource extends BaseInputSource {
+  readonly name = 'MediaPipe Camera';
+  readonly video: HTMLVideoElement;
+
+  private handLandmarker: HandLandmarker | null = null;
+  private faceLandmarker: FaceLandmarker | null = null;
+  private animationFrameId = 0;
+  private lastVideoTime = -1;
+  // Bumped on every start/stop so stale async setup steps bail out
+  private run = 0;
+
+  constructor() {
+    super();
+    this.video = document.createElement('video');
+    this.video.autoplay = true;
+    this.video.playsInline = true;
+    this.video.muted = true;
+  }
+
+  async start() {
+    const run = ++this.run;
+    const active = () => run === this.run;
+
+    try {
+      this.setStatus('starting', "Initializing AI...");
+
+      if (SELF_HOSTED_ASSETS) {
+        await Promise.all([
+          verifyAsset("MediaPipe wasm", `${ASSETS.visionWasm}/vision_wasm_internal.wasm`),
+          verifyAsset("Hand landmarker model", ASSETS.handModel),
+          verifyAsset("Face landmarker model", ASSETS.faceModel),
+        ]);
+        if (!active()) return;
+      }
+
+      const vision = await FilesetResolver.forVisionTasks(ASSETS.visionWasm);
+
+      if (!active()) return;
+
+      // Initialize BOTH Hand and Face Landmarkers
+      // Note: 'delegate: "GPU"' is preferred, but the log about XNNPACK (CPU) is normal
+      // as some operations fall back to CPU or run in parallel.
+      const [hLandmarker, fLandmarker] = await Promise.all([
+        HandLandmarker.createFromOptions(vision, {
+          baseOptions: {
+            modelAssetPath: ASSETS.handModel,
+            delegate: "GPU"
+          },
+          runningMode: "VIDEO",
+          numHands: 2
+        }),
+        FaceLandmarker.createFromOptions(vision, {
+          baseOptions: {
+            modelAssetPath: ASSETS.faceModel,
+            delegate: "GPU"
+          },
+          outputFaceBlendshapes: true,
+          runningMode: "VIDEO",
+          numFaces: 1
+        })
+      ]);
+
+      if (!active()) {
+        hLandmarker.close();
+        fLandmarker.close();
+        return;
+      }
+
+      this.handLandmarker = hLandmarker;
+      this.faceLandmarker = fLandmarker;
+
+      this.setStatus('starting', "Requesting Camera...");
+
+      if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: {
+              width: { ideal: 640 },
+              height: { ideal: 480 },
+              facingMode: "user"
+          }
+        });
+
+        if (!active()) {
+           stream.getTracks().forEach(t => t.stop());
+           return;
+        }
+
+        this.video.srcObject = stream;
+        // Explicitly wait for data and then PLAY
+        this.video.onloadeddata = () => {
+            if (!active()) return;
+            this.video.play().then(() => {
+                this.setStatus('active', "Active (Hands + Face)");
+                this.predictWebcam();
+            }).catch(e => {
+                console.error("Video play failed:", e);
+                this.setStatus('error', "Camera Error: Click page to enable");
+            });
+        };
+      }
+    } catch (e: any) {
+      console.error("Tracker Error:", e);
+      this.setStatus('error', "Error: " + (e.message || "Unknown"));
+    }
+  }
+
+  stop() {
+    this.run++;
+    if (this.video.srcObject) {
+        (this.video.srcObject as MediaStream).getTracks().forEach(t => t.stop());
+        this.video.srcObject = null;
+    }
+    this.video.onloadeddata = null;
+    if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
+    this.handLandmarker?.close();
+    this.faceLandmarker?.close();
+    this.handLandmarker = null;
+    this.faceLandmarker = null;
+    this.lastVideoTime = -1;
+    this.setStatus('idle', "Stopped");
+  }
+
+  private predictWebcam = () => {
+    // Safety checks: models loaded, video exists
+    const video = this.video;
+    if (!this.handLandmarker || !this.faceLandmarker) return;
+
+    try {
+      // Ensure video is actually playing and has dimensions
+      if (video.videoWidth > 0 && video.videoHeight > 0) {
+
+          let startTimeMs = performance.now();
+
+          // CRITICAL: MediaPipe crashes if the timestamp is not strictly increasing.
+          // If the video frame hasn't advanced, skip detection to save resources and prevent crash.
+          if (video.currentTime !== this.lastVideoTime) {
+              this.lastVideoTime = video.currentTime;
+
+              // Run detections
+              const handResults = this.handLandmarker.detectForVideo(video, startTimeMs);
+              const faceResults = this.faceLandmarker.detectForVideo(video, startTimeMs);
+
+              const newData: InputData = createEmptyInputData();
+
+              // --- Hand Logic ---
+              if (handResults.landmarks) {
+                  for (let i = 0; i < handResults.landmarks.length; i++) {
+                      const landmarks = handResults.landmarks[i];
+                      const worldLandmarks = handResults.worldLandmarks?.[i];
+                      const handedness = handResults.handedness[i][0].categoryName;
+                      const handednessScore = handResults.handedness[i][0].score;
+
+                      const indexTip = landmarks[8];
+                      const thumbTip = landmarks[4];
+                      const dx = indexTip.x - thumbTip.x;
+                      const dy = indexTip.y - thumbTip.y;
+                      const distance = Math.sqrt(dx*dx + dy*dy);
+                      const pinch = Math.min(Math.max((distance - 0.02) / 0.15, 0), 1);
+                      const x = (1 - indexTip.x) * 2 - 1;
+                      const y = -(indexTip.y * 2 - 1);
+
+                      const hand: HandData = {
+                          present: true, x, y, pinch,
+                          landmarks: landmarks.map(({ x, y, z }) => ({ x, y, z })),
+                          worldLandmarks: worldLandmarks?.map(({ x, y, z }) => ({ x, y, z })),
+                          handedness: handednessScore,
+                          gesture: classifyGesture(worldLandmarks ?? landmarks)
+                      };
+
+                      if (handedness === "Left") newData.hands.left = hand;
+                      else newData.hands.right = hand;
+                  }
+              }
+
+              // --- Face Logic (Blendshapes) ---
+              if (faceResults.faceBlendshapes && faceResults.faceBlendshapes.length > 0) {
+                  const shapes = faceResults.faceBlendshapes[0].categories;
+                  newData.face.present = true;
+
+                  // Helper to find score
+                  const getScore = (name: string) => shapes.find(s => s.categoryName === name)?.score || 0;
+
+                  // Calculate Expressions
+                  newData.face.smile = (getScore('mouthSmileLeft') + getScore('mouthSmileRight')) / 2;
+                  newData.face.mouthOpen = getScore('jawOpen');
+                  newData.face.browDown = (getScore('browDownLeft') + getScore('browDownRight')) / 2;
+              }
+
+              this.emit(newData);
+          }
+      }
+    } catch (e) {
+        console.warn("Tracking frame error:", e);
+    }
+
+    // Loop
+    this.animationFrameId = requestAnimationFrame(this.predictWebcam);
+  };
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { InputData } from './HandTracker';
+import { ThereminNotes } from './Theremin';
+import {
+  MidiConfig, MidiAction, MidiInputRouter, MidiOutputSender, MockMidiAccess, DEFAULT_MIDI_CONFIG,
+  parseMidiMessage, sanitizeMidiConfig, noteOn, noteOff, controlChange
+} from './Midi';
+
+const config = (patch: Partial<MidiConfig>): MidiConfig => ({ ...DEFAULT_MIDI_CONFIG, ...patch });
+
+const input = (leftX: number): InputData => ({
+  hands: {
+    left: { present: true, x: leftX, y: 0, pinch: 1 },
+    right: { present: false, x: 0, y: 0, pinch: 1 },
+  },
+  face: { present: false, smile: 0, mouthOpen: 0, browDown: 0 },
+});
+
+const NO_NOTES: ThereminNotes = { bass: null, lead: null };
+
+describe('parseMidiMessage', () => {
+  it('reads note on, note off and CC with their channel', () => {
+    expect(parseMidiMessage([0x93, 60, 100])).toEqual({ type: 'noteon', channel: 3, note: 60, velocity: 100 });
+    expect(parseMidiMessage([0x80, 60, 40])).toEqual({ type: 'noteoff', channel: 0, note: 60, velocity: 40 });
+    expect(parseMidiMessage([0xbf, 7, 127])).toEqual({ type: 'cc', channel: 15, controller: 7, value: 127 });
+  });
+
+  it('reads a note on at velocity 0 as a note off', () => {
+    expect(parseMidiMessage([0x90, 60, 0])).toEqual({ type: 'noteoff', channel: 0, note: 60, velocity: 0 });
+  });
+
+  it('ignores short and unsupported messages', () => {
+    expect(parseMidiMessage([0x90, 60])).toBeNull();
+    expect(parseMidiMessage([0xe0, 0, 64])).toBeNull();  // Pitch bend
+  });
+});
+
+describe('MidiInputRouter', () => {
+  const button = config({
+    inputs: [{ source: { type: 'cc', channel: 0, number: 64 }, target: { kind: 'palette', step: 1 } }],
+  });
+
+  const routeAll = (router: MidiInputRouter, cfg: MidiConfig, messages: number[][], inputId = 'in') =>
+    messages.flatMap(data => router.route(cfg, parseMidiMessage(data)!, inputId));
+
+  it('fires a palette step only when a CC rises past the middle', () => {
+    const actions = routeAll(new MidiInputRouter(), button, [
+      [0xb0, 64, 0], [0xb0, 64, 100], [0xb0, 64, 127], [0xb0, 64, 20], [0xb0, 64, 64],
+    ]);
+    expect(actions).toEqual([{ kind: 'palette', step: 1 }, { kind: 'palette', step: 1 }]);
+  });
+
+  it('fires on every note on', () => {
+    const router = new MidiInputRouter();
+    const keys = config({
+      inputs: [{ source: { type: 'note', channel: 0, number: 36 }, target: { kind: 'audioMode', mode: 'MIC' } }],
+    });
+    const actions = routeAll(router, keys, [[0x90, 36, 100], [0x80, 36, 0], [0x90, 36, 90], [0x90, 36, 0]]);
+    expect(actions).toEqual([{ kind: 'audioMode', mode: 'MIC' }, { kind: 'audioMode', mode: 'MIC' }]);
+  });
+
+  it('moves a setting across its range, snapped to its step', () => {
+    const knob = config({
+      inputs: [{ source: { type: 'cc', channel: 0, number: 1 }, target: { kind: 'setting', key: 'bloomThreshold' } }],
+    });
+    const actions = routeAll(new MidiInputRouter(), knob, [[0xb0, 1, 0], [0xb0, 1, 127]]);
+    expect(actions.map(a => a.kind === 'setting' && a.value)).toEqual([0, 1]);
+  });
+
+  it('listens to the chosen input only', () => {
+    const actions = routeAll(new MidiInputRouter(), { ...button, inputId: 'pads' }, [[0xb0, 64, 127]], 'keys');
+    expect(actions).toEqual([]);
+  });
+
+  it('routes messages received through a MidiAccess', () => {
+    const access = new MockMidiAccess();
+    const router = new MidiInputRouter();
+    const actions: MidiAction[] = [];
+    const stop = access.onMessage((data, inputId) => {
+      const message = parseMidiMessage(data);
+      if (message) actions.push(...router.route(button, message, inputId));
+    });
+    access.receive([0xb0, 64, 127]);
+    stop();
+    access.receive([0xb0, 64, 0]);
+    access.receive([0xb0, 64, 127]);
+    expect(actions).toEqual([{ kind: 'palette', step: 1 }]);
+  });
+});
+
+describe('MidiOutputSender', () => {
+  const leftX = config({ outputs: [{ source: 'LEFT_X', channel: 2, controller: 20 }] });
+
+  it('sends a CC only when its value changes', () => {
+    const sender = new MidiOutputSender();
+    expect(sender.frame(leftX, input(1), NO_NOTES)).toEqual([controlChange(2, 20, 127)]);
+    expect(sender.frame(leftX, input(1), NO_NOTES)).toEqual([]);
+    expect(sender.frame(leftX, input(-1), NO_NOTES)).toEqual([controlChange(2, 20, 0)]);
+  });
+
+  it('resends every CC after a reset', () => {
+    const sender = new MidiOutputSender();
+    sender.frame(leftX, input(1), NO_NOTES);
+    sender.reset();
+    expect(sender.frame(leftX, input(1), NO_NOTES)).toEqual([controlChange(2, 20, 127)]);
+  });
+
+  it('pairs a note off with each new note on', () => {
+    const sender = new MidiOutputSender();
+    const notes = config({ outputs: [], notes: { enabled: true, bassChannel: 1, leadChannel: 0, velocity: 90 } });
+    const bass = (midi: number): ThereminNotes => ({ bass: { midi, cents: 0 }, lead: null });
+
+    expect(sender.frame(notes, input(0), bass(40))).toEqual([noteOn(1, 40, 90)]);
+    expect(sender.frame(notes, input(0), bass(40))).toEqual([]);
+    expect(sender.frame(notes, input(0), bass(43))).toEqual([noteOff(1, 40), noteOn(1, 43, 90)]);
+    expect(sender.frame(notes, input(0), NO_NOTES)).toEqual([noteOff(1, 43)]);
+  });
+
+  it('turns sounding notes off on reset', () => {
+    const sender = new MidiOutputSender();
+    const notes = config({ outputs: [], notes: { ...DEFAULT_MIDI_CONFIG.notes, enabled: true } });
+    sender.frame(notes, input(0), { bass: { midi: 40, cents: 0 }, lead: { midi: 64, cents: 0 } });
+    expect(sender.reset()).toEqual([noteOff(1, 40), noteOff(0, 64)]);
+    expect(sender.reset()).toEqual([]);
+  });
+});
+
+describe('sanitizeMidiConfig', () => {
+  it('falls back to the defaults for anything but an object', () => {
+    for (const junk of [null, undefined, 42, 'midi', [1, 2, 3]]) {
+      expect(sanitizeMidiConfig(junk)).toEqual(DEFAULT_MIDI_CONFIG);
+    }
+  });
+
+  it('drops malformed mappings and falls back for out-of-range values', () => {
+    const sanitized = sanitizeMidiConfig({
+      inputId: 7,
+      outputId: 'synth',
+      inputs: [
+        { source: { type: 'cc', channel: 0, number: 1 }, target: { kind: 'setting', key: 'radius' } },
+        { source: { type: 'cc', channel: 16, number: 1 }, target: { kind: 'palette', step: -1 } },
+        { source: null, target: { kind: 'setting', key: 'notASetting' } },
+        { target: { kind: 'audioMode', mode: 'LOUD' } },
+        'junk',
+      ],
+      outputs: [{ source: 'LEFT_X', channel: 1.5, controller: 300 }, { source: 'TAIL', channel: 0, controller: 1 }],
+      notes: { enabled: 'yes', bassChannel: -1, leadChannel: 3, velocity: 200 },
+    });
+    expect(sanitized).toEqual({
+      inputId: null,
+      outputId: 'synth',
+      inputs: [
+        { source: { type: 'cc', channel: 0, number: 1 }, target: { kind: 'setting', key: 'radius' } },
+        { source: null, target: { kind: 'palette', step: -1 } },
+      ],
+      outputs: [{ source: 'LEFT_X', channel: 0, controller: 20 }],
+      notes: { ...DEFAULT_MIDI_CONFIG.notes, leadChannel: 3 },
+    });
+  });
+});
@@ -0,0 +1,387 @@
+import { AudioMode } from '../App';
+import { InputData } from './HandTracker';
+import { NumericSetting, SETTING_FIELDS } from './Settings';
+import { HandAxis } from './SynthPatch';
+import { handAxes } from './Synth';
+import { ThereminNotes } from './Theremin';
+import { asRecord } from './Sanitize';
+
+// MIDI in and out.
+//
+// Everything talks to a MidiAccess, a small interface over Web MIDI, so a
+// MockMidiAccess can stand in without devices (setMidiAccess(new
+// MockMidiAccess()), then receive() messages and read `sent`). Incoming
+// messages become MidiActions through the learned mappings; outgoing CCs
+// and notes come from the hands, the face and the theremin.
+
+// --- Access layer ---
+
+export type MidiPort = { id: string; name: string };
+
+export interface MidiAccess {
+  inputs(): MidiPort[];
+  outputs(): MidiPort[];
+  send(outputId: string, data: number[]): void;
+  onMessage(listener: (data: ArrayLike<number>, inputId: string) => void): () => void;
+  onPortsChange(listener: () => void): () => void;
+}
+
+const portsOf = (map: MIDIInputMap | MIDIOutputMap): MidiPort[] =>
+  [...map.values()].map(port => ({ id: port.id, name: port.name || port.id }));
+
+/**
+ * The browser's MIDI access. Rejects where Web MIDI is missing or the user
+ * declines.
+ */
+export const requestWebMidi = async (): Promise<MidiAccess> => {
+  if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+    throw new Error("Web MIDI is not supported in this browser");
+  }
+  const access = await navigator.requestMIDIAccess();
+  const messageListeners = new Set<(data: ArrayLike<number>, inputId: string) => void>();
+  const portListeners = new Set<() => void>();
+
+  // Inputs come and go; every one present is listened to
+  const onMidiMessage = (e: MIDIMessageEvent) => {
+    const input = e.target as MIDIInput;
+    if (e.data) messageListeners.forEach(listener => listener(e.data!, input.id));
+  };
+  const attach = () => access.inputs.forEach(input => {
+    input.removeEventListener('midimessage', onMidiMessage);
+    input.addEventListener('midimessage', onMidiMessage);
+  });
+  attach();
+  access.addEventListener('statechange', () => {
+    attach();
+    portListeners.forEach(listener => listener());
+  });
+
+  return {
+    inputs: () => portsOf(access.inputs),
+    outputs: () => portsOf(access.outputs),
+    send: (outputId, data) => access.outputs.get(outputId)?.send(data),
+    onMessage: (listener) => {
+      messageListeners.add(listener);
+      return () => { messageListeners.delete(listener); };
+    },
+    onPortsChange: (listener) => {
+      portListeners.add(listener);
+      return () => { portListeners.delete(listener); };
+    },
+  };
+};
+
+// Stand-in for tests and demos without hardware
+export class MockMidiAccess implements MidiAccess {
+  readonly sent: { outputId: string; data: number[] }[] = [];
+  private messageListeners = new Set<(data: ArrayLike<number>, inputId: string) => void>();
+  private portListeners = new Set<() => void>();
+
+  constructor(
+    private inputPorts: MidiPort[] = [{ id: 'mock-in', name: 'Mock Controller' }],
+    private outputPorts: MidiPort[] = [{ id: 'mock-out', name: 'Mock Synth' }]
+  ) {}
+
+  inputs() {
+    return this.inputPorts;
+  }
+
+  outputs() {
+    return this.outputPorts;
+  }
+
+  send(outputId: string, data: number[]) {
+    this.sent.push({ outputId, data: [...data] });
+  }
+
+  onMessage(listener: (data: ArrayLike<number>, inputId: string) => void) {
+    this.messageListeners.add(listener);
+    return () => { this.messageListeners.delete(listener); };
+  }
+
+  onPortsChange(listener: () => void) {
+    this.portListeners.add(listener);
+    return () => { this.portListeners.delete(listener); };
+  }
+
+  // Delivers a message as if it came from an input
+  receive(data: number[], inputId = this.inputPorts[0]?.id ?? 'mock-in') {
+    this.messageListeners.forEach(listener => listener(data, inputId));
+  }
+
+  setPorts(inputs: MidiPort[], outputs: MidiPort[]) {
+    this.inputPorts = inputs;
+    this.outputPorts = outputs;
+    this.portListeners.forEach(listener => listener());
+  }
+}
+
+let midiAccess: MidiAccess | null = null;
+const accessListeners = new Set<(access: MidiAccess | null) => void>();
+
+export const setMidiAccess = (access: MidiAccess | null) => {
+  midiAccess = access;
+  accessListeners.forEach(listener => listener(access));
+};
+
+export const getMidiAccess = () => midiAccess;
+
+export const onMidiAccess = (listener: (access: MidiAccess | null) => void) => {
+  accessListeners.add(listener);
+  return () => { accessListeners.delete(listener); };
+};
+
+// --- Messages ---
+
+// Channels are 0-15 here and 1-16 on screen
+export type MidiMessage =
+  | { type: 'noteon' | 'noteoff'; channel: number; note: number; velocity: number }
+  | { type: 'cc'; channel: number; controller: number; value: number };
+
+export const parseMidiMessage = (data: ArrayLike<number>): MidiMessage | null => {
+  if (data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  switch (status) {
+    case 0x90:
+      // Note on at velocity 0 is the common way to say note off
+      return { type: data[2] > 0 ? 'noteon' : 'noteoff', channel, note: data[1], velocity: data[2] };
+    case 0x80:
+      return { type: 'noteoff', channel, note: data[1], velocity: data[2] };
+    case 0xb0:
+      return { type: 'cc', channel, controller: data[1], value: data[2] };
+    default:
+      return null;
+  }
+};
+
+const byte = (v: number) => Math.min(Math.max(Math.round(v), 0), 127);
+
+export const noteOn = (channel: number, note: number, velocity: number) => [0x90 | channel, byte(note), byte(velocity)];
+export const noteOff = (channel: number, note: number) => [0x80 | channel, byte(note), 0];
+export const controlChange = (channel: number, controller: number, value: number) => [0xb0 | channel, byte(controller), byte(value)];
+
+export const describeMessage = (message: MidiMessage) =>
+  message.type === 'cc'
+    ? `CC ${message.controller} = ${message.value} (ch ${message.channel + 1})`
+    : `${message.type === 'noteon' ? 'Note on' : 'Note off'} ${message.note} vel ${message.velocity} (ch ${message.channel + 1})`;
+
+// --- Mappings ---
+
+export type MidiSource = { type: 'cc' | 'note'; channel: number; number: number };
+
+export type MidiTarget =
+  | { kind: 'setting'; key: NumericSetting }
+  | { kind: 'palette'; step: 1 | -1 }   // Next / previous neutral palette
+  | { kind: 'audioMode'; mode: AudioMode };
+
+export type MidiAction =
+  | { kind: 'setting'; key: NumericSetting; value: number }
+  | { kind: 'palette'; step: 1 | -1 }
+  | { kind: 'audioMode'; mode: AudioMode };
+
+export type InputMapping = { source: MidiSource | null; target: MidiTarget }; // No source until learned
+
+export type OutputSource = Exclude<HandAxis, 'NONE'> | 'SMILE' | 'MOUTH_OPEN' | 'BROW_DOWN';
+
+export const OUTPUT_SOURCES: OutputSource[] = [
+  'LEFT_X', 'LEFT_Y', 'LEFT_PINCH', 'RIGHT_X', 'RIGHT_Y', 'RIGHT_PINCH', 'SMILE', 'MOUTH_OPEN', 'BROW_DOWN',
+];
+
+export type OutputMapping = { source: OutputSource; channel: number; controller: number };
+
+export type MidiConfig = {
+  inputId: string | null;   // Listen to this input only; null for all of them
+  outputId: string | null;  // Nothing is sent without one
+  inputs: InputMapping[];
+  outputs: OutputMapping[];
+  notes: { enabled: boolean; bassChannel: number; leadChannel: number; velocity: number }; // Theremin notes
+};
+
+const AUDIO_MODES: AudioMode[] = ['OFF', 'MIC', 'THEREMIN', 'FILE'];
+
+// Every target a mapping can drive, for pickers
+export const MIDI_TARGETS: { target: MidiTarget; label: string }[] = [
+  ...SETTING_FIELDS.map(f => ({ target: { kind: 'setting', key: f.key } as MidiTarget, label: f.label })),
+  { target: { kind: 'palette', step: 1 }, label: 'Next Palette' },
+  { target: { kind: 'palette', step: -1 }, label: 'Previous Palette' },
+  ...AUDIO_MODES.map(mode => ({ target: { kind: 'audioMode', mode } as MidiTarget, label: `Audio: ${mode}` })),
+];
+
+export const targetKey = (target: MidiTarget) =>
+  target.kind === 'setting' ? `setting:${target.key}` : target.kind === 'palette' ? `palette:${target.step}` : `audioMode:${target.mode}`;
+
+export const describeSource = (source: MidiSource) =>
+  `${source.type === 'cc' ? 'CC' : 'Note'} ${source.number} ch ${source.channel + 1}`;
+
+// The control a message came from, for MIDI learn
+export const sourceOf = (message: MidiMessage): MidiSource | null => {
+  if (message.type === 'cc') return { type: 'cc', channel: message.channel, number: message.controller };
+  if (message.type === 'noteon') return { type: 'note', channel: message.channel, number: message.note };
+  return null;
+};
+
+const sameSource = (a: MidiSource, b: MidiSource) => a.type === b.type && a.channel === b.channel && a.number === b.number;
+
+// Sends each hand and face value on its own CC, channel 1, from CC 20
+export const DEFAULT_MIDI_CONFIG: MidiConfig = {
+  inputId: null,
+  outputId: null,
+  inputs: [],
+  outputs: OUTPUT_SOURCES.map((source, i) => ({ source, channel: 0, controller: 20 + i })),
+  notes: { enabled: false, bassChannel: 1, leadChannel: 0, velocity: 100 },
+};
+
+/**
+ * Turns incoming messages into actions. Settings follow CC values (or note
+ * velocities) across their range; palette and audio mode targets fire on a
+ * note on, or when a CC crosses the middle going up, so a knob or a button
+ * sending 127/0 both work.
+ */
+export class MidiInputRouter {
+  private high = new Map<string, boolean>();
+
+  route(config: MidiConfig, message: MidiMessage, inputId: string): MidiAction[] {
+    if (config.inputId && inputId !== config.inputId) return [];
+    const source = sourceOf(message);
+    if (!source) return [];
+
+    let rising = message.type === 'noteon';
+    if (message.type === 'cc') {
+      const key = `${message.channel}:${message.controller}`;
+      const high = message.value >= 64;
+      rising = high && !this.high.get(key);
+      this.high.set(key, high);
+    }
+    const level = message.type === 'cc' ? message.value / 127 : message.velocity / 127;
+
+    const actions: MidiAction[] = [];
+    for (const { source: mapped, target } of config.inputs) {
+      if (!mapped || !sameSource(mapped, source)) continue;
+      if (target.kind === 'setting') {
+        const field = SETTING_FIELDS.find(f => f.key === target.key);
+        if (!field) continue;
+        const raw = field.min + (field.max - field.min) * level;
+        actions.push({ kind: 'setting', key: target.key, value: Math.round(raw / field.step) * field.step });
+      } else if (rising) {
+        actions.push(target.kind === 'palette' ? { kind: 'palette', step: target.step } : { kind: 'audioMode', mode: target.mode });
+      }
+    }
+    return actions;
+  }
+}
+
+/**
+ * Turns each frame's input into outgoing messages: CCs for values that
+ * changed, and note off/on pairs as the theremin's notes change.
+ */
+export class MidiOutputSender {
+  private lastValues = new Map<string, number>();
+  private playing: { bass: { channel: number; note: number } | null; lead: { channel: number; note: number } | null } = { bass: null, lead: null };
+
+  frame(config: MidiConfig, input: InputData, notes: ThereminNotes): number[][] {
+    const messages: number[][] = [];
+    const axes = handAxes(input.hands);
+    const face = input.face;
+    const values: Record<OutputSource, number> = {
+      LEFT_X: axes.LEFT_X, LEFT_Y: axes.LEFT_Y, LEFT_PINCH: axes.LEFT_PINCH,
+      RIGHT_X: axes.RIGHT_X, RIGHT_Y: axes.RIGHT_Y, RIGHT_PINCH: axes.RIGHT_PINCH,
+      SMILE: face.smile, MOUTH_OPEN: face.mouthOpen, BROW_DOWN: face.browDown,
+    };
+    for (const { source, channel, controller } of config.outputs) {
+      const value = byte(values[source] * 127);
+      const key = `${channel}:${controller}`;
+      if (this.lastValues.get(key) === value) continue;
+      this.lastValues.set(key, value);
+      messages.push(controlChange(channel, controller, value));
+    }
+
+    for (const voice of ['bass', 'lead'] as const) {
+      const reading = config.notes.enabled ? notes[voice] : null;
+      const channel = voice === 'bass' ? config.notes.bassChannel : config.notes.leadChannel;
+      const next = reading ? { channel, note: reading.midi } : null;
+      const current = this.playing[voice];
+      if (current && next && current.channel === next.channel && current.note === next.note) continue;
+      if (current) messages.push(noteOff(current.channel, current.note));
+      if (next) messages.push(noteOn(next.channel, next.note, config.notes.velocity));
+      this.playing[voice] = next;
+    }
+    return messages;
+  }
+
+  // Note offs for anything sounding, and CCs resent on the next frame
+  reset(): number[][] {
+    const messages = (['bass', 'lead'] as const)
+      .map(voice => this.playing[voice])
+      .filter((p): p is { channel: number; note: number } => p !== null)
+      .map(p => noteOff(p.channel, p.note));
+    this.playing = { bass: null, lead: null };
+    this.lastValues.clear();
+    return messages;
+  }
+}
+
+// --- Storage (localStorage) ---
+
+const MIDI_KEY = 'scs-midi';
+
+// An integer from 0 to max, or the fallback
+const intTo = (v: unknown, fallback: number, max: number) =>
+  typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= max ? v : fallback;
+
+const sanitizeSource = (raw: unknown): MidiSource | null => {
+  const src = asRecord(raw);
+  if (src.type !== 'cc' && src.type !== 'note') return null;
+  const channel = intTo(src.channel, -1, 15);
+  const number = intTo(src.number, -1, 127);
+  return channel >= 0 && number >= 0 ? { type: src.type, channel, number } : null;
+};
+
+// The known target with exactly these fields
+const sanitizeTarget = (raw: unknown): MidiTarget | null => {
+  const src = asRecord(raw);
+  return MIDI_TARGETS.find(({ target }) => Object.entries(target).every(([k, v]) => src[k] === v))?.target ?? null;
+};
+
+const sanitizeInput = (raw: unknown): InputMapping[] => {
+  const src = asRecord(raw);
+  const target = sanitizeTarget(src.target);
+  return target ? [{ source: sanitizeSource(src.source), target }] : [];
+};
+
+const sanitizeOutput = (raw: unknown): OutputMapping[] => {
+  const src = asRecord(raw);
+  return OUTPUT_SOURCES.includes(src.source as OutputSource)
+    ? [{ source: src.source as OutputSource, channel: intTo(src.channel, 0, 15), controller: intTo(src.controller, 20, 127) }]
+    : [];
+};
+
+export const sanitizeMidiConfig = (raw: unknown): MidiConfig => {
+  const src = asRecord(raw);
+  const d = DEFAULT_MIDI_CONFIG;
+  const notes = asRecord(src.notes);
+  return {
+    inputId: typeof src.inputId === 'string' ? src.inputId : null,
+    outputId: typeof src.outputId === 'string' ? src.outputId : null,
+    inputs: Array.isArray(src.inputs) ? src.inputs.flatMap(sanitizeInput) : d.inputs,
+    outputs: Array.isArray(src.outputs) ? src.outputs.flatMap(sanitizeOutput) : d.outputs.map(o => ({ ...o })),
+    notes: {
+      enabled: typeof notes.enabled === 'boolean' ? notes.enabled : d.notes.enabled,
+      bassChannel: intTo(notes.bassChannel, d.notes.bassChannel, 15),
+      leadChannel: intTo(notes.leadChannel, d.notes.leadChannel, 15),
+      velocity: intTo(notes.velocity, d.notes.velocity, 127),
+    },
+  };
+};
+
+export const loadMidiConfig = (): MidiConfig => {
+  try {
+    return sanitizeMidiConfig(JSON.parse(localStorage.getItem(MIDI_KEY) || '{}'));
+  } catch {
+    return sanitizeMidiConfig({});
+  }
+};
+
+export const saveMidiConfig = (config: MidiConfig) => {
+  localStorage.setItem(MIDI_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InputData } from './HandTracker';
+import { getThereminNotes } from './Theremin';
+import {
+  MidiAccess, MidiAction, MidiConfig, MidiPort, InputMapping, OutputMapping, OutputSource,
+  MIDI_TARGETS, OUTPUT_SOURCES, MidiInputRouter, MidiOutputSender,
+  requestWebMidi, getMidiAccess, setMidiAccess, onMidiAccess, parseMidiMessage, sourceOf,
+  describeMessage, describeSource, targetKey, loadMidiConfig, saveMidiConfig
+} from './Midi';
+
+interface Props {
+  inputDataRef: React.MutableRefObject<InputData>;
+  onAction: (action: MidiAction) => void;
+}
+
+const FIELD = 'bg-black/50 border border-gray-600 rounded px-1 py-0.5 text-white';
+const SMALL_BUTTON = 'px-2 py-0.5 border border-gray-600 rounded hover:text-white hover:border-white';
+
+// Channel picker, 1-16 on screen for 0-15 in the config
+const ChannelSelect = ({ value, onChange }: { value: number; onChange: (v: number) => void }) => (
+  <select value={value} onChange={(e) => onChange(Number(e.target.value))} className={FIELD}>
+    {Array.from({ length: 16 }, (_, i) => <option key={i} value={i}>ch {i + 1}</option>)}
+  </select>
+);
+
+const NumberField = ({ value, onChange }: { value: number; onChange: (v: number) => void }) => (
+  <input
+    type="number"
+    min={0}
+    max={127}
+    value={value}
+    onChange={(e) => onChange(Math.min(Math.max(Math.round(Number(e.target.value) || 0), 0), 127))}
+    className={`${FIELD} w-12`}
+  />
+);
+
+// Collapsible MIDI setup: ports, controller mappings with MIDI learn, and the
+// CCs and notes sent out to a synth or DAW
+const MidiPanel: React.FC<Props> = ({ inputDataRef, onAction }) => {
+  const [open, setOpen] = useState(false);
+  const [config, setConfig] = useState<MidiConfig>(loadMidiConfig);
+  const [access, setAccess] = useState<MidiAccess | null>(getMidiAccess);
+  const [ports, setPorts] = useState<{ inputs: MidiPort[]; outputs: MidiPort[] }>({ inputs: [], outputs: [] });
+  const [error, setError] = useState<string | null>(null);
+  const [lastMessage, setLastMessage] = useState<string | null>(null);
+  // Index of the input mapping waiting for a control to be moved
+  const [learning, setLearning] = useState<number | null>(null);
+
+  useEffect(() => saveMidiConfig(config), [config]);
+  useEffect(() => onMidiAccess(setAccess), []);
+
+  // Listeners below outlive renders; they read the latest values from refs
+  const configRef = useRef(config);
+  configRef.current = config;
+  const learningRef = useRef(learning);
+  learningRef.current = learning;
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+
+  const enable = () => {
+    setError(null);
+    requestWebMidi()
+      .then(setMidiAccess)
+      .catch(e => setError(e instanceof Error ? e.message : String(e)));
+  };
+
+  // Ports
+  useEffect(() => {
+    if (!access) return;
+    const refresh = () => setPorts({ inputs: access.inputs(), outputs: access.outputs() });
+    refresh();
+    return access.onPortsChange(refresh);
+  }, [access]);
+
+  // Incoming messages: learn, or route to actions
+  useEffect(() => {
+    if (!access) return;
+    const router = new MidiInputRouter();
+    return access.onMessage((data, inputId) => {
+      const message = parseMidiMessage(data);
+      if (!message) return;
+      setLastMessage(describeMessage(message));
+
+      const index = learningRef.current;
+      const source = sourceOf(message);
+      if (index !== null && source) {
+        setConfig(current => ({
+          ...current,
+          inputs: current.inputs.map((m, i) => (i === index ? { ...m, source } : m)),
+        }));
+        setLearning(null);
+        return;
+      }
+      router.route(configRef.current, message, inputId).forEach(action => onActionRef.current(action));
+    });
+  }, [access]);
+
+  // Outgoing CCs and notes, once a frame
+  const outputId = config.outputId;
+  useEffect(() => {
+    if (!access || !outputId) return;
+    const sender = new MidiOutputSender();
+    let frame = 0;
+    const loop = () => {
+      sender.frame(configRef.current, inputDataRef.current, getThereminNotes())
+        .forEach(data => access.send(outputId, data));
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    return () => {
+      cancelAnimationFrame(frame);
+      sender.reset().forEach(data => access.send(outputId, data));
+    };
+  }, [access, outputId, inputDataRef]);
+
+  const set = (patch: Partial<MidiConfig>) => setConfig(current => ({ ...current, ...patch }));
+
+  const setInput = (index: number, mapping: InputMapping) =>
+    set({ inputs: config.inputs.map((m, i) => (i === index ? mapping : m)) });
+
+  const removeInput = (index: number) => {
+    set({ inputs: config.inputs.filter((_, i) => i !== index) });
+    setLearning(null);
+  };
+
+  const addInput = () => {
+    set({ inputs: [...config.inputs, { source: null, target: MIDI_TARGETS[0].target }] });
+    setLearning(config.inputs.length);
+  };
+
+  const setOutput = (index: number, patch: Partial<OutputMapping>) =>
+    set({ outputs: config.outputs.map((m, i) => (i === index ? { ...m, ...patch } : m)) });
+
+  return (
+    <div className="fixed bottom-12 left-[23rem] z-20 w-80 rounded-lg border border-white/20 bg-black/70 backdrop-blur-md font-mono text-[11px] text-gray-300 pointer-events-auto">
+        <button
+            onClick={() => setOpen(!open)}
+            className="w-full flex justify-between px-3 py-2 text-white font-bold text-xs"
+        >
+            <span>MIDI</span>
+            <span>{open ? '▾' : '▸'}</span>
+        </button>
+
+        {open && (
+            <div className="px-3 pb-3 space-y-1 max-h-[60vh] overflow-y-auto">
+                {!access ? (
+                    <>
+                        <button onClick={enable} className={SMALL_BUTTON}>ENABLE MIDI</button>
+                        {error && <p className="text-red-400">{error}</p>}
+                    </>
+                ) : (
+                    <>
+                        <label className="flex items-center gap-2">
+                            <span className="w-16 shrink-0 text-gray-400">Input</span>
+                            <select
+                                value={config.inputId ?? ''}
+                                onChange={(e) => set({ inputId: e.target.value || null })}
+                                className={`flex-1 ${FIELD}`}
+                            >
+                                <option value="">All inputs</option>
+                                {ports.inputs.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <span className="w-16 shrink-0 text-gray-400">Output</span>
+                            <select
+                                value={config.outputId ?? ''}
+                                onChange={(e) => set({ outputId: e.target.value || null })}
+                                className={`flex-1 ${FIELD}`}
+                            >
+                                <option value="">None</option>
+                                {ports.outputs.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                        </label>
+                        <p className="text-gray-500 truncate">Last: {lastMessage ?? '—'}</p>
+
+                        <p className="text-white pt-2">Controls</p>
+                        {config.inputs.map((mapping, i) => (
+                            <div key={i} className="flex items-center gap-1">
+                                <select
+                                    value={targetKey(mapping.target)}
+                                    onChange={(e) => setInput(i, { ...mapping, target: MIDI_TARGETS.find(t => targetKey(t.target) === e.target.value)!.target })}
+                                    className={`flex-1 min-w-0 ${FIELD}`}
+                                >
+                                    {MIDI_TARGETS.map(t => <option key={targetKey(t.target)} value={targetKey(t.target)}>{t.label}</option>)}
+                                </select>
+                                <button
+                                    onClick={() => setLearning(learning === i ? null : i)}
+                                    className={`w-24 shrink-0 ${SMALL_BUTTON} ${learning === i ? 'text-black bg-white border-white' : ''}`}
+                                    title="Click, then move a knob or press a key on the controller"
+                                >
+                                    {learning === i ? 'LEARNING…' : mapping.source ? describeSource(mapping.source) : 'LEARN'}
+                                </button>
+                                <button onClick={() => removeInput(i)} className="text-gray-500 hover:text-red-400">✕</button>
+                            </div>
+                        ))}
+                        <button onClick={addInput} className={SMALL_BUTTON}>+ ADD</button>
+
+                        <p className="text-white pt-2">Send CC</p>
+                        {config.outputs.map((mapping, i) => (
+                            <div key={i} className="flex items-center gap-1">
+                                <select
+                                    value={mapping.source}
+                                    onChange={(e) => setOutput(i, { source: e.target.value as OutputSource })}
+                                    className={`flex-1 min-w-0 ${FIELD}`}
+                                >
+                                    {OUTPUT_SOURCES.map(s => <option key={s} value={s}>{s.replace('_', ' ')}</option>)}
+                                </select>
+                                <ChannelSelect value={mapping.channel} onChange={(channel) => setOutput(i, { channel })} />
+                                <span className="text-gray-500">CC</span>
+                                <NumberField value={mapping.controller} onChange={(controller) => setOutput(i, { controller })} />
+                                <button
+                                    onClick={() => set({ outputs: config.outputs.filter((_, j) => j !== i) })}
+                                    className="text-gray-500 hover:text-red-400"
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => set({ outputs: [...config.outputs, { source: OUTPUT_SOURCES[0], channel: 0, controller: 20 + config.outputs.length }] })}
+                            className={SMALL_BUTTON}
+                        >
+                            + ADD
+                        </button>
+
+                        <p className="text-white pt-2">Theremin notes</p>
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={config.notes.enabled}
+                                onChange={(e) => set({ notes: { ...config.notes, enabled: e.target.checked } })}
+                            />
+                            <span className="text-gray-400">Send the hands' notes in THEREMIN mode</span>
+                        </label>
+                        <div className="flex items-center gap-1">
+                            <span className="text-gray-400">L</span>
+                            <ChannelSelect value={config.notes.bassChannel} onChange={(bassChannel) => set({ notes: { ...config.notes, bassChannel } })} />
+                            <span className="text-gray-400 pl-1">R</span>
+                            <ChannelSelect value={config.notes.leadChannel} onChange={(leadChannel) => set({ notes: { ...config.notes, leadChannel } })} />
+                            <span className="text-gray-400 pl-1">vel</span>
+                            <NumberField value={config.notes.velocity} onChange={(velocity) => set({ notes: { ...config.notes, velocity } })} />
+                        </div>
+                    </>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default MidiPanel;
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { Emotion, EMOTIONS } from './EmotionState';
+import {
+  PaletteSet, EmotionPalettes, BUILTIN_PALETTES, DEFAULT_EMOTION_PALETTES,
+  isBuiltinPalette, uniquePaletteName, resolveEmotionPalettes
+} from './Palettes';
+import {
+  NamedPalette, importPaletteFile, parseCoolors, serializePaletteJson, serializeAse, toCoolorsUrl
+} from './PaletteFormats';
+import { downloadBlob } from './Download';
+
+interface Props {
+  customPalettes: PaletteSet;
+  emotionPalettes: EmotionPalettes;
+  onChangePalettes: (palettes: PaletteSet) => void;
+  onChangeEmotionPalettes: (mapping: EmotionPalettes) => void;
+  onClose: () => void;
+}
+
+const EMOTION_LABELS: Record<Emotion, string> = {
+  DEFAULT: 'Neutral',
+  JOY: 'Smile',
+  SURPRISE: 'Open Mouth',
+  MOODY: 'Frown',
+};
+
+const MAX_COLORS = 16;
+
+const fileSafe = (name: string) => name.replace(/[^\w-]+/g, '_');
+
+// Edit custom palettes, map palettes to emotions, and import/export
+// palettes as JSON, ASE swatches, coolors URLs or from a dropped image
+const PaletteEditor: React.FC<Props> = ({
+  customPalettes, emotionPalettes, onChangePalettes, onChangeEmotionPalettes, onClose
+}) => {
+  const palettes: PaletteSet = { ...BUILTIN_PALETTES, ...customPalettes };
+  const [selected, setSelected] = useState<string>(emotionPalettes.DEFAULT);
+  const [coolors, setCoolors] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const current = palettes[selected] ?? BUILTIN_PALETTES.DEFAULT;
+  const editable = !isBuiltinPalette(selected) && selected in customPalettes;
+
+  // Every change goes through here so mappings never point at a missing palette
+  const commit = (next: PaletteSet, select?: string) => {
+    onChangePalettes(next);
+    onChangeEmotionPalettes(resolveEmotionPalettes(emotionPalettes, { ...BUILTIN_PALETTES, ...next }));
+    if (select) setSelected(select);
+  };
+
+  const addPalettes = (imported: NamedPalette[]) => {
+    const next = { ...customPalettes };
+    let last = '';
+    for (const p of imported) {
+      last = uniquePaletteName({ ...BUILTIN_PALETTES, ...next }, p.name);
+      next[last] = p.colors.slice(0, MAX_COLORS);
+    }
+    commit(next, last);
+    setMessage({ text: `Imported ${imported.map(p => p.name).join(', ')}`, error: false });
+  };
+
+  const setColors = (colors: string[]) => commit({ ...customPalettes, [selected]: colors });
+
+  const rename = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === selected) return;
+    const newName = uniquePaletteName(palettes, trimmed);
+    const next: PaletteSet = {};
+    for (const [key, colors] of Object.entries(customPalettes)) next[key === selected ? newName : key] = colors;
+    onChangePalettes(next);
+    const mapping = { ...emotionPalettes };
+    for (const e of EMOTIONS) if (mapping[e] === selected) mapping[e] = newName;
+    onChangeEmotionPalettes(mapping);
+    setSelected(newName);
+  };
+
+  const duplicate = () => {
+    const name = uniquePaletteName(palettes, `${selected} copy`);
+    commit({ ...customPalettes, [name]: [...current] }, name);
+  };
+
+  const remove = () => {
+    const next = { ...customPalettes };
+    delete next[selected];
+    commit(next, 'DEFAULT');
+  };
+
+  const importFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    try {
+      const imported = (await Promise.all(Array.from(files).map(importPaletteFile))).flat();
+      addPalettes(imported);
+    } catch (e) {
+      setMessage({ text: `Import failed: ${e instanceof Error ? e.message : e}`, error: true });
+    }
+  };
+
+  const importCoolors = () => {
+    try {
+      addPalettes([{ name: 'Coolors', colors: parseCoolors(coolors) }]);
+      setCoolors('');
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), error: true });
+    }
+  };
+
+  const copyCoolors = () => {
+    const url = toCoolorsUrl(current);
+    navigator.clipboard?.writeText(url)
+      .then(() => setMessage({ text: 'Coolors URL copied', error: false }))
+      .catch(() => setMessage({ text: url, error: false }));
+  };
+
+  const palette: NamedPalette = { name: selected, colors: current };
+
+  return (
+    <div
+      className={`fixed top-24 right-4 z-30 w-96 max-h-[80vh] overflow-y-auto rounded-lg border bg-black/80 backdrop-blur-md p-4 font-mono text-xs text-gray-300 pointer-events-auto ${dragging ? 'border-cyan-400' : 'border-white/20'}`}
+      onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => { e.preventDefault(); setDragging(false); importFiles(e.dataTransfer.files); }}
+    >
+        <div className="flex justify-between items-center mb-3">
+            <span className="font-bold text-white text-sm">Palettes</span>
+            <button onClick={onClose} className="text-gray-500 hover:text-white">✕</button>
+        </div>
+
+        <select
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+            className="w-full bg-black/50 border border-gray-600 rounded px-2 py-1 text-white mb-2"
+        >
+            {Object.keys(palettes).map(name => (
+                <option key={name} value={name}>{name}{isBuiltinPalette(name) ? ' (built-in)' : ''}</option>
+            ))}
+        </select>
+
+        {editable && (
+            <input
+                key={selected}
+                defaultValue={selected}
+                onBlur={(e) => rename(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="w-full bg-black/50 border border-gray-600 rounded px-2 py-1 text-white mb-2"
+            />
+        )}
+
+        <div className="flex flex-wrap gap-1 mb-2">
+            {current.map((color, i) => (
+                <div key={i} className="relative group">
+                    {editable ? (
+                        <input
+                            type="color"
+                            value={color}
+                            onChange={(e) => setColors(current.map((c, k) => (k === i ? e.target.value.toUpperCase() : c)))}
+                            className="w-10 h-10 bg-transparent cursor-pointer"
+                        />
+                    ) : (
+                        <div className="w-10 h-10 rounded" style={{ background: color }} title={color} />
+                    )}
+                    {editable && current.length > 1 && (
+                        <button
+                            onClick={() => setColors(current.filter((_, k) => k !== i))}
+                            className="absolute -top-1 -right-1 hidden group-hover:block bg-black rounded-full w-4 h-4 leading-4 text-[10px]"
+                        >
+                            ✕
+                        </button>
+                    )}
+                </div>
+            ))}
+            {editable && current.length < MAX_COLORS && (
+                <button
+                    onClick={() => setColors([...current, current[current.length - 1]])}
+                    className="w-10 h-10 rounded border border-dashed border-gray-600 hover:text-white hover:border-white"
+                >
+                    +
+                </button>
+            )}
+        </div>
+
+        <div className="flex flex-wrap gap-1 mb-3">
+            <button onClick={duplicate} className="px-2 py-0.5 border border-gray-600 rounded hover:text-white hover:border-white">
+                {editable ? 'DUPLICATE' : 'DUPLICATE TO EDIT'}
+            </button>
+            {editable && (
+                <button onClick={remove} className="px-2 py-0.5 border border-gray-600 rounded hover:text-red-400 hover:border-red-400">DELETE</button>
+            )}
+        </div>
+
+        <p className="text-white mb-1">Export</p>
+        <div className="flex flex-wrap gap-1 mb-3">
+            <button
+                onClick={() => downloadBlob(new Blob([serializePaletteJson(palette)], { type: 'application/json' }), `${fileSafe(selected)}.json`)}
+                className="px-2 py-0.5 border border-gray-600 rounded hover:text-white hover:border-white"
+            >
+                JSON
+            </button>
+            <button
+                onClick={() => downloadBlob(new Blob([serializeAse(palette)], { type: 'application/octet-stream' }), `${fileSafe(selected)}.ase`)}
+                className="px-2 py-0.5 border border-gray-600 rounded hover:text-white hover:border-white"
+            >
+                ASE
+            </button>
+            <button onClick={copyCoolors} className="px-2 py-0.5 border border-gray-600 rounded hover:text-white hover:border-white">
+                COOLORS URL
+            </button>
+        </div>
+
+        <p className="text-white mb-1">Import</p>
+        <label className="block mb-1 px-2 py-2 border border-dashed border-gray-600 rounded text-center cursor-pointer hover:text-white hover:border-white">
+            Drop or choose .json / .ase / image
+            <input
+                type="file"
+                accept=".json,.ase,image/*"
+                multiple
+                className="hidden"
+                onChange={(e) => { importFiles(e.target.files); e.target.value = ''; }}
+            />
+        </label>
+        <div className="flex gap-1 mb-2">
+            <input
+                value={coolors}
+                onChange={(e) => setCoolors(e.target.value)}
+                placeholder="https://coolors.co/..."
+                className="flex-1 bg-black/50 border border-gray-600 rounded px-2 py-0.5 text-white"
+            />
+            <button onClick={importCoolors} className="px-2 border border-gray-600 rounded hover:text-white hover:border-white">ADD</button>
+        </div>
+        {message && <p className={`mb-2 break-all ${message.error ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>}
+
+        <p className="text-white mb-1 mt-3">Emotions</p>
+        {EMOTIONS.map(e => (
+            <label key={e} className="flex items-center gap-2 mb-1">
+                <span className="w-24 text-gray-400">{EMOTION_LABELS[e]}</span>
+                <select
+                    value={emotionPalettes[e]}
+                    onChange={(ev) => onChangeEmotionPalettes({ ...emotionPalettes, [e]: ev.target.value })}
+                    className="flex-1 bg-black/50 border border-gray-600 rounded px-2 py-0.5 text-white"
+                >
+                    {Object.keys(palettes).map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+            </label>
+        ))}
+        <button
+            onClick={() => onChangeEmotionPalettes({ ...DEFAULT_EMOTION_PALETTES })}
+            className="mt-1 px-2 py-0.5 border border-gray-600 rounded hover:text-white hover:border-white"
+        >
+            RESET MAPPING
+        </button>
+    </div>
+  );
+};
+
+export default PaletteEditor;
@@ -0,0 +1,251 @@
+import { normalizeHex } from './Palettes';
+import { asRecord } from './Sanitize';
+
+export type NamedPalette = {
+  name: string;
+  colors: string[];
+};
+
+const toHex = (r: number, g: number, b: number) =>
+  '#' + [r, g, b].map(v => Math.round(Math.min(Math.max(v, 0), 1) * 255).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const fromHex = (hex: string) => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255].map(v => v / 255);
+};
+
+const validColors = (colors: unknown[]) =>
+  colors.map(c => normalizeHex(String(c))).filter((c): c is string => c !== null);
+
+// --- JSON ---
+// Accepts { name, colors }, a list of those, { palettes: [...] } or a bare hex array
+
+export const serializePaletteJson = (palette: NamedPalette) =>
+  JSON.stringify({ name: palette.name, colors: palette.colors }, null, 2);
+
+export const parsePaletteJson = (text: string, fallbackName: string): NamedPalette[] => {
+  const data: unknown = JSON.parse(text);
+  const wrapped = asRecord(data).palettes;
+  const entries: unknown[] = Array.isArray(data) && data.every(c => typeof c === 'string')
+    ? [{ name: fallbackName, colors: data }]
+    : Array.isArray(data) ? data : Array.isArray(wrapped) ? wrapped : [data];
+
+  const palettes = entries.flatMap((raw: unknown, i) => {
+    const entry = asRecord(raw);
+    if (!Array.isArray(entry.colors)) return [];
+    const colors = validColors(entry.colors);
+    const name = typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : `${fallbackName} ${i + 1}`;
+    return colors.length > 0 ? [{ name, colors }] : [];
+  });
+  if (palettes.length === 0) throw new Error("No palettes found in JSON");
+  return palettes;
+};
+
+// --- Coolors-style URLs ---
+// e.g. https://coolors.co/264653-2a9d8f-e9c46a or just "264653-2a9d8f-e9c46a"
+
+export const toCoolorsUrl = (colors: string[]) =>
+  `https://coolors.co/${colors.map(c => c.slice(1).toLowerCase()).join('-')}`;
+
+export const parseCoolors = (text: string): string[] => {
+  const path = text.trim().split(/[?#]/)[0].replace(/\/+$/, '');
+  const segment = path.slice(path.lastIndexOf('/') + 1);
+  const parts = segment.split('-');
+  const colors = validColors(parts);
+  if (parts.length < 2 || colors.length !== parts.length) throw new Error("Not a coolors palette URL");
+  return colors;
+};
+
+// --- Adobe Swatch Exchange (.ase) ---
+// Big-endian: "ASEF", version 1.0, block count, then blocks of
+// [type u16][length u32][payload]. Groups become palettes.
+
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR = 0x0001;
+
+const labToRgb = (l: number, a: number, b: number) => {
+  // CIE L*a*b* (D50) -> XYZ -> linear sRGB -> sRGB
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const f = (t: number) => (t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787);
+  const x = 0.9642 * f(fx), y = f(fy), z = 0.8249 * f(fz);
+  const lin = [
+    3.1338561 * x - 1.6168667 * y - 0.4906146 * z,
+    -0.9787684 * x + 1.9161415 * y + 0.0334540 * z,
+    0.0719453 * x - 0.2289914 * y + 1.4052427 * z,
+  ];
+  const [r, g, bl] = lin.map(c => (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055));
+  return toHex(r, g, bl);
+};
+
+export const parseAse = (buffer: ArrayBuffer, fallbackName: string): NamedPalette[] => {
+  const view = new DataView(buffer);
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...new Uint8Array(buffer, offset, length));
+  if (buffer.byteLength < 12 || ascii(0, 4) !== 'ASEF') throw new Error("Not an ASE file");
+
+  const readName = (offset: number) => {
+    const length = view.getUint16(offset); // UTF-16 code units including the terminator
+    let name = '';
+    for (let i = 0; i < length - 1; i++) name += String.fromCharCode(view.getUint16(offset + 2 + i * 2));
+    return { name, next: offset + 2 + length * 2 };
+  };
+
+  const palettes: NamedPalette[] = [];
+  const loose: string[] = [];
+  let group: NamedPalette | null = null;
+
+  const blockCount = view.getUint32(8);
+  let offset = 12;
+  for (let i = 0; i < blockCount && offset + 6 <= buffer.byteLength; i++) {
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const body = offset + 6;
+
+    if (type === ASE_GROUP_START) {
+      group = { name: readName(body).name || fallbackName, colors: [] };
+      palettes.push(group);
+    } else if (type === ASE_GROUP_END) {
+      group = null;
+    } else if (type === ASE_COLOR) {
+      let p = readName(body).next;
+      const model = ascii(p, 4);
+      p += 4;
+      const v = (k: number) => view.getFloat32(p + k * 4);
+      let hex: string | null = null;
+      if (model === 'RGB ') hex = toHex(v(0), v(1), v(2));
+      else if (model === 'CMYK') hex = toHex((1 - v(0)) * (1 - v(3)), (1 - v(1)) * (1 - v(3)), (1 - v(2)) * (1 - v(3)));
+      else if (model === 'Gray') hex = toHex(v(0), v(0), v(0));
+      else if (model === 'LAB ') hex = labToRgb(v(0) * 100, v(1), v(2));
+      if (hex) (group ? group.colors : loose).push(hex);
+    }
+    offset = body + length;
+  }
+
+  if (loose.length > 0) palettes.unshift({ name: fallbackName, colors: loose });
+  const result = palettes.filter(p => p.colors.length > 0);
+  if (result.length === 0) throw new Error("No colors found in ASE file");
+  return result;
+};
+
+export const serializeAse = (palette: NamedPalette): ArrayBuffer => {
+  const nameBytes = (name: string) => 2 + (name.length + 1) * 2;
+  const colorName = (i: number) => `${palette.name} ${i + 1}`;
+
+  let size = 12 + 6 + nameBytes(palette.name) + 6;
+  palette.colors.forEach((_, i) => { size += 6 + nameBytes(colorName(i)) + 4 + 12 + 2; });
+
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  let p = 0;
+  const u16 = (v: number) => { view.setUint16(p, v); p += 2; };
+  const u32 = (v: number) => { view.setUint32(p, v); p += 4; };
+  const f32 = (v: number) => { view.setFloat32(p, v); p += 4; };
+  const ascii = (s: string) => { for (const ch of s) view.setUint8(p++, ch.charCodeAt(0)); };
+  const name = (s: string) => { u16(s.length + 1); for (const ch of s) u16(ch.charCodeAt(0)); u16(0); };
+
+  ascii('ASEF');
+  u16(1); u16(0);
+  u32(palette.colors.length + 2);
+
+  u16(ASE_GROUP_START); u32(nameBytes(palette.name)); name(palette.name);
+  palette.colors.forEach((hex, i) => {
+    u16(ASE_COLOR); u32(nameBytes(colorName(i)) + 4 + 12 + 2);
+    name(colorName(i));
+    ascii('RGB ');
+    fromHex(hex).forEach(f32);
+    u16(2); // Normal (non-global, non-spot) color
+  });
+  u16(ASE_GROUP_END); u32(0);
+
+  return buffer;
+};
+
+// --- Image Extraction ---
+
+/**
+ * Median cut over RGBA pixels: repeatedly split the box with the widest
+ * channel range near its median, then average each box. Returns up to
+ * `count` colors, most common first. Transparent pixels are ignored.
+ */
+export const extractPalette = (pixels: ArrayLike<number>, count = 5): string[] => {
+  const samples: number[][] = [];
+  for (let i = 0; i + 3 < pixels.length; i += 4) {
+    if (pixels[i + 3] >= 128) samples.push([pixels[i], pixels[i + 1], pixels[i + 2]]);
+  }
+  if (samples.length === 0) return [];
+
+  const range = (box: number[][], c: number) => {
+    let min = 255, max = 0;
+    for (const px of box) { min = Math.min(min, px[c]); max = Math.max(max, px[c]); }
+    return max - min;
+  };
+  const widest = (box: number[][]) => [0, 1, 2].reduce((best, c) => (range(box, c) > range(box, best) ? c : best), 0);
+
+  const boxes = [samples];
+  while (boxes.length < count) {
+    let index = -1, bestRange = 0;
+    boxes.forEach((box, i) => {
+      const r = box.length > 1 ? range(box, widest(box)) : 0;
+      if (r > bestRange) { bestRange = r; index = i; }
+    });
+    if (index < 0) break; // Every box is a single color
+
+    const box = boxes[index];
+    const c = widest(box);
+    box.sort((a, b) => a[c] - b[c]);
+    // Split where the value changes so identical colors stay in one box
+    const median = box[Math.floor(box.length / 2)][c];
+    let mid = box.findIndex(px => px[c] >= median);
+    if (mid === 0) mid = box.findIndex(px => px[c] > median);
+    boxes.splice(index, 1, box.slice(0, mid), box.slice(mid));
+  }
+
+  return boxes
+    .sort((a, b) => b.length - a.length)
+    .map(box => {
+      const sum = box.reduce((acc, px) => [acc[0] + px[0], acc[1] + px[1], acc[2] + px[2]], [0, 0, 0]);
+      return toHex(sum[0] / box.length / 255, sum[1] / box.length / 255, sum[2] / box.length / 255);
+    });
+};
+
+const IMAGE_SAMPLE_SIZE = 96;
+
+export const paletteFromImage = async (file: Blob, count = 5): Promise<string[]> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, IMAGE_SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return extractPalette(ctx.getImageData(0, 0, canvas.width, canvas.height).data, count);
+};
+
+// --- File Import ---
+
+export const importPaletteFile = async (file: File): Promise<NamedPalette[]> => {
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'Imported';
+
+  if (file.type.startsWith('image/')) {
+    const colors = await paletteFromImage(file);
+    if (colors.length === 0) throw new Error("Image has no opaque pixels");
+    return [{ name: baseName, colors }];
+  }
+
+  const buffer = await file.arrayBuffer();
+  const head = String.fromCharCode(...new Uint8Array(buffer.slice(0, 4)));
+  if (head === 'ASEF') return parseAse(buffer, baseName);
+
+  const text = new TextDecoder().decode(buffer);
+  try {
+    return parsePaletteJson(text, baseName);
+  } catch (e) {
+    if (e instanceof SyntaxError) return [{ name: baseName, colors: parseCoolors(text) }];
+    throw e;
+  }
+};
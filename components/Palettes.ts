@@ -0,0 +1,83 @@
+import { PALETTES } from '../constants';
+import { Emotion, EMOTIONS } from './EmotionState';
+
+// Palette name -> hex colors. Built-ins come from constants.ts, custom
+// palettes are created in the editor or imported and live in localStorage.
+export type PaletteSet = Record<string, string[]>;
+
+// Which palette each emotion shows; DEFAULT is the neutral palette that
+// swiping cycles through
+export type EmotionPalettes = Record<Emotion, string>;
+
+export const BUILTIN_PALETTES: PaletteSet = PALETTES;
+
+export const DEFAULT_EMOTION_PALETTES: EmotionPalettes = {
+  DEFAULT: 'DEFAULT',
+  JOY: 'JOY',
+  SURPRISE: 'SURPRISE',
+  MOODY: 'MOODY',
+};
+
+export const isBuiltinPalette = (name: string) => name in BUILTIN_PALETTES;
+
+export const normalizeHex = (value: string): string | null => {
+  const m = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!m) return null;
+  const hex = m[1].length === 3 ? m[1].split('').map(c => c + c).join('') : m[1];
+  return `#${hex.toUpperCase()}`;
+};
+
+// Appends a counter until the name is free
+export const uniquePaletteName = (palettes: PaletteSet, base: string) => {
+  const name = base.trim() || 'Palette';
+  if (!(name in palettes)) return name;
+  let i = 2;
+  while (`${name} ${i}` in palettes) i++;
+  return `${name} ${i}`;
+};
+
+// Falls back to the emotion's built-in palette if the mapped one was deleted
+export const resolveEmotionPalettes = (mapping: Partial<EmotionPalettes>, palettes: PaletteSet): EmotionPalettes => {
+  const resolved = { ...DEFAULT_EMOTION_PALETTES };
+  for (const e of EMOTIONS) {
+    const name = mapping[e];
+    if (name && palettes[name]?.length) resolved[e] = name;
+  }
+  return resolved;
+};
+
+// --- Storage (localStorage) ---
+
+const PALETTES_KEY = 'scs-palettes';
+const MAPPING_KEY = 'scs-emotion-palettes';
+
+export const loadCustomPalettes = (): PaletteSet => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PALETTES_KEY) || '{}');
+    const palettes: PaletteSet = {};
+    for (const [name, colors] of Object.entries(stored)) {
+      if (isBuiltinPalette(name) || !Array.isArray(colors)) continue;
+      const valid = colors.map(c => normalizeHex(String(c))).filter((c): c is string => c !== null);
+      if (valid.length > 0) palettes[name] = valid;
+    }
+    return palettes;
+  } catch {
+    return {};
+  }
+};
+
+export const saveCustomPalettes = (palettes: PaletteSet) => {
+  localStorage.setItem(PALETTES_KEY, JSON.stringify(palettes));
+};
+
+export const loadEmotionPalettes = (palettes: PaletteSet): EmotionPalettes => {
+  try {
+    return resolveEmotionPalettes(JSON.parse(localStorage.getItem(MAPPING_KEY) || '{}'), palettes);
+  } catch {
+    return { ...DEFAULT_EMOTION_PALETTES };
+  }
+};
+
+export const saveEmotionPalettes = (mapping: EmotionPalettes) => {
+  localStorage.setItem(MAPPING_KEY, JSON.stringify(mapping));
+};
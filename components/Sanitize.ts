@@ -0,0 +1,91 @@
+import type { InputData, HandData, FaceData, Landmark } from './HandTracker';
+import type { GestureName } from './GestureClassifier';
+
+// Helpers for turning untrusted data (presets, shared links, files,
+// localStorage, bridge messages) into typed values. Each one falls back
+// rather than throwing.
+
+// A finite number clamped to the range, or the fallback
+export const clampTo = (v: unknown, fallback: number, { min, max }: { min: number; max: number }) =>
+  typeof v === 'number' && Number.isFinite(v) ? Math.min(Math.max(v, min), max) : fallback;
+
+// One of the options, or the fallback
+export const oneOf = <T extends string>(v: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(v as T) ? (v as T) : fallback;
+
+// The fields of a parsed JSON object; anything else has none
+export const asRecord = (v: unknown): Record<string, unknown> =>
+  (v && typeof v === 'object' && !Array.isArray(v) ? v : {}) as Record<string, unknown>;
+
+// --- Input data (bridge updates, session frames) ---
+// Only known fields of the right type survive, and numbers are clamped, so
+// nothing odd reaches the springs or shaders.
+
+const SIGNED = { min: -1, max: 1 };
+const UNIT = { min: 0, max: 1 };
+const LANDMARK_COUNT = 21;
+const GESTURE_NAMES: GestureName[] = ['none', 'open_palm', 'fist', 'point', 'peace', 'thumbs_up'];
+
+const finiteIn = (v: unknown, range: { min: number; max: number }) => {
+  const value = clampTo(v, NaN, range);
+  return Number.isNaN(value) ? undefined : value;
+};
+
+const sanitizeLandmarks = (raw: unknown): Landmark[] | undefined => {
+  if (!Array.isArray(raw) || raw.length !== LANDMARK_COUNT) return undefined;
+  const points = raw.map((p: unknown) => {
+    const { x, y, z } = asRecord(p);
+    return typeof x === 'number' && typeof y === 'number' && typeof z === 'number' ? { x, y, z } : null;
+  });
+  return points.every(p => p && Number.isFinite(p.x + p.y + p.z)) ? (points as Landmark[]) : undefined;
+};
+
+// The valid fields of a partial hand update
+export const sanitizeHandUpdate = (raw: unknown): Partial<HandData> => {
+  const src = asRecord(raw);
+  const patch: Partial<HandData> = {};
+  if (typeof src.present === 'boolean') patch.present = src.present;
+  const x = finiteIn(src.x, SIGNED);
+  const y = finiteIn(src.y, SIGNED);
+  const pinch = finiteIn(src.pinch, UNIT);
+  const handedness = finiteIn(src.handedness, UNIT);
+  if (x !== undefined) patch.x = x;
+  if (y !== undefined) patch.y = y;
+  if (pinch !== undefined) patch.pinch = pinch;
+  if (handedness !== undefined) patch.handedness = handedness;
+
+  const landmarks = sanitizeLandmarks(src.landmarks);
+  const worldLandmarks = sanitizeLandmarks(src.worldLandmarks);
+  if (landmarks) patch.landmarks = landmarks;
+  if (worldLandmarks) patch.worldLandmarks = worldLandmarks;
+
+  const gesture = asRecord(src.gesture);
+  const confidence = finiteIn(gesture.confidence, UNIT);
+  if (GESTURE_NAMES.includes(gesture.name as GestureName) && confidence !== undefined) {
+    patch.gesture = { name: gesture.name as GestureName, confidence };
+  }
+  return patch;
+};
+
+// The valid fields of a partial face update
+export const sanitizeFaceUpdate = (raw: unknown): Partial<FaceData> => {
+  const src = asRecord(raw);
+  const patch: Partial<FaceData> = {};
+  if (typeof src.present === 'boolean') patch.present = src.present;
+  for (const key of ['smile', 'mouthOpen', 'browDown'] as const) {
+    const value = finiteIn(src[key], UNIT);
+    if (value !== undefined) patch[key] = value;
+  }
+  return patch;
+};
+
+// A complete frame; missing hands and faces are absent, missing values neutral
+export const sanitizeInputData = (raw: unknown): InputData => {
+  const src = asRecord(raw);
+  const hands = asRecord(src.hands);
+  const hand = (side: unknown): HandData => ({ present: false, x: 0, y: 0, pinch: 0, ...sanitizeHandUpdate(side) });
+  return {
+    hands: { left: hand(hands.left), right: hand(hands.right) },
+    face: { present: false, smile: 0, mouthOpen: 0, browDown: 0, ...sanitizeFaceUpdate(src.face) },
+  };
+};
@@ -0,0 +1,88 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { SceneRecorder, SceneRecording, SceneSnapshot, SpotLightState, setSceneRecorder, MAX_RECORDED_SLICES } from './BlenderScript';
+import { takeSnapshot } from './SculptureExport';
+
+const lookAt = new THREE.Matrix4();
+const target = new THREE.Vector3();
+
+// Registers the SceneRecorder for the scene it's mounted in
+const SceneBridge: React.FC = () => {
+  const get = useThree(state => state.get);
+  const recordingRef = useRef<{ recording: SceneRecording; start: number; onFrame?: (frames: number) => void } | null>(null);
+
+  // Copies of everything the script needs; the sculpture comes rebuilt from ColorSlices
+  const snapshot = (): SceneSnapshot | null => {
+    const sculpture = takeSnapshot();
+    if (!sculpture) return null;
+    const { camera, scene, size } = get();
+
+    const lights: SpotLightState[] = [];
+    scene.traverse(object => {
+      if (!(object instanceof THREE.SpotLight)) return;
+      const position = object.getWorldPosition(new THREE.Vector3());
+      object.target.getWorldPosition(target);
+      lights.push({
+        position,
+        rotation: new THREE.Quaternion().setFromRotationMatrix(lookAt.lookAt(position, target, object.up)),
+        color: object.color.clone(),
+        intensity: object.intensity,
+        angle: object.angle,
+        penumbra: object.penumbra,
+        distance: object.distance,
+      });
+    });
+
+    return {
+      sculpture,
+      camera: {
+        position: camera.getWorldPosition(new THREE.Vector3()),
+        rotation: camera.getWorldQuaternion(new THREE.Quaternion()),
+        fov: camera instanceof THREE.PerspectiveCamera ? camera.fov : 50,
+        width: Math.round(size.width),
+        height: Math.round(size.height),
+      },
+      lights,
+      background: scene.background instanceof THREE.Color ? scene.background.clone() : new THREE.Color(0, 0, 0),
+    };
+  };
+
+  useEffect(() => {
+    const recorder: SceneRecorder = {
+      snapshot,
+      startRecording: (fps, onFrame) => {
+        recordingRef.current = { recording: { fps, frames: [] }, start: performance.now(), onFrame };
+      },
+      stopRecording: () => {
+        const recording = recordingRef.current?.recording ?? { fps: 24, frames: [] };
+        recordingRef.current = null;
+        return recording;
+      },
+    };
+    setSceneRecorder(recorder);
+    return () => setSceneRecorder(null);
+  }, [get]);
+
+  // Samples on the frames that reach the next keyframe; slow frames skip keys
+  // rather than squeezing time
+  useFrame(() => {
+    const active = recordingRef.current;
+    if (!active) return;
+    const { recording } = active;
+    const frame = 1 + Math.round((performance.now() - active.start) / 1000 * recording.fps);
+    const last = recording.frames[recording.frames.length - 1];
+    if (last && frame <= last.frame) return;
+
+    const slices = recording.frames.reduce((sum, f) => sum + f.scene.sculpture.transforms.count, 0);
+    if (slices >= MAX_RECORDED_SLICES) return;
+    const scene = snapshot();
+    if (!scene) return;
+    recording.frames.push({ frame, scene });
+    active.onFrame?.(recording.frames.length);
+  });
+
+  return null;
+};
+
+export default SceneBridge;
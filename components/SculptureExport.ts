@@ -0,0 +1,250 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { SliceTransforms } from './SculptureGenerator';
+import { MaterialMode } from '../App';
+
+// Freezing the sculpture into a mesh file: glTF/GLB, OBJ or STL.
+//
+// The slices only exist as uniforms and textures on the GPU. ColorSlices
+// registers a snapshot source here that rebuilds them on the CPU, and the
+// export controls hand a snapshot to one of the writers below.
+
+export type ExportFormat = 'GLB' | 'GLTF' | 'OBJ' | 'STL';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string }[] = [
+  { format: 'GLB', label: 'GLB', extension: 'glb' },
+  { format: 'GLTF', label: 'glTF', extension: 'gltf' },
+  { format: 'OBJ', label: 'OBJ', extension: 'obj' },
+  { format: 'STL', label: 'STL (print)', extension: 'stl' },
+];
+
+export type SculptureSnapshot = {
+  transforms: SliceTransforms; // Chain included
+  colors: Float32Array;        // Linear rgb per slice
+  radius: number;
+  tube: number;
+  material: MaterialMode;
+};
+
+let source: (() => SculptureSnapshot | null) | null = null;
+
+export const setSnapshotSource = (next: (() => SculptureSnapshot | null) | null) => {
+  source = next;
+};
+
+// The sculpture as it was last drawn, or null if nothing is mounted
+export const takeSnapshot = () => source?.() ?? null;
+
+// --- Tessellation ---
+
+// Same rings as on screen, coarsened for big stacks to stay within the budget
+const RADIAL_SEGMENTS = 16;
+const TUBULAR_SEGMENTS = 64;
+const MIN_RADIAL_SEGMENTS = 4;
+const MIN_TUBULAR_SEGMENTS = 8;
+const MAX_EXPORT_TRIANGLES = 2_000_000;
+
+export const torusSegments = (count: number) => {
+  const full = 2 * RADIAL_SEGMENTS * TUBULAR_SEGMENTS;
+  const f = Math.min(1, Math.sqrt(MAX_EXPORT_TRIANGLES / (Math.max(count, 1) * full)));
+  return {
+    radial: Math.max(MIN_RADIAL_SEGMENTS, Math.round(RADIAL_SEGMENTS * f)),
+    tubular: Math.max(MIN_TUBULAR_SEGMENTS, Math.round(TUBULAR_SEGMENTS * f)),
+  };
+};
+
+type Mesh = { positions: Float32Array; normals: Float32Array; indices: Uint32Array };
+
+/**
+ * Torus laid out like THREE.TorusGeometry (ring in the XY plane), but with
+ * the seams shared instead of duplicated, so every ring is a closed shell.
+ */
+export const createTorus = (radius: number, tube: number, radial: number, tubular: number): Mesh => {
+  const positions = new Float32Array(radial * tubular * 3);
+  const normals = new Float32Array(radial * tubular * 3);
+  const indices = new Uint32Array(radial * tubular * 6);
+
+  for (let j = 0; j < radial; j++) {
+    const v = j / radial * Math.PI * 2;
+    for (let i = 0; i < tubular; i++) {
+      const u = i / tubular * Math.PI * 2;
+      const p = (j * tubular + i) * 3;
+      positions[p] = (radius + tube * Math.cos(v)) * Math.cos(u);
+      positions[p + 1] = (radius + tube * Math.cos(v)) * Math.sin(u);
+      positions[p + 2] = tube * Math.sin(v);
+      normals[p] = Math.cos(v) * Math.cos(u);
+      normals[p + 1] = Math.cos(v) * Math.sin(u);
+      normals[p + 2] = Math.sin(v);
+    }
+  }
+
+  const index = (j: number, i: number) => (j % radial) * tubular + (i % tubular);
+  let k = 0;
+  for (let j = 1; j <= radial; j++) {
+    for (let i = 1; i <= tubular; i++) {
+      const a = index(j, i - 1);
+      const b = index(j - 1, i - 1);
+      const c = index(j - 1, i);
+      const d = index(j, i);
+      indices.set([a, b, d, b, c, d], k);
+      k += 6;
+    }
+  }
+  return { positions, normals, indices };
+};
+
+type BakedSlices = Mesh & {
+  colors: Float32Array;
+  verticesPerSlice: number;
+  trianglesPerSlice: number;
+};
+
+// Every slice's ring placed by its transform, in one set of buffers
+export const bakeSlices = (snapshot: SculptureSnapshot): BakedSlices => {
+  const { transforms, colors, radius, tube } = snapshot;
+  const { count } = transforms;
+  const { radial, tubular } = torusSegments(count);
+  const ring = createTorus(radius, tube, radial, tubular);
+  const verticesPerSlice = ring.positions.length / 3;
+  const trianglesPerSlice = ring.indices.length / 3;
+
+  const positions = new Float32Array(count * verticesPerSlice * 3);
+  const normals = new Float32Array(count * verticesPerSlice * 3);
+  const vertexColors = new Float32Array(count * verticesPerSlice * 3);
+  const indices = new Uint32Array(count * ring.indices.length);
+
+  const matrix = new THREE.Matrix4();
+  const normalMatrix = new THREE.Matrix3();
+  const position = new THREE.Vector3();
+  const rotation = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  const v = new THREE.Vector3();
+
+  for (let s = 0; s < count; s++) {
+    position.fromArray(transforms.position, s * 3);
+    rotation.fromArray(transforms.rotation, s * 4);
+    scale.fromArray(transforms.scale, s * 3);
+    matrix.compose(position, rotation, scale);
+    normalMatrix.getNormalMatrix(matrix);
+
+    const base = s * verticesPerSlice;
+    for (let i = 0; i < verticesPerSlice; i++) {
+      const p = (base + i) * 3;
+      v.fromArray(ring.positions, i * 3).applyMatrix4(matrix).toArray(positions, p);
+      v.fromArray(ring.normals, i * 3).applyMatrix3(normalMatrix).normalize().toArray(normals, p);
+      vertexColors[p] = colors[s * 3];
+      vertexColors[p + 1] = colors[s * 3 + 1];
+      vertexColors[p + 2] = colors[s * 3 + 2];
+    }
+    for (let i = 0; i < ring.indices.length; i++) indices[s * ring.indices.length + i] = base + ring.indices[i];
+  }
+
+  return { positions, normals, indices, colors: vertexColors, verticesPerSlice, trianglesPerSlice };
+};
+
+// --- Writers ---
+
+// The on-screen materials as far as glTF can describe them; the slice colors
+// are vertex colors multiplying a white base
+const exportMaterial = (mode: MaterialMode) => new THREE.MeshPhysicalMaterial(
+  mode === 'GLASS'
+    ? { vertexColors: true, roughness: 0.15, transmission: 1, thickness: 2.5, ior: 1.5, clearcoat: 1, clearcoatRoughness: 0.1, side: THREE.DoubleSide }
+    : mode === 'CRYSTAL'
+      ? { vertexColors: true, roughness: 0.05, metalness: 0.1, clearcoat: 1, clearcoatRoughness: 0.05 }
+      : { vertexColors: true, roughness: 0.6 }
+);
+
+const writeGltf = async (baked: BakedSlices, mode: MaterialMode, binary: boolean) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(baked.positions, 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(baked.normals, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(baked.colors, 3));
+  geometry.setIndex(new THREE.BufferAttribute(baked.indices, 1));
+  const material = exportMaterial(mode);
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.name = 'Sculpture';
+
+  try {
+    const result = await new GLTFExporter().parseAsync(mesh, { binary });
+    return result instanceof ArrayBuffer
+      ? new Blob([result], { type: 'model/gltf-binary' })
+      : new Blob([JSON.stringify(result)], { type: 'model/gltf+json' });
+  } finally {
+    geometry.dispose();
+    material.dispose();
+  }
+};
+
+// One object per slice; colors as the common "v x y z r g b" extension, in sRGB
+const writeObj = (baked: BakedSlices) => {
+  const { positions, normals, colors, indices, verticesPerSlice, trianglesPerSlice } = baked;
+  const count = positions.length / 3 / verticesPerSlice;
+  const parts: string[] = ['# Spatial Color Slices\n'];
+  const color = new THREE.Color();
+  const f = (x: number) => x.toFixed(5);
+
+  for (let s = 0; s < count; s++) {
+    const lines = [`o slice_${String(s).padStart(5, '0')}`];
+    for (let i = s * verticesPerSlice; i < (s + 1) * verticesPerSlice; i++) {
+      color.setRGB(colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]).convertLinearToSRGB();
+      lines.push(`v ${f(positions[i * 3])} ${f(positions[i * 3 + 1])} ${f(positions[i * 3 + 2])} ${f(color.r)} ${f(color.g)} ${f(color.b)}`);
+    }
+    for (let i = s * verticesPerSlice; i < (s + 1) * verticesPerSlice; i++) {
+      lines.push(`vn ${f(normals[i * 3])} ${f(normals[i * 3 + 1])} ${f(normals[i * 3 + 2])}`);
+    }
+    for (let t = s * trianglesPerSlice; t < (s + 1) * trianglesPerSlice; t++) {
+      const [a, b, c] = [indices[t * 3] + 1, indices[t * 3 + 1] + 1, indices[t * 3 + 2] + 1];
+      lines.push(`f ${a}//${a} ${b}//${b} ${c}//${c}`);
+    }
+    parts.push(lines.join('\n') + '\n');
+  }
+  return new Blob(parts, { type: 'model/obj' });
+};
+
+// Printers read STL as millimeters, Z up; the sculpture is a few units tall, Y up
+const STL_MM_PER_UNIT = 20;
+
+// Binary STL. Each ring is a closed shell; slicers union the overlapping ones
+const writeStl = (baked: BakedSlices) => {
+  const { positions, indices } = baked;
+  const triangles = indices.length / 3;
+  const buffer = new ArrayBuffer(84 + triangles * 50);
+  const view = new DataView(buffer);
+  const header = new TextEncoder().encode('Spatial Color Slices');
+  new Uint8Array(buffer, 0, 80).set(header.subarray(0, 80));
+  view.setUint32(80, triangles, true);
+
+  const corners = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const normal = new THREE.Vector3();
+  const edge = new THREE.Vector3();
+  for (let t = 0; t < triangles; t++) {
+    corners.forEach((corner, k) => {
+      const p = indices[t * 3 + k] * 3;
+      corner.set(positions[p], -positions[p + 2], positions[p + 1]).multiplyScalar(STL_MM_PER_UNIT);
+    });
+    normal.subVectors(corners[2], corners[1]).cross(edge.subVectors(corners[0], corners[1])).normalize();
+
+    let o = 84 + t * 50;
+    for (const v of [normal, ...corners]) {
+      view.setFloat32(o, v.x, true);
+      view.setFloat32(o + 4, v.y, true);
+      view.setFloat32(o + 8, v.z, true);
+      o += 12;
+    }
+  }
+  return new Blob([buffer], { type: 'model/stl' });
+};
+
+export const exportSculpture = async (snapshot: SculptureSnapshot, format: ExportFormat): Promise<Blob> => {
+  const baked = bakeSlices(snapshot);
+  switch (format) {
+    case 'GLB':
+      return writeGltf(baked, snapshot.material, true);
+    case 'GLTF':
+      return writeGltf(baked, snapshot.material, false);
+    case 'OBJ':
+      return writeObj(baked);
+    case 'STL':
+      return writeStl(baked);
+  }
+};
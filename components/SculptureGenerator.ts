@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+import { InputData } from './HandTracker';
+import { AudioData } from './AudioManager';
+import { Settings } from './Settings';
+
+// Everything a generator may shape the sculpture from, for one frame
+export type GeneratorContext = {
+  count: number;        // Slices to place
+  time: number;         // Elapsed seconds scaled by the animation speed
+  springs: {
+    height: number;       // Stack height; follows the left hand's height
+    twist: number;        // Radians; follows the left hand sideways
+    radiusScale: number;  // Around 1; follows the right hand's height
+    chaos: number;        // 0..1; follows the right hand sideways
+  };
+  input: InputData;
+  audio: AudioData;     // Zeros when no audio is playing
+  settings: Settings;
+};
+
+/**
+ * Per-slice transforms, flat: position xyz, rotation quaternion xyzw and
+ * scale xyz. Each slice is a torus of radius `settings.radius` lying in its
+ * local XY plane, so scale x/y sizes the ring and the local Z axis is its axis.
+ */
+export type SliceTransforms = {
+  count: number;
+  position: Float32Array;
+  rotation: Float32Array;
+  scale: Float32Array;
+};
+
+/**
+ * A form for the sculpture. `generate` is called every frame with the
+ * current springs, input and audio and writes every slice's transform.
+ * Register new ones with registerSculptureGenerator (Sculptures.ts).
+ */
+export interface SculptureGenerator {
+  id: string;
+  label: string;
+  generate(ctx: GeneratorContext, out: SliceTransforms): void;
+  // Set when the vertex shader computes the same form by itself (only the
+  // built-in stack); the CPU path then runs only while morphing
+  gpu?: boolean;
+}
+
+// Starts every slice at the origin, unrotated and unscaled
+export const createSliceTransforms = (count: number): SliceTransforms => {
+  const transforms = {
+    count,
+    position: new Float32Array(count * 3),
+    rotation: new Float32Array(count * 4),
+    scale: new Float32Array(count * 3).fill(1),
+  };
+  for (let i = 0; i < count; i++) transforms.rotation[i * 4 + 3] = 1;
+  return transforms;
+};
+
+export const setSliceTransform = (
+  out: SliceTransforms,
+  index: number,
+  position: THREE.Vector3,
+  rotation: THREE.Quaternion,
+  scale: THREE.Vector3
+) => {
+  position.toArray(out.position, index * 3);
+  rotation.toArray(out.rotation, index * 4);
+  scale.toArray(out.scale, index * 3);
+};
+
+export const copySliceTransforms = (from: SliceTransforms, to: SliceTransforms) => {
+  to.position.set(from.position);
+  to.rotation.set(from.rotation);
+  to.scale.set(from.scale);
+};
+
+/**
+ * Interpolates two sets of transforms of the same count: positions and
+ * scales linearly, rotations along the shorter arc.
+ */
+export const blendSliceTransforms = (a: SliceTransforms, b: SliceTransforms, t: number, out: SliceTransforms) => {
+  for (let i = 0; i < out.position.length; i++) {
+    out.position[i] = a.position[i] + (b.position[i] - a.position[i]) * t;
+    out.scale[i] = a.scale[i] + (b.scale[i] - a.scale[i]) * t;
+  }
+  for (let i = 0; i < out.count; i++) {
+    qa.fromArray(a.rotation, i * 4);
+    qb.fromArray(b.rotation, i * 4);
+    qa.slerp(qb, t).toArray(out.rotation, i * 4);
+  }
+};
+
+const qa = new THREE.Quaternion();
+const qb = new THREE.Quaternion();
+
+// Rotation that turns a ring's axis (local Z) to `direction`
+export const ringFacing = (direction: THREE.Vector3, target: THREE.Quaternion) =>
+  target.setFromUnitVectors(RING_AXIS, direction.normalize());
+
+const RING_AXIS = new THREE.Vector3(0, 0, 1);
@@ -0,0 +1,189 @@
+import * as THREE from 'three';
+import { seededRandom } from './ColorMapping';
+import { SculptureGenerator, GeneratorContext, SliceTransforms, setSliceTransform, ringFacing } from './SculptureGenerator';
+
+const position = new THREE.Vector3();
+const scale = new THREE.Vector3();
+const direction = new THREE.Vector3();
+const rotation = new THREE.Quaternion();
+const euler = new THREE.Euler();
+
+// Ring scale for a ring of `radius` world units
+const ringScale = (ctx: GeneratorContext, radius: number) => radius / ctx.settings.radius;
+
+// Stable per-slice scatter in -0.5..0.5, different for each `channel`
+const scatter = (index: number, channel: number) => seededRandom(channel, index) - 0.5;
+
+// The original vertical stack; mirrors stackPlacement() in SliceInstancing.ts
+const stack: SculptureGenerator = {
+  id: 'stack',
+  label: 'STACK',
+  gpu: true,
+  generate(ctx, out) {
+    const { height, twist, radiusScale, chaos } = ctx.springs;
+    for (let i = 0; i < ctx.count; i++) {
+      const t = i / ctx.count;
+      const wave = Math.sin(t * Math.PI * 6 - ctx.time * 2) * 0.2;
+      const radius = Math.max(0.1, radiusScale + wave);
+
+      position.set(0, (t - 0.5) * height, 0);
+      if (chaos > 0.01) {
+        position.x += (Math.random() - 0.5) * chaos;
+        position.z += (Math.random() - 0.5) * chaos;
+      }
+      position.x += Math.sin(ctx.time + t * 4) * chaos * 2;
+
+      rotation.setFromEuler(euler.set(Math.PI / 2, t * twist + ctx.time * 0.2, 0));
+      setSliceTransform(out, i, position, rotation, scale.set(radius, radius, 1));
+    }
+  },
+};
+
+// Two strands winding around each other, rings threaded along them
+const helix: SculptureGenerator = {
+  id: 'helix',
+  label: 'DOUBLE HELIX',
+  generate(ctx, out) {
+    const { height, twist, radiusScale, chaos } = ctx.springs;
+    const perStrand = Math.ceil(ctx.count / 2);
+    const turns = 3 + twist / Math.PI;
+    const helixRadius = 2 * radiusScale;
+    const ring = ringScale(ctx, 0.25 * (1 + ctx.audio.low * 0.5));
+
+    for (let i = 0; i < ctx.count; i++) {
+      const strand = i % 2;
+      const v = perStrand > 1 ? Math.floor(i / 2) / (perStrand - 1) : 0;
+      const angle = v * turns * Math.PI * 2 + ctx.time * 0.5 + strand * Math.PI;
+
+      position.set(Math.cos(angle) * helixRadius, (v - 0.5) * height, Math.sin(angle) * helixRadius);
+      position.x += scatter(i, 1) * chaos;
+      position.z += scatter(i, 2) * chaos;
+
+      // Along the strand
+      const sweep = turns * Math.PI * 2 * helixRadius;
+      direction.set(-Math.sin(angle) * sweep, height, Math.cos(angle) * sweep);
+      setSliceTransform(out, i, position, ringFacing(direction, rotation), scale.set(ring, ring, 1));
+    }
+  },
+};
+
+const SPHERE_SHELLS = 5;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Rings through the center on nested shells, axes spread evenly over the
+// sphere; alternate shells turn opposite ways
+const sphere: SculptureGenerator = {
+  id: 'sphere',
+  label: 'SPHERE',
+  generate(ctx, out) {
+    const { height, twist, radiusScale, chaos } = ctx.springs;
+    const outer = height * 0.25 * radiusScale * (1 + ctx.audio.low * 0.15);
+
+    for (let i = 0; i < ctx.count; i++) {
+      const shell = i % SPHERE_SHELLS;
+      const y = ctx.count > 1 ? 1 - (2 * i) / (ctx.count - 1) : 0;
+      const spin = (shell % 2 ? 1 : -1) * ctx.time * 0.3 + twist * (shell / SPHERE_SHELLS);
+      const angle = i * GOLDEN_ANGLE + spin;
+      const r = Math.sqrt(Math.max(1 - y * y, 0));
+
+      direction.set(Math.cos(angle) * r, y, Math.sin(angle) * r);
+      direction.x += scatter(i, 1) * chaos;
+      direction.z += scatter(i, 2) * chaos;
+      const radius = ringScale(ctx, outer * (shell + 1) / SPHERE_SHELLS);
+      setSliceTransform(out, i, position.set(0, 0, 0), ringFacing(direction, rotation), scale.set(radius, radius, 1));
+    }
+  },
+};
+
+// Closed Lissajous knot (frequencies 3, 2, 5) with rings threaded along it
+const lissajous: SculptureGenerator = {
+  id: 'lissajous',
+  label: 'LISSAJOUS',
+  generate(ctx, out) {
+    const { height, twist, radiusScale, chaos } = ctx.springs;
+    const width = 3 * radiusScale;
+    const phaseX = 0.7 + ctx.time * 0.2;
+    const phaseY = 0.2;
+    const phaseZ = twist * 0.1;
+    const ring = ringScale(ctx, 0.3 + ctx.audio.high * 0.2);
+
+    for (let i = 0; i < ctx.count; i++) {
+      const s = (i / ctx.count) * Math.PI * 2;
+      position.set(
+        width * Math.cos(3 * s + phaseX),
+        (height / 2) * Math.cos(2 * s + phaseY),
+        width * Math.cos(5 * s + phaseZ)
+      );
+      position.x += scatter(i, 1) * chaos;
+      position.z += scatter(i, 2) * chaos;
+
+      direction.set(
+        -3 * width * Math.sin(3 * s + phaseX),
+        -height * Math.sin(2 * s + phaseY),
+        -5 * width * Math.sin(5 * s + phaseZ)
+      );
+      setSliceTransform(out, i, position, ringFacing(direction, rotation), scale.set(ring, ring, 1));
+    }
+  },
+};
+
+const GALAXY_ARMS = 3;
+
+// Flat rings along spiral arms, large and thick at the core, small and thin
+// at the rim; bass swells the core
+const galaxy: SculptureGenerator = {
+  id: 'galaxy',
+  label: 'GALAXY',
+  generate(ctx, out) {
+    const { height, twist, radiusScale, chaos } = ctx.springs;
+    const perArm = Math.ceil(ctx.count / GALAXY_ARMS);
+    const rim = height * 0.35 * radiusScale;
+    const windings = 1.5 + twist / (Math.PI * 2);
+
+    rotation.setFromEuler(euler.set(Math.PI / 2, 0, 0));
+    for (let i = 0; i < ctx.count; i++) {
+      const arm = i % GALAXY_ARMS;
+      const v = (Math.floor(i / GALAXY_ARMS) + 0.5) / perArm;
+      const spread = 0.15 + chaos * 0.5;
+      const angle = (arm / GALAXY_ARMS) * Math.PI * 2 + v * windings * Math.PI * 2 + ctx.time * 0.3 + scatter(i, 1) * spread;
+      const r = rim * v * (1 + scatter(i, 2) * spread);
+
+      position.set(Math.cos(angle) * r, scatter(i, 3) * (1 - v) * 0.6, Math.sin(angle) * r);
+      const radius = ringScale(ctx, (0.08 + 0.4 * (1 - v)) * (1 + ctx.audio.low * (1 - v)));
+      setSliceTransform(out, i, position, rotation, scale.set(radius, radius, 1));
+    }
+  },
+};
+
+export const BUILTIN_GENERATORS: SculptureGenerator[] = [stack, helix, sphere, lissajous, galaxy];
+
+export const DEFAULT_SCULPTURE = stack.id;
+
+// --- Registry ---
+// ColorSlices looks generators up here by id and the UI lists them, so a new
+// form only needs a registerSculptureGenerator call.
+
+const generators = new Map<string, SculptureGenerator>();
+const listeners = new Set<() => void>();
+
+export const registerSculptureGenerator = (generator: SculptureGenerator) => {
+  generators.set(generator.id, generator);
+  listeners.forEach(l => l());
+  return () => {
+    if (generators.get(generator.id) !== generator) return;
+    generators.delete(generator.id);
+    listeners.forEach(l => l());
+  };
+};
+
+export const getSculptureGenerator = (id: string) =>
+  generators.get(id) ?? generators.get(DEFAULT_SCULPTURE)!;
+
+export const listSculptureGenerators = () => [...generators.values()];
+
+export const onSculptureGenerators = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+BUILTIN_GENERATORS.forEach(registerSculptureGenerator);
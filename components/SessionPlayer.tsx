@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InputData } from './HandTracker';
+import { AudioData } from './AudioManager';
+import { Session, frameAt, parseSession } from './SessionRecorder';
+
+type Props = {
+  session: Session | null;
+  onLoad: (session: Session) => void;
+  onUpdate: (data: InputData) => void;
+  onAudioUpdate: (data: AudioData | null) => void;
+};
+
+const formatTime = (ms: number) => {
+  const s = ms / 1000;
+  const m = Math.floor(s / 60);
+  return `${m}:${(s - m * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+/**
+ * Replay input source. Feeds a recorded Session back through onUpdate at the
+ * original timing, with play/pause, scrub and loop.
+ */
+const SessionPlayer: React.FC<Props> = ({ session, onLoad, onUpdate, onAudioUpdate }) => {
+  const [playing, setPlaying] = useState(true);
+  const [loop, setLoop] = useState(true);
+  const [position, setPosition] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // The frame loop reads these, so keep them in refs as well
+  const playheadRef = useRef(0);
+  const playingRef = useRef(playing);
+  const loopRef = useRef(loop);
+  playingRef.current = playing;
+  loopRef.current = loop;
+
+  // Rewind whenever a new session arrives
+  useEffect(() => {
+    playheadRef.current = 0;
+    setPosition(0);
+    setPlaying(true);
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    let animationFrameId: number;
+    let lastTime = performance.now();
+    let lastUiUpdate = 0;
+
+    const tick = (now: number) => {
+      const dt = now - lastTime;
+      lastTime = now;
+
+      if (playingRef.current) {
+        playheadRef.current += dt;
+        if (playheadRef.current > session.duration) {
+          if (loopRef.current && session.duration > 0) {
+            playheadRef.current %= session.duration;
+          } else {
+            playheadRef.current = session.duration;
+            setPlaying(false);
+          }
+        }
+      }
+
+      const frame = frameAt(session, playheadRef.current);
+      onUpdate(frame.input);
+      onAudioUpdate(frame.audio ?? null);
+
+      // Scrub bar only needs ~10 updates a second
+      if (now - lastUiUpdate > 100) {
+        lastUiUpdate = now;
+        setPosition(playheadRef.current);
+      }
+
+      animationFrameId = requestAnimationFrame(tick);
+    };
+    animationFrameId = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+      onAudioUpdate(null);
+    };
+  }, [session, onUpdate, onAudioUpdate]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onLoad(parseSession(await file.text()));
+      setError(null);
+    } catch (err) {
+      console.error("Session load failed:", err);
+      setError(err instanceof Error && err.message ? err.message : "Could not load session");
+    }
+  };
+
+  const handleScrub = (e: React.ChangeEvent<HTMLInputElement>) => {
+    playheadRef.current = Number(e.target.value);
+    setPosition(playheadRef.current);
+  };
+
+  const handlePlayPause = () => {
+    // Restart from the top if we stopped at the end
+    if (!playing && session && playheadRef.current >= session.duration) playheadRef.current = 0;
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 w-64 rounded-lg border border-white/20 z-50 bg-black/80 text-[10px] font-mono text-gray-300 p-2 space-y-2">
+        <div className="flex items-center justify-between">
+            <span className="text-white">
+                {session ? `Replay ${session.hasAudio ? '(+ audio)' : ''}` : 'No session loaded'}
+            </span>
+            <label className="cursor-pointer px-2 py-0.5 rounded border border-gray-600 hover:border-white hover:text-white">
+                LOAD
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+            </label>
+        </div>
+
+        {error && <div className="text-red-400">{error}</div>}
+
+        {session && (
+            <>
+                <input
+                    type="range"
+                    min={0}
+                    max={session.duration}
+                    step={1}
+                    value={position}
+                    onChange={handleScrub}
+                    className="w-full accent-white"
+                />
+                <div className="flex items-center justify-between">
+                    <button
+                        onClick={handlePlayPause}
+                        className="px-2 py-0.5 rounded border border-gray-600 hover:border-white hover:text-white"
+                    >
+                        {playing ? 'PAUSE' : 'PLAY'}
+                    </button>
+                    <button
+                        onClick={() => setLoop(!loop)}
+                        className={`px-2 py-0.5 rounded border ${loop ? 'border-white text-white' : 'border-gray-600'}`}
+                    >
+                        LOOP
+                    </button>
+                    <span>{formatTime(position)} / {formatTime(session.duration)}</span>
+                </div>
+            </>
+        )}
+    </div>
+  );
+};
+
+export default SessionPlayer;
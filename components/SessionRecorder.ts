@@ -0,0 +1,160 @@
+import { InputData, HandData } from './HandTracker';
+import { downloadBlob } from './Download';
+import { AudioData } from './AudioManager';
+import { createAudioFeatures, BandName, SPECTRUM_BANDS } from './AudioAnalysis';
+import { AUDIO_ANALYSIS } from '../constants';
+import { asRecord, clampTo, sanitizeInputData } from './Sanitize';
+
+export type SessionFrame = {
+  t: number;           // ms since the recording started
+  input: InputData;
+  audio?: AudioData;
+};
+
+export type Session = {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  recordedAt: string;  // ISO timestamp
+  duration: number;    // ms
+  hasAudio: boolean;
+  frames: SessionFrame[];
+};
+
+export const SESSION_FORMAT = 'spatial-color-slices/session';
+export const SESSION_VERSION = 1;
+
+// Landmarks are only read by the gesture classifier before capture, and would
+// add 126 numbers per hand to every frame, so they are left out
+const cloneHand = ({ landmarks, worldLandmarks, ...hand }: HandData): HandData => hand;
+
+const cloneInput = (data: InputData): InputData => ({
+  hands: { left: cloneHand(data.hands.left), right: cloneHand(data.hands.right) },
+  face: { ...data.face }
+});
+
+/**
+ * Captures the InputData stream (and optionally AudioData) with timestamps.
+ * Feed it from the same callback that writes inputDataRef.
+ */
+export class SessionRecorder {
+  recording = false;
+  private frames: SessionFrame[] = [];
+  private startTime = 0;
+  private startedAt = '';
+  private withAudio = false;
+
+  start(withAudio = false) {
+    this.frames = [];
+    this.startTime = performance.now();
+    this.startedAt = new Date().toISOString();
+    this.withAudio = withAudio;
+    this.recording = true;
+  }
+
+  capture(input: InputData, audio?: AudioData) {
+    if (!this.recording) return;
+    const frame: SessionFrame = { t: performance.now() - this.startTime, input: cloneInput(input) };
+    if (this.withAudio && audio) frame.audio = { ...audio, bands: { ...audio.bands }, spectrum: [...audio.spectrum] };
+    this.frames.push(frame);
+  }
+
+  stop(): Session {
+    this.recording = false;
+    const frames = this.frames;
+    this.frames = [];
+    return {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      recordedAt: this.startedAt,
+      duration: frames.length > 0 ? frames[frames.length - 1].t : 0,
+      hasAudio: this.withAudio && frames.some(f => f.audio),
+      frames
+    };
+  }
+}
+
+// Four decimals is well below tracking noise and keeps files small
+export const serializeSession = (session: Session): string =>
+  JSON.stringify(session, (_key, value) => typeof value === 'number' ? Math.round(value * 1e4) / 1e4 : value);
+
+const UNIT = { min: 0, max: 1 };
+
+// Recorded audio values, or nothing if the frame has none; missing values read as silence
+const sanitizeAudio = (raw: unknown): AudioData | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const src = asRecord(raw);
+  const bands = asRecord(src.bands);
+  const spectrum = Array.isArray(src.spectrum) ? src.spectrum : [];
+  const audio: AudioData = {
+    low: clampTo(src.low, 0, UNIT),
+    high: clampTo(src.high, 0, UNIT),
+    vol: clampTo(src.vol, 0, UNIT),
+    spectrum: Array.from({ length: SPECTRUM_BANDS }, (_, i) => clampTo(spectrum[i], 0, UNIT)),
+    ...createAudioFeatures(),
+  };
+  audio.flux = clampTo(src.flux, 0, UNIT);
+  audio.onset = src.onset === true;
+  audio.kick = src.kick === true;
+  audio.beat = src.beat === true;
+  audio.bpm = clampTo(src.bpm, 0, { min: 0, max: AUDIO_ANALYSIS.maxBpm * 2 });
+  audio.beatPhase = clampTo(src.beatPhase, 0, UNIT);
+  audio.beatConfidence = clampTo(src.beatConfidence, 0, UNIT);
+  audio.centroid = clampTo(src.centroid, 0, UNIT);
+  audio.centroidHz = clampTo(src.centroidHz, 0, { min: 0, max: 24000 });
+  for (const band of Object.keys(audio.bands) as BandName[]) audio.bands[band] = clampTo(bands[band], 0, UNIT);
+  return audio;
+};
+
+export const parseSession = (json: string): Session => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Session file is not valid JSON");
+  }
+  const raw = asRecord(parsed);
+  if (raw.format !== SESSION_FORMAT) throw new Error("Not a session recording");
+  const version = typeof raw.version === 'number' ? raw.version : 0;
+  if (version > SESSION_VERSION) throw new Error(`Unsupported session version ${version}`);
+  if (!Array.isArray(raw.frames) || raw.frames.length === 0) throw new Error("Session has no frames");
+
+  let lastT = -Infinity;
+  const frames = raw.frames.map((frame: unknown, i): SessionFrame => {
+    const f = asRecord(frame);
+    const input = asRecord(f.input);
+    if (typeof f.t !== 'number' || !Number.isFinite(f.t) || !input.hands || !input.face) {
+      throw new Error(`Malformed frame at index ${i}`);
+    }
+    if (f.t < lastT) throw new Error(`Frames out of order at index ${i}`);
+    lastT = f.t;
+    const audio = sanitizeAudio(f.audio);
+    return audio ? { t: f.t, input: sanitizeInputData(input), audio } : { t: f.t, input: sanitizeInputData(input) };
+  });
+
+  return {
+    format: SESSION_FORMAT,
+    version,
+    recordedAt: typeof raw.recordedAt === 'string' ? raw.recordedAt : '',
+    duration: frames[frames.length - 1].t,
+    hasAudio: frames.some(f => f.audio),
+    frames
+  };
+};
+
+// Latest frame at or before time t (binary search)
+export const frameAt = (session: Session, t: number): SessionFrame => {
+  const { frames } = session;
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (frames[mid].t <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  return frames[lo];
+};
+
+export const downloadSession = (session: Session, filename?: string) => {
+  const blob = new Blob([serializeSession(session)], { type: 'application/json' });
+  downloadBlob(blob, filename ?? `session-${session.recordedAt.replace(/[:.]/g, '-') || Date.now()}.json`);
+};
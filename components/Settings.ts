@@ -0,0 +1,132 @@
+import { CONFIG, SPRINGS } from '../constants';
+import { ColorMapping, COLOR_MAPPINGS } from './ColorMapping';
+import { SpectrumMode, SPECTRUM_MODES } from './SliceInstancing';
+import { clampTo, asRecord } from './Sanitize';
+
+export type SpringName = keyof typeof SPRINGS;
+export type SpringSettings = { stiffness: number; damping: number };
+
+export type Settings = typeof CONFIG & {
+  springs: Record<SpringName, SpringSettings>;
+  colorMapping: ColorMapping;
+  colorSeed: number; // Used by the random mapping
+  spectrumMode: SpectrumMode;
+  analyticSprings: boolean; // Closed-form springs with the same frequency and damping ratio
+};
+
+export type NumericSetting = keyof typeof CONFIG;
+
+export const DEFAULT_SETTINGS: Settings = {
+  ...CONFIG,
+  springs: JSON.parse(JSON.stringify(SPRINGS)),
+  colorMapping: 'STRIPES',
+  colorSeed: 1,
+  spectrumMode: 'OFF',
+  analyticSprings: false,
+};
+
+type Range = { min: number; max: number; step: number };
+
+export const SETTING_FIELDS: ({ key: NumericSetting; label: string } & Range)[] = [
+  { key: 'sliceCount', label: 'Slices', min: 4, max: 20000, step: 1 },
+  { key: 'radius', label: 'Radius', min: 0.2, max: 5, step: 0.05 },
+  { key: 'stackHeight', label: 'Stack Height', min: 1, max: 30, step: 0.5 },
+  { key: 'tubeThickness', label: 'Tube Thickness', min: 0.005, max: 0.5, step: 0.005 },
+  { key: 'animationSpeed', label: 'Animation Speed', min: 0, max: 3, step: 0.05 },
+  { key: 'noiseScale', label: 'Noise Scale', min: 0, max: 10, step: 0.1 },
+  { key: 'bloomThreshold', label: 'Bloom Threshold', min: 0, max: 1, step: 0.01 },
+  { key: 'bloomIntensity', label: 'Bloom Intensity', min: 0, max: 5, step: 0.05 },
+  { key: 'chainStiffness', label: 'Chain Stiffness', min: 0, max: 100, step: 1 },
+  { key: 'chainWaveSpeed', label: 'Chain Wave Speed', min: 0.05, max: 3, step: 0.05 },
+  { key: 'chainDamping', label: 'Chain Damping', min: 0, max: 10, step: 0.1 },
+  { key: 'chainMassTaper', label: 'Chain Mass Taper', min: 0, max: 5, step: 0.1 },
+];
+
+export const SPRING_FIELDS: Record<keyof SpringSettings, Range> = {
+  stiffness: { min: 0.005, max: 0.5, step: 0.005 },
+  damping: { min: 0.5, max: 0.99, step: 0.01 },
+};
+
+/**
+ * Builds a complete Settings object from untrusted input (a preset or a
+ * shared link). Missing or invalid values fall back to the defaults and
+ * everything is clamped to the panel's ranges.
+ */
+export const sanitizeSettings = (raw: unknown): Settings => {
+  const src = asRecord(raw);
+  const settings: Settings = { ...DEFAULT_SETTINGS, springs: { ...DEFAULT_SETTINGS.springs } };
+
+  for (const field of SETTING_FIELDS) {
+    settings[field.key] = clampTo(src[field.key], DEFAULT_SETTINGS[field.key], field);
+  }
+  settings.sliceCount = Math.round(settings.sliceCount);
+
+  for (const name of Object.keys(SPRINGS) as SpringName[]) {
+    const spring = asRecord(asRecord(src.springs)[name]);
+    settings.springs[name] = {
+      stiffness: clampTo(spring.stiffness, DEFAULT_SETTINGS.springs[name].stiffness, SPRING_FIELDS.stiffness),
+      damping: clampTo(spring.damping, DEFAULT_SETTINGS.springs[name].damping, SPRING_FIELDS.damping),
+    };
+  }
+  settings.colorMapping = COLOR_MAPPINGS.find(m => m.mode === src.colorMapping)?.mode ?? settings.colorMapping;
+  if (typeof src.colorSeed === 'number' && Number.isInteger(src.colorSeed)) settings.colorSeed = src.colorSeed;
+  settings.spectrumMode = SPECTRUM_MODES.find(m => m.mode === src.spectrumMode)?.mode ?? settings.spectrumMode;
+  if (typeof src.analyticSprings === 'boolean') settings.analyticSprings = src.analyticSprings;
+  return settings;
+};
+
+// --- Shareable URLs ---
+
+const URL_PARAM = 'settings';
+
+export const encodeSettings = (settings: Settings) =>
+  btoa(JSON.stringify(settings)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const decodeSettings = (encoded: string): Settings | null => {
+  try {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    return sanitizeSettings(JSON.parse(atob(base64)));
+  } catch {
+    return null;
+  }
+};
+
+export const loadSettingsFromUrl = (): Settings | null => {
+  const encoded = new URLSearchParams(window.location.search).get(URL_PARAM);
+  return encoded ? decodeSettings(encoded) : null;
+};
+
+export const getShareUrl = (settings: Settings) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(URL_PARAM, encodeSettings(settings));
+  return url.toString();
+};
+
+// --- Presets (localStorage) ---
+
+const PRESETS_KEY = 'scs-settings-presets';
+
+export const loadPresets = (): Record<string, Settings> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || '{}');
+    const presets: Record<string, Settings> = {};
+    for (const name of Object.keys(stored)) presets[name] = sanitizeSettings(stored[name]);
+    return presets;
+  } catch {
+    return {};
+  }
+};
+
+export const savePreset = (name: string, settings: Settings) => {
+  const presets = loadPresets();
+  presets[name] = settings;
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+export const deletePreset = (name: string) => {
+  const presets = loadPresets();
+  delete presets[name];
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+};
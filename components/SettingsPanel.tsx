@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { SPRINGS } from '../constants';
+import {
+  Settings, SpringName, SETTING_FIELDS, SPRING_FIELDS, DEFAULT_SETTINGS,
+  loadPresets, savePreset, deletePreset, getShareUrl
+} from './Settings';
+import { ColorMapping, COLOR_MAPPINGS } from './ColorMapping';
+import { SpectrumMode, SPECTRUM_MODES } from './SliceInstancing';
+import Benchmark from './Benchmark';
+
+interface Props {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+const SPRING_NAMES = Object.keys(SPRINGS) as SpringName[];
+
+const Slider = ({ label, value, min, max, step, onChange }: {
+  label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void;
+}) => (
+  <label className="flex items-center gap-2">
+    <span className="w-28 shrink-0 text-gray-400">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="flex-1"
+    />
+    <span className="w-12 text-right">{Number(value.toFixed(3))}</span>
+  </label>
+);
+
+// Collapsible live editor for CONFIG and the spring constants, with named
+// presets and a link that reproduces the current look
+const SettingsPanel: React.FC<Props> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [presets, setPresets] = useState<Record<string, Settings>>(loadPresets);
+  const [presetName, setPresetName] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const setSpring = (name: SpringName, key: 'stiffness' | 'damping', value: number) => {
+    onChange({ ...settings, springs: { ...settings.springs, [name]: { ...settings.springs[name], [key]: value } } });
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setPresets(savePreset(name, settings));
+    setPresetName('');
+  };
+
+  const handleCopyLink = () => {
+    const url = getShareUrl(settings);
+    window.history.replaceState(null, '', url);
+    navigator.clipboard?.writeText(url)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(e => console.warn("Copy to clipboard failed", e));
+  };
+
+  return (
+    <div className="fixed bottom-12 left-8 z-20 w-80 rounded-lg border border-white/20 bg-black/70 backdrop-blur-md font-mono text-[11px] text-gray-300 pointer-events-auto">
+        <button
+            onClick={() => setOpen(!open)}
+            className="w-full flex justify-between px-3 py-2 text-white font-bold text-xs"
+        >
+            <span>SETTINGS</span>
+            <span>{open ? '▾' : '▸'}</span>
+        </button>
+
+        {open && (
+            <div className="px-3 pb-3 space-y-1 max-h-[60vh] overflow-y-auto">
+                {SETTING_FIELDS.map(field => (
+                    <Slider
+                        key={field.key}
+                        label={field.label}
+                        value={settings[field.key]}
+                        min={field.min}
+                        max={field.max}
+                        step={field.step}
+                        onChange={(v) => onChange({ ...settings, [field.key]: v })}
+                    />
+                ))}
+
+                <p className="text-white pt-2">Colors</p>
+                <label className="flex items-center gap-2">
+                    <span className="w-28 shrink-0 text-gray-400">Mapping</span>
+                    <select
+                        value={settings.colorMapping}
+                        onChange={(e) => onChange({ ...settings, colorMapping: e.target.value as ColorMapping })}
+                        className="flex-1 bg-black/50 border border-gray-600 rounded px-1 py-0.5 text-white"
+                    >
+                        {COLOR_MAPPINGS.map(m => <option key={m.mode} value={m.mode}>{m.label}</option>)}
+                    </select>
+                </label>
+                {settings.colorMapping === 'RANDOM' && (
+                    <div className="flex items-center gap-2">
+                        <span className="w-28 shrink-0 text-gray-400">Seed</span>
+                        <span className="flex-1">{settings.colorSeed}</span>
+                        <button
+                            onClick={() => onChange({ ...settings, colorSeed: Math.floor(Math.random() * 1e6) })}
+                            className="px-2 py-0.5 border border-gray-600 rounded hover:text-white hover:border-white"
+                        >
+                            SHUFFLE
+                        </button>
+                    </div>
+                )}
+                <label className="flex items-center gap-2" title="Each slice follows one band of the audio spectrum, bass at the bottom">
+                    <span className="w-28 shrink-0 text-gray-400">Spectrum</span>
+                    <select
+                        value={settings.spectrumMode}
+                        onChange={(e) => onChange({ ...settings, spectrumMode: e.target.value as SpectrumMode })}
+                        className="flex-1 bg-black/50 border border-gray-600 rounded px-1 py-0.5 text-white"
+                    >
+                        {SPECTRUM_MODES.map(m => <option key={m.mode} value={m.mode}>{m.label}</option>)}
+                    </select>
+                </label>
+
+                <p className="text-white pt-2">Springs</p>
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={settings.analyticSprings}
+                        onChange={(e) => onChange({ ...settings, analyticSprings: e.target.checked })}
+                    />
+                    <span className="text-gray-400">Analytic (exact at any frame rate)</span>
+                </label>
+                {SPRING_NAMES.map(name => (
+                    <div key={name}>
+                        <Slider label={`${name} k`} value={settings.springs[name].stiffness} {...SPRING_FIELDS.stiffness} onChange={(v) => setSpring(name, 'stiffness', v)} />
+                        <Slider label={`${name} damp`} value={settings.springs[name].damping} {...SPRING_FIELDS.damping} onChange={(v) => setSpring(name, 'damping', v)} />
+                    </div>
+                ))}
+
+                <p className="text-white pt-2">Presets</p>
+                <div className="flex gap-1">
+                    <input
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        placeholder="Preset name"
+                        className="flex-1 bg-black/50 border border-gray-600 rounded px-2 py-0.5 text-white"
+                    />
+                    <button onClick={handleSave} className="px-2 border border-gray-600 rounded hover:text-white hover:border-white">SAVE</button>
+                </div>
+                {Object.keys(presets).map(name => (
+                    <div key={name} className="flex justify-between items-center">
+                        <button onClick={() => onChange(presets[name])} className="hover:text-white truncate">{name}</button>
+                        <button onClick={() => setPresets(deletePreset(name))} className="text-gray-500 hover:text-red-400">✕</button>
+                    </div>
+                ))}
+
+                <p className="text-white pt-2">Benchmark</p>
+                <Benchmark settings={settings} onChange={onChange} />
+
+                <div className="flex gap-2 pt-2">
+                    <button onClick={() => onChange(DEFAULT_SETTINGS)} className="px-2 py-0.5 border border-gray-600 rounded hover:text-white hover:border-white">RESET</button>
+                    <button onClick={handleCopyLink} className="px-2 py-0.5 border border-gray-600 rounded hover:text-white hover:border-white">
+                        {copied ? 'COPIED' : 'COPY LINK'}
+                    </button>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
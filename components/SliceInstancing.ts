@@ -0,0 +1,550 @@
+import * as THREE from 'three';
+import { COLOR_MAPPINGS, ColorMapping, sampleGradient, mapSliceColor, SliceContext } from './ColorMapping';
+import { SpringChain } from './SpringChain';
+import { SliceTransforms } from './SculptureGenerator';
+import { SPECTRUM_BANDS } from './AudioAnalysis';
+
+// Placement and coloring of the slices on the GPU.
+//
+// Every slice is one instance of a shared torus. Its color, and for the
+// stack its transform, are computed in the vertex shader from its index and a
+// handful of uniforms, so the CPU work per frame doesn't grow with the slice
+// count. Other sculpture generators run on the CPU and hand the shader their
+// transforms through a texture; the spring chain is applied on top either way.
+
+// The spring chain runs at this many nodes at most; slices in between
+// interpolate, so a wave looks the same at 60 or 20,000 slices
+export const MAX_CHAIN_NODES = 512;
+
+// Generator transforms are packed 3 texels per slice (position, rotation,
+// scale), this many slices per texture row
+const TRANSFORMS_PER_ROW = 512;
+
+// Palettes blended at once (one texture row each), and colors per palette
+export const MAX_PALETTE_LAYERS = 8;
+export const MAX_PALETTE_COLORS = 16;
+
+// How slices answer the audio spectrum: each slice listens to one band, low
+// at the bottom of the stack, and swells, glows or is pushed out with it
+export type SpectrumMode = 'OFF' | 'SWELL' | 'GLOW' | 'DISPLACE';
+
+export const SPECTRUM_MODES: { mode: SpectrumMode; label: string }[] = [
+  { mode: 'OFF', label: 'Off' },
+  { mode: 'SWELL', label: 'Swell' },
+  { mode: 'GLOW', label: 'Glow' },
+  { mode: 'DISPLACE', label: 'Displace' },
+];
+
+// Response at full band energy: extra ring scale, emissive multiple of the
+// slice color, and distance pushed out
+const SPECTRUM_SWELL = 0.8;
+const SPECTRUM_GLOW = 2.0;
+const SPECTRUM_DISPLACE = 0.6;
+
+// Displacement directions step by the golden angle so neighbours spread out
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Per-frame inputs to the placement
+export type PlacementState = {
+  count: number;
+  time: number;        // Elapsed time scaled by the animation speed
+  height: number;
+  twist: number;
+  radiusScale: number;
+  chaos: number;
+  jitterSeed: number;  // New every frame; drives the chaos jitter
+};
+
+const floatTexture = (width: number, height: number) => {
+  const texture = new THREE.DataTexture(new Float32Array(width * height * 4), width, height, THREE.RGBAFormat, THREE.FloatType);
+  texture.needsUpdate = true;
+  return texture;
+};
+
+export const createSliceUniforms = () => ({
+  // Placement
+  uSliceCount: { value: 1 },
+  uTime: { value: 0 },
+  uStackHeight: { value: 12 },
+  uTwist: { value: 0 },
+  uRadiusScale: { value: 1 },
+  uChaos: { value: 0 },
+  uJitterSeed: { value: 0 },
+  uChain: { value: floatTexture(1, 1) },  // x, z, r per chain node
+  uChainNodes: { value: 1 },
+  uTransforms: { value: floatTexture(1, 1) },
+  uUseTransforms: { value: 0 },  // 1 = place from uTransforms instead of the stack
+  // Colors
+  uPalettes: { value: floatTexture(MAX_PALETTE_COLORS, MAX_PALETTE_LAYERS) },
+  uLayerLength: { value: new Float32Array(MAX_PALETTE_LAYERS) },
+  uLayerWeight: { value: new Float32Array(MAX_PALETTE_LAYERS) },
+  uColorMapping: { value: 0 },
+  uColorSeed: { value: 1 },
+  uAudioLow: { value: 0 },
+  uAudioHigh: { value: 0 },
+  // Spectrum
+  uSpectrum: { value: floatTexture(SPECTRUM_BANDS, 1) },  // Level per band in x
+  uSpectrumMode: { value: 0 },
+});
+
+export type SliceUniforms = ReturnType<typeof createSliceUniforms>;
+
+export const setPlacement = (uniforms: SliceUniforms, state: PlacementState) => {
+  uniforms.uSliceCount.value = state.count;
+  uniforms.uTime.value = state.time;
+  uniforms.uStackHeight.value = state.height;
+  uniforms.uTwist.value = state.twist;
+  uniforms.uRadiusScale.value = state.radiusScale;
+  uniforms.uChaos.value = state.chaos;
+  uniforms.uJitterSeed.value = state.jitterSeed;
+};
+
+// Copies the chain's displacements into its texture, resizing it to the chain
+export const setChain = (uniforms: SliceUniforms, chain: SpringChain) => {
+  let texture = uniforms.uChain.value;
+  if (texture.image.width !== chain.count) {
+    texture.dispose();
+    texture = uniforms.uChain.value = floatTexture(chain.count, 1);
+  }
+  const data = texture.image.data as Float32Array;
+  for (let i = 0; i < chain.count; i++) {
+    data[i * 4] = chain.x[i];
+    data[i * 4 + 1] = chain.z[i];
+    data[i * 4 + 2] = chain.r[i];
+  }
+  texture.needsUpdate = true;
+  uniforms.uChainNodes.value = chain.count;
+};
+
+/**
+ * Hands the shader a generator's transforms, or `null` to go back to the
+ * built-in stack placement.
+ */
+export const setTransforms = (uniforms: SliceUniforms, transforms: SliceTransforms | null) => {
+  uniforms.uUseTransforms.value = transforms ? 1 : 0;
+  if (!transforms) return;
+
+  const rows = Math.max(Math.ceil(transforms.count / TRANSFORMS_PER_ROW), 1);
+  let texture = uniforms.uTransforms.value;
+  if (texture.image.height !== rows) {
+    texture.dispose();
+    texture = uniforms.uTransforms.value = floatTexture(TRANSFORMS_PER_ROW * 3, rows);
+  }
+  const data = texture.image.data as Float32Array;
+  const { position, rotation, scale } = transforms;
+  for (let i = 0; i < transforms.count; i++) {
+    const p = i * 12;
+    data[p] = position[i * 3];
+    data[p + 1] = position[i * 3 + 1];
+    data[p + 2] = position[i * 3 + 2];
+    data[p + 4] = rotation[i * 4];
+    data[p + 5] = rotation[i * 4 + 1];
+    data[p + 6] = rotation[i * 4 + 2];
+    data[p + 7] = rotation[i * 4 + 3];
+    data[p + 8] = scale[i * 3];
+    data[p + 9] = scale[i * 3 + 1];
+    data[p + 10] = scale[i * 3 + 2];
+  }
+  texture.needsUpdate = true;
+};
+
+// Uploads the band levels (AudioData.spectrum) and how slices answer them
+export const setSpectrum = (uniforms: SliceUniforms, spectrum: ArrayLike<number>, mode: SpectrumMode) => {
+  const texture = uniforms.uSpectrum.value;
+  const data = texture.image.data as Float32Array;
+  for (let i = 0; i < SPECTRUM_BANDS; i++) data[i * 4] = spectrum[i] ?? 0;
+  texture.needsUpdate = true;
+  uniforms.uSpectrumMode.value = SPECTRUM_MODE[mode];
+};
+
+export const colorMappingIndex = (mode: ColorMapping) =>
+  Math.max(COLOR_MAPPINGS.findIndex(m => m.mode === mode), 0);
+
+const MAPPING = Object.fromEntries(COLOR_MAPPINGS.map((m, i) => [m.mode, i])) as Record<ColorMapping, number>;
+const SPECTRUM_MODE = Object.fromEntries(SPECTRUM_MODES.map((m, i) => [m.mode, i])) as Record<SpectrumMode, number>;
+
+const glslFloat = (x: number) => x.toFixed(6);
+
+// --- GLSL ---
+
+export const SLICE_PLACEMENT_GLSL = /* glsl */ `
+  uniform float uSliceCount;
+  uniform float uTime;
+  uniform float uStackHeight;
+  uniform float uTwist;
+  uniform float uRadiusScale;
+  uniform float uChaos;
+  uniform float uJitterSeed;
+  uniform sampler2D uChain;
+  uniform float uChainNodes;
+  uniform sampler2D uTransforms;
+  uniform float uUseTransforms;
+  uniform sampler2D uSpectrum;
+  uniform int uSpectrumMode;
+
+  attribute float aIndex;
+
+  // Same hash as seededRandom() in ColorMapping.ts
+  uint sliceHash(uint seed, uint index) {
+    uint h = (seed ^ 0x9e3779b9u) * 0x85ebca6bu ^ (index + 1u) * 0xc2b2ae35u;
+    h = (h ^ (h >> 16)) * 0x7feb352du;
+    h = (h ^ (h >> 15)) * 0x846ca68bu;
+    return h ^ (h >> 16);
+  }
+
+  float sliceRandom(uint seed, uint index) {
+    return float(sliceHash(seed, index) >> 8) / 16777216.0;
+  }
+
+  // Chain displacement (x, z, r) at t along the stack, between its nodes
+  vec3 sliceChain(float t) {
+    float u = clamp(t, 0.0, 1.0) * (uChainNodes - 1.0);
+    int i0 = int(floor(u));
+    int i1 = min(i0 + 1, int(uChainNodes) - 1);
+    vec3 a = texelFetch(uChain, ivec2(i0, 0), 0).xyz;
+    vec3 b = texelFetch(uChain, ivec2(i1, 0), 0).xyz;
+    return mix(a, b, u - float(i0));
+  }
+
+  // Twist of the slice at index (its rotation around Y before laying it flat)
+  float sliceAngle(float index) {
+    return index / uSliceCount * uTwist + uTime * 0.2;
+  }
+
+  // The built-in stack; keep in sync with the stack generator in Sculptures.ts
+  mat4 stackPlacement(float index) {
+    float t = index / uSliceCount;
+    vec3 chain = sliceChain(index / max(uSliceCount - 1.0, 1.0));
+
+    // Organic sine wave that moves up the stack
+    float wave = sin(t * PI * 6.0 - uTime * 2.0) * 0.2;
+    float radius = max(0.1, uRadiusScale + wave + chain.z);
+
+    vec3 pos = vec3(0.0, (t - 0.5) * uStackHeight, 0.0);
+    if (uChaos > 0.01) {
+      uint seed = uint(uJitterSeed);
+      uint i = uint(index);
+      pos.x += (sliceRandom(seed, i * 2u) - 0.5) * uChaos;
+      pos.z += (sliceRandom(seed, i * 2u + 1u) - 0.5) * uChaos;
+    }
+    // "Worm" movement
+    pos.x += sin(uTime + t * 4.0) * uChaos * 2.0;
+    pos.xz += chain.xy;
+
+    // Rotation X(PI / 2) * Y(angle), then scale (radius, radius, 1)
+    float angle = sliceAngle(index);
+    float c = cos(angle);
+    float s = sin(angle);
+    return mat4(
+      vec4(c * radius, s * radius, 0.0, 0.0),
+      vec4(0.0, 0.0, radius, 0.0),
+      vec4(s, -c, 0.0, 0.0),
+      vec4(pos, 1.0)
+    );
+  }
+
+  // A generator's transform from uTransforms, with the chain on top;
+  // keep in sync with applyChain()
+  mat4 generatedPlacement(float index) {
+    int i = int(index);
+    ivec2 texel = ivec2((i % ${TRANSFORMS_PER_ROW}) * 3, i / ${TRANSFORMS_PER_ROW});
+    vec3 pos = texelFetch(uTransforms, texel, 0).xyz;
+    vec4 q = texelFetch(uTransforms, texel + ivec2(1, 0), 0);
+    vec3 scale = texelFetch(uTransforms, texel + ivec2(2, 0), 0).xyz;
+
+    vec3 chain = sliceChain(index / max(uSliceCount - 1.0, 1.0));
+    pos.xz += chain.xy;
+    scale.xy = max(scale.xy + chain.z, scale.xy * 0.1);
+
+    mat3 rotation = mat3(
+      1.0 - 2.0 * (q.y * q.y + q.z * q.z), 2.0 * (q.x * q.y + q.w * q.z), 2.0 * (q.x * q.z - q.w * q.y),
+      2.0 * (q.x * q.y - q.w * q.z), 1.0 - 2.0 * (q.x * q.x + q.z * q.z), 2.0 * (q.y * q.z + q.w * q.x),
+      2.0 * (q.x * q.z + q.w * q.y), 2.0 * (q.y * q.z - q.w * q.x), 1.0 - 2.0 * (q.x * q.x + q.y * q.y)
+    );
+    return mat4(
+      vec4(rotation[0] * scale.x, 0.0),
+      vec4(rotation[1] * scale.y, 0.0),
+      vec4(rotation[2] * scale.z, 0.0),
+      vec4(pos, 1.0)
+    );
+  }
+
+  // Level of the spectrum band the slice at index listens to; keep in sync
+  // with sliceBand() in SliceInstancing.ts
+  float sliceBand(float index) {
+    float u = clamp(index / max(uSliceCount - 1.0, 1.0), 0.0, 1.0) * ${SPECTRUM_BANDS - 1}.0;
+    int i0 = int(floor(u));
+    int i1 = min(i0 + 1, ${SPECTRUM_BANDS - 1});
+    return mix(texelFetch(uSpectrum, ivec2(i0, 0), 0).x, texelFetch(uSpectrum, ivec2(i1, 0), 0).x, u - float(i0));
+  }
+
+  // Emissive multiple of the slice color in GLOW mode
+  float sliceGlow(float index) {
+    return uSpectrumMode == ${SPECTRUM_MODE.GLOW} ? sliceBand(index) * ${glslFloat(SPECTRUM_GLOW)} : 0.0;
+  }
+
+  // Model matrix of one slice; keep the spectrum part in sync with applySpectrum()
+  mat4 slicePlacement(float index) {
+    mat4 m = uUseTransforms > 0.5 ? generatedPlacement(index) : stackPlacement(index);
+    if (uSpectrumMode == ${SPECTRUM_MODE.SWELL}) {
+      float swell = 1.0 + sliceBand(index) * ${glslFloat(SPECTRUM_SWELL)};
+      m[0].xyz *= swell;
+      m[1].xyz *= swell;
+    } else if (uSpectrumMode == ${SPECTRUM_MODE.DISPLACE}) {
+      float angle = index * ${glslFloat(GOLDEN_ANGLE)};
+      m[3].xz += vec2(cos(angle), sin(angle)) * sliceBand(index) * ${glslFloat(SPECTRUM_DISPLACE)};
+    }
+    return m;
+  }
+`;
+
+export const SLICE_COLOR_GLSL = /* glsl */ `
+  uniform sampler2D uPalettes;
+  uniform float uLayerLength[${MAX_PALETTE_LAYERS}];
+  uniform float uLayerWeight[${MAX_PALETTE_LAYERS}];
+  uniform int uColorMapping;
+  uniform float uColorSeed;
+  uniform float uAudioLow;
+  uniform float uAudioHigh;
+
+  vec3 paletteEntry(int layer, int k) {
+    return texelFetch(uPalettes, ivec2(k, layer), 0).rgb;
+  }
+
+  // Same as sampleGradient() in ColorMapping.ts
+  vec3 paletteGradient(int layer, int n, float t, bool cyclic) {
+    if (n == 1) return paletteEntry(layer, 0);
+    int segments = cyclic ? n : n - 1;
+    float x = (cyclic ? fract(t) : clamp(t, 0.0, 1.0)) * float(segments);
+    int i = min(int(floor(x)), segments - 1);
+    return mix(paletteEntry(layer, i), paletteEntry(layer, (i + 1) % n), x - float(i));
+  }
+
+  // floor(seededRandom(seed, index) * n) in 32-bit integer math
+  int randomEntry(uint seed, uint index, int n) {
+    uint h = sliceHash(seed, index);
+    uint un = uint(n);
+    return int(((h >> 16) * un + (((h & 0xffffu) * un) >> 16)) >> 16);
+  }
+
+  // Each palette layer mapped onto the slice, mixed by the layer weights;
+  // mirrors mapSliceColor() in ColorMapping.ts
+  vec3 sliceColor(float index) {
+    int slice = int(index);
+    float t = uSliceCount > 1.0 ? index / (uSliceCount - 1.0) : 0.0;
+    // Low band at the bottom of the stack, high band at the top
+    float level = mix(uAudioLow, uAudioHigh, index / uSliceCount);
+
+    vec3 color = vec3(0.0);
+    for (int layer = 0; layer < ${MAX_PALETTE_LAYERS}; layer++) {
+      float weight = uLayerWeight[layer];
+      if (weight < 0.001) continue;
+      int n = int(uLayerLength[layer]);
+      vec3 c;
+      if (uColorMapping == ${MAPPING.HEIGHT}) c = paletteGradient(layer, n, t, false);
+      else if (uColorMapping == ${MAPPING.TWIST}) c = paletteGradient(layer, n, sliceAngle(index) / (2.0 * PI), true);
+      else if (uColorMapping == ${MAPPING.AUDIO}) c = paletteGradient(layer, n, level, false);
+      else if (uColorMapping == ${MAPPING.RANDOM}) c = paletteEntry(layer, randomEntry(uint(int(uColorSeed)), uint(slice), n));
+      else c = paletteEntry(layer, slice % n);
+      color += c * weight;
+    }
+    return color;
+  }
+`;
+
+/**
+ * Makes a built-in material (the glass) place and color its instances with
+ * the shared uniforms instead of instanceMatrix / instanceColor.
+ */
+export const applySliceInstancing = (material: THREE.Material, uniforms: SliceUniforms) => {
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${SLICE_PLACEMENT_GLSL}\n${SLICE_COLOR_GLSL}\nvarying vec3 vSliceColor;\nvarying float vSliceGlow;`)
+      .replace('#include <beginnormal_vertex>', `#include <beginnormal_vertex>
+        mat4 sliceMatrix = slicePlacement(aIndex);
+        vSliceColor = sliceColor(aIndex);
+        vSliceGlow = sliceGlow(aIndex);
+        objectNormal = transpose(inverse(mat3(sliceMatrix))) * objectNormal;`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>
+        transformed = (sliceMatrix * vec4(transformed, 1.0)).xyz;`);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nvarying vec3 vSliceColor;\nvarying float vSliceGlow;')
+      .replace('#include <color_fragment>', '#include <color_fragment>\ndiffuseColor.rgb *= vSliceColor;')
+      .replace('#include <emissivemap_fragment>', '#include <emissivemap_fragment>\ntotalEmissiveRadiance += vSliceColor * vSliceGlow;');
+  };
+  material.customProgramCacheKey = () => 'slice-instancing';
+  material.needsUpdate = true;
+};
+
+/**
+ * Torus shared by every slice, drawn `count` times. `aIndex` is the only
+ * per-instance data.
+ */
+export const createSliceGeometry = (radius: number, tube: number, count: number) => {
+  const torus = new THREE.TorusGeometry(radius, tube, 16, 64);
+  const geometry = new THREE.InstancedBufferGeometry();
+  geometry.index = torus.index;
+  for (const name of ['position', 'normal', 'uv']) geometry.setAttribute(name, torus.getAttribute(name));
+  const index = new Float32Array(count);
+  for (let i = 0; i < count; i++) index[i] = i;
+  geometry.setAttribute('aIndex', new THREE.InstancedBufferAttribute(index, 1));
+  geometry.instanceCount = count;
+  return geometry;
+};
+
+// --- CPU mirror ---
+
+/**
+ * Chain displacement at t along the stack, interpolated between nodes like
+ * the shader's sliceChain(). Returns (x, z, r) as a vector's x, y, z.
+ */
+export const chainOffset = (chain: SpringChain, t: number, out: THREE.Vector3) => {
+  const u = THREE.MathUtils.clamp(t, 0, 1) * (chain.count - 1);
+  const i0 = Math.floor(u);
+  const i1 = Math.min(i0 + 1, chain.count - 1);
+  const f = u - i0;
+  return out.set(
+    chain.x[i0] + (chain.x[i1] - chain.x[i0]) * f,
+    chain.z[i0] + (chain.z[i1] - chain.z[i0]) * f,
+    chain.r[i0] + (chain.r[i1] - chain.r[i0]) * f
+  );
+};
+
+// Adds the chain to generated transforms, as generatedPlacement() does
+export const applyChain = (transforms: SliceTransforms, chain: SpringChain) => {
+  const { count, position, scale } = transforms;
+  for (let i = 0; i < count; i++) {
+    const offset = chainOffset(chain, i / Math.max(count - 1, 1), tempOffset);
+    position[i * 3] += offset.x;
+    position[i * 3 + 2] += offset.y;
+    for (const k of [i * 3, i * 3 + 1]) scale[k] = Math.max(scale[k] + offset.z, scale[k] * 0.1);
+  }
+};
+
+// Level of the band the slice at t along the stack listens to, as the
+// shader's sliceBand()
+export const sliceBand = (spectrum: ArrayLike<number>, t: number) => {
+  const u = THREE.MathUtils.clamp(t, 0, 1) * (SPECTRUM_BANDS - 1);
+  const i0 = Math.floor(u);
+  const i1 = Math.min(i0 + 1, SPECTRUM_BANDS - 1);
+  return (spectrum[i0] ?? 0) + ((spectrum[i1] ?? 0) - (spectrum[i0] ?? 0)) * (u - i0);
+};
+
+// Swells or displaces transforms with the spectrum, as slicePlacement() does
+export const applySpectrum = (transforms: SliceTransforms, spectrum: ArrayLike<number>, mode: SpectrumMode) => {
+  if (mode !== 'SWELL' && mode !== 'DISPLACE') return;
+  const { count, position, scale } = transforms;
+  for (let i = 0; i < count; i++) {
+    const level = sliceBand(spectrum, i / Math.max(count - 1, 1));
+    if (mode === 'SWELL') {
+      scale[i * 3] *= 1 + level * SPECTRUM_SWELL;
+      scale[i * 3 + 1] *= 1 + level * SPECTRUM_SWELL;
+    } else {
+      const angle = i * GOLDEN_ANGLE;
+      position[i * 3] += Math.cos(angle) * level * SPECTRUM_DISPLACE;
+      position[i * 3 + 2] += Math.sin(angle) * level * SPECTRUM_DISPLACE;
+    }
+  }
+};
+
+const tempOffset = new THREE.Vector3();
+const tempColor = new THREE.Color();
+
+// --- Palette layers ---
+
+type Layer = { name: string; weight: number };
+
+/**
+ * The palettes on screen and how much each one shows. A palette's target
+ * weight is the total weight of the emotions mapped to it; weights ease
+ * toward their targets, so emotion changes and palette swaps cross-fade.
+ * Each layer is one row of the palette texture.
+ */
+export class PaletteLayers {
+  readonly layers: Layer[] = [];
+  private started = false;
+
+  update(targets: Map<string, number>, ease: number) {
+    for (const layer of this.layers) layer.weight += ((targets.get(layer.name) ?? 0) - layer.weight) * ease;
+    for (const [name, weight] of targets) {
+      if (!this.layers.some(l => l.name === name)) this.layers.push({ name, weight: this.started ? 0 : weight });
+    }
+    this.started = true;
+
+    // Drop faded layers, and the weakest if there are too many
+    const kept = this.layers
+      .filter(l => l.weight >= 0.001 || (targets.get(l.name) ?? 0) > 0)
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_PALETTE_LAYERS);
+    this.layers.length = 0;
+    this.layers.push(...kept);
+  }
+
+  // Writes the layer colors and normalized weights into the uniforms
+  upload(uniforms: SliceUniforms, colorsOf: (name: string) => THREE.Color[]) {
+    const texture = uniforms.uPalettes.value;
+    const data = texture.image.data as Float32Array;
+    const total = this.layers.reduce((sum, l) => sum + l.weight, 0) || 1;
+    for (let k = 0; k < MAX_PALETTE_LAYERS; k++) {
+      const layer = this.layers[k];
+      const colors = layer ? colorsOf(layer.name).slice(0, MAX_PALETTE_COLORS) : [];
+      uniforms.uLayerLength.value[k] = colors.length;
+      uniforms.uLayerWeight.value[k] = layer && colors.length ? layer.weight / total : 0;
+      colors.forEach((c, i) => {
+        const p = (k * MAX_PALETTE_COLORS + i) * 4;
+        data[p] = c.r;
+        data[p + 1] = c.g;
+        data[p + 2] = c.b;
+        data[p + 3] = 1;
+      });
+    }
+    texture.needsUpdate = true;
+  }
+
+  // Gradient of the blended palettes at t, for the shader materials' color stops
+  gradient(colorsOf: (name: string) => THREE.Color[], t: number, target: THREE.Color) {
+    const total = this.layers.reduce((sum, l) => sum + l.weight, 0) || 1;
+    target.setRGB(0, 0, 0);
+    for (const layer of this.layers) {
+      const colors = colorsOf(layer.name);
+      if (!colors.length) continue;
+      sampleGradient(colors, t, tempColor);
+      target.r += tempColor.r * layer.weight / total;
+      target.g += tempColor.g * layer.weight / total;
+      target.b += tempColor.b * layer.weight / total;
+    }
+    return target;
+  }
+
+  /**
+   * Every slice's color as linear rgb triples, as sliceColor() in the shader
+   * computes it; for exports, which can't read the GPU's colors back.
+   */
+  sliceColors(
+    colorsOf: (name: string) => THREE.Color[],
+    mode: ColorMapping,
+    state: { count: number; twist: number; time: number; low: number; high: number; seed: number },
+    out = new Float32Array(state.count * 3)
+  ) {
+    const { count, twist, time, low, high, seed } = state;
+    const total = this.layers.reduce((sum, l) => sum + l.weight, 0) || 1;
+    const slice: SliceContext = { index: 0, count, angle: 0, level: 0, seed };
+    out.fill(0);
+    for (const layer of this.layers) {
+      const weight = layer.weight / total;
+      const colors = colorsOf(layer.name).slice(0, MAX_PALETTE_COLORS);
+      if (weight < 0.001 || !colors.length) continue;
+      for (let i = 0; i < count; i++) {
+        slice.index = i;
+        slice.angle = i / count * twist + time * 0.2;
+        slice.level = low + (high - low) * i / count;
+        mapSliceColor(mode, colors, slice, tempColor);
+        out[i * 3] += tempColor.r * weight;
+        out[i * 3 + 1] += tempColor.g * weight;
+        out[i * 3 + 2] += tempColor.b * weight;
+      }
+    }
+    return out;
+  }
+}
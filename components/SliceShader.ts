@@ -1,9 +1,9 @@
 import * as THREE from 'three';
 import { shaderMaterial } from '@react-three/drei';
+import { SLICE_PLACEMENT_GLSL } from './SliceInstancing';
 
 const SliceMaterial = shaderMaterial(
   {
-    uTime: 0,
     uColor1: new THREE.Color('#D7CEA3'),
     uColor2: new THREE.Color('#907826'),
     uColor3: new THREE.Color('#A46719'),
@@ -13,11 +13,16 @@ const SliceMaterial = shaderMaterial(
     uNoiseStrength: 0.5,
     uHueShift: 0.0,
     uOffset: 0.0,
-    uCrystalMode: 0.0, // 0 = Solid, 1 = Crystal
+    uCrystalMode: 0.0, // 0 = Solid, 1 = Crystal, in between blends the two
+    uHeight: 12.0,     // Stack height the gradient spans
+    uOpacity: 1.0,
   },
-  // Vertex Shader
+  // Vertex Shader. The placement uniforms, uTime among them, are declared by
+  // SLICE_PLACEMENT_GLSL; their values come from createSliceUniforms()
   `
-    uniform float uTime;
+    #include <common>
+    ${SLICE_PLACEMENT_GLSL}
+
     uniform float uNoiseScale;
     uniform float uNoiseStrength;
 
@@ -26,6 +31,7 @@ const SliceMaterial = shaderMaterial(
     varying float vHeight;
     varying vec3 vNormal;
     varying vec3 vViewPosition;
+    varying float vGlow;
 
     // --- Simplex Noise 2D ---
     vec3 permute(vec3 x) { return mod(((x*34.0)+1.0)*x, 289.0); }
@@ -56,11 +62,11 @@ const SliceMaterial = shaderMaterial(
     void main() {
       vUv = uv;
 
-      // Access the instance transformation matrix automatically provided by Three.js for InstancedMesh
-      vec3 instancePos = vec3(instanceMatrix[3][0], instanceMatrix[3][1], instanceMatrix[3][2]);
-      float instanceHeight = instancePos.y;
+      // Each instance places itself from its index, like the glass
+      mat4 sliceMatrix = slicePlacement(aIndex);
+      float instanceHeight = sliceMatrix[3][1];
 
-      vec4 worldPos = instanceMatrix * vec4(position, 1.0);
+      vec4 worldPos = sliceMatrix * vec4(position, 1.0);
       float angle = atan(worldPos.x, worldPos.z);
       
       float n1 = snoise(vec2(angle * uNoiseScale, instanceHeight * 0.4 - uTime * 0.2));
@@ -69,6 +75,7 @@ const SliceMaterial = shaderMaterial(
 
       vNoise = totalNoise;
       vHeight = instanceHeight;
+      vGlow = sliceGlow(aIndex);
 
       // Displacement
       vec2 centerDir = normalize(position.xy);
@@ -78,13 +85,13 @@ const SliceMaterial = shaderMaterial(
       newPos.x += centerDir.x * displacementAmount;
       newPos.y += centerDir.y * displacementAmount;
 
-      vec4 mvPosition = modelViewMatrix * instanceMatrix * vec4(newPos, 1.0);
+      vec4 mvPosition = modelViewMatrix * sliceMatrix * vec4(newPos, 1.0);
       gl_Position = projectionMatrix * mvPosition;
 
       // Pass data for fragment
       vViewPosition = -mvPosition.xyz;
       // Recalculate normal approximation (simplified)
-      vNormal = normalize(normalMatrix * mat3(instanceMatrix) * normal);
+      vNormal = normalize(normalMatrix * mat3(sliceMatrix) * normal);
     }
   `,
   // Fragment Shader
@@ -97,11 +104,14 @@ const SliceMaterial = shaderMaterial(
     uniform float uHueShift;
     uniform float uOffset;
     uniform float uCrystalMode;
+    uniform float uHeight;
+    uniform float uOpacity;
 
     varying float vNoise;
     varying float vHeight;
     varying vec3 vNormal;
     varying vec3 vViewPosition;
+    varying float vGlow;
 
     // Linear interpolation palette
     vec3 getPalette(float t) {
@@ -134,7 +144,7 @@ const SliceMaterial = shaderMaterial(
     }
 
     void main() {
-      float normalizedHeight = (vHeight + 6.0) / 12.0;
+      float normalizedHeight = (vHeight + uHeight * 0.5) / max(uHeight, 0.001);
       normalizedHeight = clamp(normalizedHeight, 0.0, 1.0);
 
       float paletteT = normalizedHeight + vNoise * 0.1 + uOffset;
@@ -151,15 +161,16 @@ const SliceMaterial = shaderMaterial(
       float highlight = smoothstep(0.4, 1.0, vNoise);
       color += vec3(1.0, 1.0, 1.0) * highlight * 0.6;
       color *= 1.2;
+      color += color * vGlow; // Spectrum GLOW mode
 
-      // Crystal Mode Logic
+      // Crystal Mode Logic (blended so switching modes can fade)
       float alpha = 1.0;
-      if (uCrystalMode > 0.5) {
+      if (uCrystalMode > 0.001) {
           // Desaturate slightly for icy look
           vec3 hsv = rgb2hsv(color);
           hsv.y *= 0.6; 
           hsv.z += 0.4;
-          color = hsv2rgb(hsv);
+          vec3 crystal = hsv2rgb(hsv);
 
           // Fresnel Effect for Transparency
           vec3 viewDir = normalize(vViewPosition);
@@ -168,11 +179,14 @@ const SliceMaterial = shaderMaterial(
           fresnel = clamp(1.0 - fresnel, 0.0, 1.0);
           
           // Edges are bright and opaque, center is transparent
-          alpha = pow(fresnel, 3.0) * 0.8 + 0.1;
-          color += vec3(0.5, 0.8, 1.0) * pow(fresnel, 2.0) * 2.0; // Blue-ish rim light
+          float crystalAlpha = pow(fresnel, 3.0) * 0.8 + 0.1;
+          crystal += vec3(0.5, 0.8, 1.0) * pow(fresnel, 2.0) * 2.0; // Blue-ish rim light
+
+          color = mix(color, crystal, uCrystalMode);
+          alpha = mix(1.0, crystalAlpha, uCrystalMode);
       }
 
-      gl_FragColor = vec4(color, alpha);
+      gl_FragColor = vec4(color, alpha * uOpacity);
 
       gl_FragColor.rgb = pow(gl_FragColor.rgb, vec3(1.0 / 2.2));
     }
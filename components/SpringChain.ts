@@ -0,0 +1,107 @@
+import { SPRING_STEP } from './Springs';
+
+// Substeps per 60 Hz step; keeps the stiff neighbor coupling stable
+const SUBSTEPS = 4;
+const STEP = SPRING_STEP / SUBSTEPS;
+const MAX_STEPS = 10 * SUBSTEPS;
+
+export type ChainParams = {
+  stiffness: number;  // Pull of each node back to rest, per second²
+  waveSpeed: number;  // How fast a disturbance travels, in stack lengths per second
+  damping: number;    // Velocity loss per second
+  massTaper: number;  // Extra mass at the bottom: mass runs 1 + taper (bottom) to 1 (top)
+};
+
+export type Impulse = { x?: number; z?: number; r?: number };
+
+/**
+ * One node per slice, each displaced sideways (x, z) and radially (r) from
+ * its place in the stack. Nodes are tied to rest and to their neighbors, so
+ * a push at one height travels up and down the stack as a wave. The ends are
+ * free and reflect it.
+ *
+ * Integrated with semi-implicit Euler at a fixed substep, like SpringValue.
+ */
+export class SpringChain {
+  readonly count: number;
+  readonly x: Float32Array;
+  readonly z: Float32Array;
+  readonly r: Float32Array;
+  readonly mass: Float32Array;
+  readonly damping: Float32Array;
+  stiffness = 0;
+  coupling = 0;
+
+  private vx: Float32Array;
+  private vz: Float32Array;
+  private vr: Float32Array;
+  private accumulator = 0;
+
+  constructor(count: number, params: ChainParams) {
+    this.count = count;
+    this.x = new Float32Array(count);
+    this.z = new Float32Array(count);
+    this.r = new Float32Array(count);
+    this.vx = new Float32Array(count);
+    this.vz = new Float32Array(count);
+    this.vr = new Float32Array(count);
+    this.mass = new Float32Array(count);
+    this.damping = new Float32Array(count);
+    this.configure(params);
+  }
+
+  configure({ stiffness, waveSpeed, damping, massTaper }: ChainParams) {
+    this.stiffness = stiffness;
+    // Coupling between neighbors for that speed, capped where the substep would go unstable
+    this.coupling = Math.min((waveSpeed * Math.max(this.count - 1, 1)) ** 2, 0.8 / (STEP * STEP));
+    for (let i = 0; i < this.count; i++) {
+      const t = this.count > 1 ? i / (this.count - 1) : 0;
+      this.mass[i] = 1 + massTaper * (1 - t);
+      this.damping[i] = damping;
+    }
+  }
+
+  /**
+   * Adds velocity around `t` (0 = bottom, 1 = top of the stack), falling off
+   * as a Gaussian `width` (in stack fractions) wide. Heavier nodes move less.
+   */
+  pluck(t: number, impulse: Impulse, width = 0.05) {
+    const center = t * (this.count - 1);
+    const sigma = Math.max(width * (this.count - 1), 0.5);
+    const reach = Math.ceil(sigma * 3);
+    for (let i = Math.max(0, Math.floor(center - reach)); i <= Math.min(this.count - 1, Math.ceil(center + reach)); i++) {
+      const d = (i - center) / sigma;
+      const w = Math.exp(-0.5 * d * d) / this.mass[i];
+      this.vx[i] += (impulse.x ?? 0) * w;
+      this.vz[i] += (impulse.z ?? 0) * w;
+      this.vr[i] += (impulse.r ?? 0) * w;
+    }
+  }
+
+  stop() {
+    this.vx.fill(0);
+    this.vz.fill(0);
+    this.vr.fill(0);
+  }
+
+  update(dt: number) {
+    this.accumulator = Math.min(this.accumulator + Math.max(dt, 0), STEP * MAX_STEPS);
+    while (this.accumulator >= STEP - 1e-9) {
+      this.step(this.x, this.vx);
+      this.step(this.z, this.vz);
+      this.step(this.r, this.vr);
+      this.accumulator = Math.max(this.accumulator - STEP, 0);
+    }
+  }
+
+  private step(u: Float32Array, v: Float32Array) {
+    const n = this.count;
+    for (let i = 0; i < n; i++) {
+      const left = i > 0 ? u[i - 1] : u[i];
+      const right = i < n - 1 ? u[i + 1] : u[i];
+      const force = -this.stiffness * u[i] + this.coupling * (left - 2 * u[i] + right) - this.damping[i] * v[i];
+      v[i] += (force / this.mass[i]) * STEP;
+    }
+    for (let i = 0; i < n; i++) u[i] += v[i] * STEP;
+  }
+}
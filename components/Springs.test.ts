@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Spring, SpringValue, DampedSpring, smoothing, damp,
+  frequencyFromStiffness, dampingRatioFromConstants
+} from './Springs';
+
+// Frame rates under test; each divides evenly into SAMPLE_RATE samples per second
+const FRAME_RATES = [30, 60, 144];
+const SAMPLE_RATE = 6;
+const DURATION = 3;
+
+// Advances `update` at `fps` for DURATION seconds, reading `read` at the shared sample times
+const simulate = (fps: number, update: (dt: number) => void, read: () => number) => {
+  const samples: number[] = [];
+  const framesPerSample = fps / SAMPLE_RATE;
+  for (let frame = 1; frame <= DURATION * fps; frame++) {
+    update(1 / fps);
+    if (frame % framesPerSample === 0) samples.push(read());
+  }
+  return samples;
+};
+
+// A spring released from 0 towards 1 with a kick, sampled at each frame rate
+const trajectories = (create: () => Spring) =>
+  FRAME_RATES.map(fps => {
+    const spring = create();
+    spring.target = 1;
+    spring.velocity = 0.05;
+    return simulate(fps, dt => spring.update(dt), () => spring.value);
+  });
+
+const expectSameTrajectories = ([reference, ...others]: number[][], tolerance: number) => {
+  expect(reference).toHaveLength(DURATION * SAMPLE_RATE);
+  for (const other of others) {
+    other.forEach((value, i) => expect(Math.abs(value - reference[i])).toBeLessThan(tolerance));
+  }
+};
+
+describe('SpringValue', () => {
+  it('follows the same trajectory at 30, 60 and 144 fps', () => {
+    expectSameTrajectories(trajectories(() => new SpringValue(0, 0.1, 0.8)), 1e-6);
+  });
+
+  it('still moves when frames are shorter than a step', () => {
+    const spring = new SpringValue(0, 0.1, 0.8);
+    spring.target = 1;
+    spring.update(1 / 144);
+    spring.update(1 / 144);
+    spring.update(1 / 144);
+    expect(spring.value).toBeGreaterThan(0);
+  });
+});
+
+describe('DampedSpring', () => {
+  it.each([
+    ['critically damped', 1],
+    ['underdamped', 0.3],
+    ['overdamped', 2],
+  ])('follows the same trajectory at 30, 60 and 144 fps when %s', (_, dampingRatio) => {
+    expectSameTrajectories(trajectories(() => new DampedSpring(0, 1.5, dampingRatio)), 1e-9);
+  });
+
+  it('takes its frequency and damping ratio from the per-step constants', () => {
+    // Small steps: the fixed-step spring approaches the closed form
+    const stiffness = 0.01, damping = 0.95;
+    const [stepped] = trajectories(() => new SpringValue(0, stiffness, damping));
+    const [analytic] = trajectories(() => new DampedSpring(0, frequencyFromStiffness(stiffness), dampingRatioFromConstants(stiffness, damping)));
+    stepped.forEach((value, i) => expect(Math.abs(value - analytic[i])).toBeLessThan(0.1));
+  });
+});
+
+describe('smoothing', () => {
+  it('matches the per-frame factor at 60 fps', () => {
+    expect(smoothing(0.1, 1 / 60)).toBeCloseTo(0.1, 12);
+  });
+
+  it('compounds to the same blend over a second at any frame rate', () => {
+    const blends = FRAME_RATES.map(fps => 1 - Math.pow(1 - smoothing(0.1, 1 / fps), fps));
+    blends.forEach(blend => expect(blend).toBeCloseTo(blends[0], 12));
+  });
+
+  it('snaps when the factor is 1', () => {
+    expect(smoothing(1, 1 / 144)).toBe(1);
+  });
+});
+
+describe('damp', () => {
+  it('follows the same trajectory at 30, 60 and 144 fps', () => {
+    expectSameTrajectories(FRAME_RATES.map(fps => {
+      let value = 0;
+      return simulate(fps, dt => { value = damp(value, 1, 0.05, dt); }, () => value);
+    }), 1e-9);
+  });
+});
@@ -0,0 +1,133 @@
+// Frame-rate independent smoothing and springs.
+//
+// Tuning constants throughout the app were written as "per frame at 60 fps".
+// Everything here keeps that meaning but advances by elapsed seconds, so the
+// motion is the same at 30, 60 or 144 fps.
+
+// Step the per-frame constants are expressed in
+export const SPRING_STEP = 1 / 60;
+
+// After a long stall (hidden tab) don't try to catch up more than this
+const MAX_STEPS = 10;
+
+// Slack so accumulated float error doesn't drop a step
+const STEP_EPSILON = 1e-9;
+
+/**
+ * Frame-rate independent version of `a + (b - a) * perFrame`: the blend
+ * factor for `dt` seconds that matches applying `perFrame` once per 1/60 s.
+ */
+export const smoothing = (perFrame: number, dt: number) =>
+  perFrame >= 1 ? 1 : 1 - Math.pow(1 - perFrame, Math.max(dt, 0) / SPRING_STEP);
+
+export const damp = (current: number, target: number, perFrame: number, dt: number) =>
+  current + (target - current) * smoothing(perFrame, dt);
+
+// Common surface of both spring types. `velocity` is in units per 1/60 s step,
+// so impulses tuned for the old per-frame springs keep their strength.
+export interface Spring {
+  value: number;
+  target: number;
+  velocity: number;
+  update(dt: number): void;
+}
+
+/**
+ * Hooke spring integrated with semi-implicit Euler at a fixed 60 Hz step.
+ * Each step: velocity = velocity * damping + (target - position) * stiffness.
+ * `value` is interpolated between the last two steps so rendering stays
+ * smooth when frames don't line up with steps.
+ */
+export class SpringValue implements Spring {
+  value: number;
+  target: number;
+  velocity = 0;
+  stiffness: number;
+  damping: number;
+
+  private position: number;
+  private previous: number;
+  private accumulator = 0;
+
+  constructor(initial: number, stiffness = 0.1, damping = 0.8) {
+    this.value = this.position = this.previous = this.target = initial;
+    this.stiffness = stiffness;
+    this.damping = damping;
+  }
+
+  update(dt: number) {
+    this.accumulator = Math.min(this.accumulator + Math.max(dt, 0), SPRING_STEP * MAX_STEPS);
+    while (this.accumulator >= SPRING_STEP - STEP_EPSILON) {
+      this.previous = this.position;
+      const force = (this.target - this.position) * this.stiffness;
+      this.velocity = this.velocity * this.damping + force;
+      this.position += this.velocity;
+      this.accumulator = Math.max(this.accumulator - SPRING_STEP, 0);
+    }
+    const alpha = this.accumulator / SPRING_STEP;
+    this.value = this.previous + (this.position - this.previous) * alpha;
+  }
+}
+
+/**
+ * Damped harmonic oscillator solved in closed form, so any `dt` is exact.
+ * `frequency` is the undamped frequency in Hz; `dampingRatio` 1 is critically
+ * damped (fastest approach without overshoot), below 1 bounces, above 1 creeps.
+ */
+export class DampedSpring implements Spring {
+  value: number;
+  target: number;
+  velocity = 0;
+  frequency: number;
+  dampingRatio: number;
+
+  constructor(initial: number, frequency = 2, dampingRatio = 1) {
+    this.value = this.target = initial;
+    this.frequency = frequency;
+    this.dampingRatio = dampingRatio;
+  }
+
+  update(dt: number) {
+    const t = Math.min(Math.max(dt, 0), SPRING_STEP * MAX_STEPS);
+    if (t === 0) return;
+
+    const w = 2 * Math.PI * this.frequency;
+    const z = this.dampingRatio;
+    const x = this.value - this.target;
+    const v = this.velocity / SPRING_STEP; // units per second
+
+    let nx: number, nv: number;
+    if (Math.abs(z - 1) < 1e-4) {
+      const e = Math.exp(-w * t);
+      const b = v + w * x;
+      nx = (x + b * t) * e;
+      nv = (b - w * (x + b * t)) * e;
+    } else if (z < 1) {
+      const wd = w * Math.sqrt(1 - z * z);
+      const e = Math.exp(-z * w * t);
+      const c = Math.cos(wd * t), s = Math.sin(wd * t);
+      const b = (v + z * w * x) / wd;
+      nx = e * (x * c + b * s);
+      nv = e * ((wd * b - z * w * x) * c - (z * w * b + wd * x) * s);
+    } else {
+      const root = Math.sqrt(z * z - 1);
+      const r1 = -w * (z - root);
+      const r2 = -w * (z + root);
+      const c1 = (v - r2 * x) / (r1 - r2);
+      const c2 = x - c1;
+      const e1 = Math.exp(r1 * t), e2 = Math.exp(r2 * t);
+      nx = c1 * e1 + c2 * e2;
+      nv = c1 * r1 * e1 + c2 * r2 * e2;
+    }
+
+    this.value = this.target + nx;
+    this.velocity = nv * SPRING_STEP;
+  }
+}
+
+// Continuous-time equivalents of the per-step stiffness/damping constants
+export const frequencyFromStiffness = (stiffness: number) =>
+  Math.sqrt(Math.max(stiffness, 0)) / SPRING_STEP / (2 * Math.PI);
+
+export const dampingRatioFromConstants = (stiffness: number, damping: number) =>
+  (1 - damping) / (2 * Math.sqrt(Math.max(stiffness, 1e-9)));
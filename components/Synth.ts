@@ -0,0 +1,360 @@
+import { GESTURE_EVENTS } from '../constants';
+import { reportAssetError } from '../assets';
+import { HandData, TwoHandsData } from './HandTracker';
+import { AxisMapping, EffectsPatch, EnvelopePatch, Gate, HandAxis, SynthPatch, VoicePatch } from './SynthPatch';
+
+// Web Audio side of the synth patches (SynthPatch.ts).
+//
+// voice:   oscillators (x unison) -> filter -> envelope -> level
+// synth:   bass + lead -> distortion -> delay -> reverb -> output
+//
+// Each effect mixes its wet signal over the dry one, so a mix of 0 leaves the
+// sound untouched. AudioManager drives pitch and gates every frame; the hand
+// mappings are applied by modulate().
+
+// Synthetic hall impulse response (decaying stereo noise), bundled with the app
+const IMPULSE_URL = new URL('../audio/hall-impulse.wav', import.meta.url).href;
+
+export type HandAxes = Record<HandAxis, number>;
+
+export const handAxes = ({ left, right }: TwoHandsData): HandAxes => {
+  const grip = (hand: HandData) => (hand.present ? 1 - Math.min(Math.max(hand.pinch, 0), 1) : 0);
+  const unit = (v: number) => Math.min(Math.max((v + 1) / 2, 0), 1);
+  return {
+    NONE: 0,
+    LEFT_X: unit(left.x),
+    LEFT_Y: unit(left.y),
+    LEFT_PINCH: grip(left),
+    RIGHT_X: unit(right.x),
+    RIGHT_Y: unit(right.y),
+    RIGHT_PINCH: grip(right),
+  };
+};
+
+export const mapAxis = (mapping: AxisMapping, axes: HandAxes) =>
+  mapping.axis === 'NONE' ? mapping.min : mapping.min + (mapping.max - mapping.min) * axes[mapping.axis];
+
+// Same, on a log scale (frequencies)
+export const mapAxisLog = (mapping: AxisMapping, axes: HandAxes) =>
+  mapping.axis === 'NONE' ? mapping.min : mapping.min * (mapping.max / mapping.min) ** axes[mapping.axis];
+
+/**
+ * Whether a hand holds a voice's gate open. Pinches use the gesture
+ * hysteresis so a hovering pinch doesn't chatter.
+ */
+export const gateHeld = (gate: Gate, hand: HandData, wasOpen: boolean) => {
+  if (!hand.present) return false;
+  if (gate === 'PRESENCE') return true;
+  return hand.pinch < (wasOpen ? GESTURE_EVENTS.pinchExit : GESTURE_EVENTS.pinchEnter);
+};
+
+// Soft clipping curve; amount 0 is nearly linear, 1 is heavy fuzz
+export const distortionCurve = (amount: number, samples = 1024) => {
+  const k = amount * 100;
+  const curve = new Float32Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const x = (i * 2) / (samples - 1) - 1;
+    curve[i] = ((1 + k) * x) / (1 + k * Math.abs(x));
+  }
+  return curve;
+};
+
+// Freezes a param at its value at `time`, dropping everything after
+const holdAt = (param: AudioParam, time: number) => {
+  if (typeof param.cancelAndHoldAtTime === 'function') {
+    param.cancelAndHoldAtTime(time);
+  } else {
+    param.cancelScheduledValues(time);
+    param.setValueAtTime(param.value, time);
+  }
+};
+
+const envelopeOn = (param: AudioParam, env: EnvelopePatch, time: number) => {
+  holdAt(param, time);
+  param.linearRampToValueAtTime(1, time + env.attack);
+  param.setTargetAtTime(env.sustain, time + env.attack, env.decay / 3);
+};
+
+const envelopeOff = (param: AudioParam, env: EnvelopePatch, time: number) => {
+  holdAt(param, time);
+  param.setTargetAtTime(0, time, env.release / 3);
+};
+
+// Parameters follow the hands this smoothly
+const MODULATION_TIME = 0.05;
+
+/**
+ * One voice of a patch. Oscillator changes need a new voice; everything else
+ * is read from `patch` as it's used, so the rest can be edited in place.
+ */
+export class SynthVoice {
+  readonly output: GainNode;
+  private oscillators: { node: OscillatorNode; octave: number }[] = [];
+  private filter: BiquadFilterNode;
+  private envelope: GainNode;
+  private lfo: OscillatorNode;
+  private lfoDepth: GainNode;
+  private nodes: AudioNode[] = [];
+  private open = false;
+
+  constructor(private ctx: AudioContext, public patch: VoicePatch) {
+    this.output = ctx.createGain();
+    this.output.gain.value = 0;
+    this.envelope = ctx.createGain();
+    this.envelope.gain.value = 0;
+    this.filter = ctx.createBiquadFilter();
+    this.filter.type = patch.filter.type;
+    this.filter.connect(this.envelope);
+    this.envelope.connect(this.output);
+
+    this.lfo = ctx.createOscillator();
+    this.lfo.frequency.value = patch.vibrato.rate;
+    this.lfoDepth = ctx.createGain();
+    this.lfoDepth.gain.value = 0;
+    this.lfo.connect(this.lfoDepth);
+
+    for (const osc of patch.oscillators) {
+      // Unison copies spread evenly across `spread` cents, at equal power
+      const gain = ctx.createGain();
+      gain.gain.value = osc.level / Math.sqrt(osc.unison);
+      gain.connect(this.filter);
+      this.nodes.push(gain);
+      for (let u = 0; u < osc.unison; u++) {
+        const node = ctx.createOscillator();
+        node.type = osc.waveform;
+        node.detune.value = osc.detune + (osc.unison > 1 ? (u / (osc.unison - 1) - 0.5) * osc.spread : 0);
+        this.lfoDepth.connect(node.detune);
+        node.connect(gain);
+        node.start();
+        this.oscillators.push({ node, octave: osc.octave });
+      }
+    }
+    this.lfo.start();
+  }
+
+  get gateOpen() {
+    return this.open;
+  }
+
+  setPitch(hz: number, time: number, timeConstant: number) {
+    for (const { node, octave } of this.oscillators) {
+      node.frequency.setTargetAtTime(hz * 2 ** octave, time, timeConstant);
+    }
+  }
+
+  // Opens or closes the gate, triggering the envelope on changes
+  gate(open: boolean, time: number) {
+    if (open === this.open) return;
+    this.open = open;
+    if (open) envelopeOn(this.envelope.gain, this.patch.envelope, time);
+    else envelopeOff(this.envelope.gain, this.patch.envelope, time);
+  }
+
+  // One note of `length` seconds from `time` (arpeggio steps), gate or not
+  pluck(time: number, length: number) {
+    envelopeOn(this.envelope.gain, this.patch.envelope, time);
+    envelopeOff(this.envelope.gain, this.patch.envelope, time + length);
+  }
+
+  // Drops plucks still scheduled and follows the gate again
+  stopPlucks(time: number) {
+    if (this.open) envelopeOn(this.envelope.gain, this.patch.envelope, time);
+    else envelopeOff(this.envelope.gain, this.patch.envelope, time);
+  }
+
+  // Level, filter and vibrato from the hands
+  modulate(axes: HandAxes, time: number) {
+    const { patch } = this;
+    if (this.filter.type !== patch.filter.type) this.filter.type = patch.filter.type;
+    this.lfo.frequency.setTargetAtTime(patch.vibrato.rate, time, MODULATION_TIME);
+    this.lfoDepth.gain.setTargetAtTime(mapAxis(patch.vibrato.depth, axes), time, MODULATION_TIME);
+    this.filter.frequency.setTargetAtTime(mapAxisLog(patch.filter.cutoff, axes), time, MODULATION_TIME);
+    this.filter.Q.setTargetAtTime(mapAxis(patch.filter.resonance, axes), time, MODULATION_TIME);
+    this.output.gain.setTargetAtTime(mapAxis(patch.level, axes), time, MODULATION_TIME);
+  }
+
+  // Stops after `fade` seconds, so a replaced voice doesn't click
+  dispose(fade = 0.05) {
+    const end = this.ctx.currentTime + fade;
+    holdAt(this.output.gain, this.ctx.currentTime);
+    this.output.gain.linearRampToValueAtTime(0, end);
+    for (const { node } of this.oscillators) node.stop(end);
+    this.lfo.stop(end);
+    this.lfo.onended = () => {
+      for (const node of [...this.oscillators.map(o => o.node), ...this.nodes, this.lfo, this.lfoDepth, this.filter, this.envelope, this.output]) {
+        node.disconnect();
+      }
+    };
+  }
+}
+
+/**
+ * Distortion, delay and reverb in series, each with a dry/wet mix.
+ */
+export class EffectsChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private shaper: WaveShaperNode;
+  private distortionDry: GainNode;
+  private distortionWet: GainNode;
+  private delay: DelayNode;
+  private feedback: GainNode;
+  private delayWet: GainNode;
+  private convolver: ConvolverNode;
+  private reverbDry: GainNode;
+  private reverbWet: GainNode;
+  private amount = -1;
+  private nodes: AudioNode[];
+
+  constructor(private ctx: AudioContext) {
+    const gain = (value = 1) => {
+      const node = ctx.createGain();
+      node.gain.value = value;
+      return node;
+    };
+    this.input = gain();
+    this.output = gain();
+
+    // Distortion: input -> dry + shaper -> wet -> afterDistortion
+    const afterDistortion = gain();
+    this.distortionDry = gain();
+    this.distortionWet = gain(0);
+    this.shaper = ctx.createWaveShaper();
+    this.shaper.oversample = '4x';
+    this.input.connect(this.distortionDry).connect(afterDistortion);
+    this.input.connect(this.shaper).connect(this.distortionWet).connect(afterDistortion);
+
+    // Delay: the dry signal passes; echoes feed back on themselves
+    const afterDelay = gain();
+    this.delay = ctx.createDelay(2);
+    this.feedback = gain(0);
+    this.delayWet = gain(0);
+    afterDistortion.connect(afterDelay);
+    afterDistortion.connect(this.delay);
+    this.delay.connect(this.feedback).connect(this.delay);
+    this.delay.connect(this.delayWet).connect(afterDelay);
+
+    // Reverb: silent until the impulse response has loaded
+    this.reverbDry = gain();
+    this.reverbWet = gain(0);
+    this.convolver = ctx.createConvolver();
+    afterDelay.connect(this.reverbDry).connect(this.output);
+    afterDelay.connect(this.convolver).connect(this.reverbWet).connect(this.output);
+
+    this.nodes = [
+      this.input, this.output, afterDistortion, this.distortionDry, this.distortionWet, this.shaper,
+      afterDelay, this.delay, this.feedback, this.delayWet, this.reverbDry, this.reverbWet, this.convolver,
+    ];
+  }
+
+  set(effects: EffectsPatch, time: number) {
+    const { distortion, delay, reverb } = effects;
+    if (distortion.amount !== this.amount) {
+      this.amount = distortion.amount;
+      this.shaper.curve = distortionCurve(distortion.amount);
+    }
+    this.distortionDry.gain.setTargetAtTime(1 - distortion.mix, time, MODULATION_TIME);
+    this.distortionWet.gain.setTargetAtTime(distortion.mix, time, MODULATION_TIME);
+    this.delay.delayTime.setTargetAtTime(delay.time, time, MODULATION_TIME);
+    this.feedback.gain.setTargetAtTime(delay.feedback, time, MODULATION_TIME);
+    this.delayWet.gain.setTargetAtTime(delay.mix, time, MODULATION_TIME);
+    const wet = this.convolver.buffer ? reverb.mix : 0;
+    this.reverbDry.gain.setTargetAtTime(1 - wet, time, MODULATION_TIME);
+    this.reverbWet.gain.setTargetAtTime(wet, time, MODULATION_TIME);
+  }
+
+  setImpulse(buffer: AudioBuffer) {
+    this.convolver.buffer = buffer;
+  }
+
+  dispose() {
+    this.nodes.forEach(node => node.disconnect());
+  }
+}
+
+// Decoded once per context
+const impulses = new WeakMap<BaseAudioContext, Promise<AudioBuffer | null>>();
+
+export const loadImpulse = (ctx: BaseAudioContext) => {
+  let impulse = impulses.get(ctx);
+  if (!impulse) {
+    impulse = fetch(IMPULSE_URL)
+      .then(res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.arrayBuffer();
+      })
+      .then(data => ctx.decodeAudioData(data))
+      .catch(e => {
+        reportAssetError({ name: 'Reverb impulse response', url: IMPULSE_URL, reason: e instanceof Error ? e.message : String(e) });
+        return null;
+      });
+    impulses.set(ctx, impulse);
+  }
+  return impulse;
+};
+
+const sameOscillators = (a: VoicePatch, b: VoicePatch) => JSON.stringify(a.oscillators) === JSON.stringify(b.oscillators);
+
+/**
+ * The theremin's two voices and their effects, playing one patch. Connect
+ * `output` where the sound should go.
+ */
+export class ThereminSynth {
+  readonly output: GainNode;
+  bass: SynthVoice;
+  lead: SynthVoice;
+  private effects: EffectsChain;
+  private patch: SynthPatch;
+  private pitches = { bass: 0, lead: 0 };
+  private disposed = false;
+
+  constructor(private ctx: AudioContext, patch: SynthPatch) {
+    this.patch = patch;
+    this.effects = new EffectsChain(ctx);
+    this.output = this.effects.output;
+    this.bass = new SynthVoice(ctx, patch.bass);
+    this.lead = new SynthVoice(ctx, patch.lead);
+    this.bass.output.connect(this.effects.input);
+    this.lead.output.connect(this.effects.input);
+    this.effects.set(patch.effects, ctx.currentTime);
+    loadImpulse(ctx).then(buffer => {
+      if (!buffer || this.disposed) return;
+      this.effects.setImpulse(buffer);
+      this.effects.set(this.patch.effects, ctx.currentTime);
+    });
+  }
+
+  setPitch(voice: 'bass' | 'lead', hz: number, time: number, timeConstant: number) {
+    this.pitches[voice] = hz;
+    this[voice].setPitch(hz, time, timeConstant);
+  }
+
+  // Switches patch; voices whose oscillators changed are rebuilt in place
+  setPatch(patch: SynthPatch) {
+    if (patch === this.patch) return;
+    this.patch = patch;
+    const now = this.ctx.currentTime;
+    for (const name of ['bass', 'lead'] as const) {
+      const voice = this[name];
+      if (sameOscillators(voice.patch, patch[name])) {
+        voice.patch = patch[name];
+        continue;
+      }
+      const next = new SynthVoice(this.ctx, patch[name]);
+      if (this.pitches[name] > 0) next.setPitch(this.pitches[name], now, 0.001);
+      next.gate(voice.gateOpen, now);
+      next.output.connect(this.effects.input);
+      voice.dispose();
+      this[name] = next;
+    }
+    this.effects.set(patch.effects, now);
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.bass.dispose();
+    this.lead.dispose();
+    // After the voices' fade
+    setTimeout(() => this.effects.dispose(), 200);
+  }
+}
@@ -0,0 +1,279 @@
+import React, { useRef, useState } from 'react';
+import {
+  SynthPatch, VoicePatch, VoiceName, OscillatorPatch, AxisMapping, EffectsPatch,
+  BUILTIN_PATCHES, PATCH_RANGES, MAX_OSCILLATORS, WAVEFORMS, FILTER_TYPES, HAND_AXES, GATES, Waveform, FilterType, HandAxis, Gate,
+  isBuiltinPatch, loadCustomPatches, saveCustomPatches, serializePatch, parsePatch
+} from './SynthPatch';
+import { downloadBlob } from './Download';
+
+interface Props {
+  patch: SynthPatch;
+  onChange: (patch: SynthPatch) => void;
+}
+
+const BUTTON = 'px-3 py-1 rounded-full text-xs font-bold border transition-all duration-300';
+const IDLE = 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white';
+const ACTIVE = 'bg-white text-black border-white';
+const SELECT = 'bg-black/50 text-gray-300 border border-gray-600 rounded-full px-3 py-1 text-xs font-mono';
+const FIELD = 'bg-black/50 border border-gray-600 rounded px-1 py-0.5 text-white';
+
+type Range = { min: number; max: number; step: number };
+type Tab = VoiceName | 'effects';
+
+const fileSafe = (name: string) => name.replace(/[^\w-]+/g, '_');
+
+const NumberField = ({ label, value, range, onChange }: {
+  label: string; value: number; range: Range; onChange: (v: number) => void;
+}) => (
+  <label className="flex items-center gap-1">
+    <span className="text-gray-500">{label}</span>
+    <input
+      type="number"
+      min={range.min}
+      max={range.max}
+      step={range.step}
+      value={value}
+      onChange={(e) => {
+        const v = parseFloat(e.target.value);
+        if (Number.isFinite(v)) onChange(Math.min(Math.max(v, range.min), range.max));
+      }}
+      className={`${FIELD} w-16`}
+    />
+  </label>
+);
+
+const Choice = <T extends string>({ label, value, options, onChange }: {
+  label?: string; value: T; options: readonly T[]; onChange: (v: T) => void;
+}) => (
+  <label className="flex items-center gap-1">
+    {label && <span className="text-gray-500">{label}</span>}
+    <select value={value} onChange={(e) => onChange(e.target.value as T)} className={FIELD}>
+      {options.map(o => <option key={o} value={o}>{o.toLowerCase().replace('_', ' ')}</option>)}
+    </select>
+  </label>
+);
+
+// A value that can follow a hand: fixed at min without an axis
+const MappingField = ({ label, mapping, range, onChange }: {
+  label: string; mapping: AxisMapping; range: Range; onChange: (m: AxisMapping) => void;
+}) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <span className="w-20 text-gray-400">{label}</span>
+    <Choice value={mapping.axis} options={HAND_AXES} onChange={(axis: HandAxis) => onChange({ ...mapping, axis })} />
+    <NumberField label={mapping.axis === 'NONE' ? '' : 'from'} value={mapping.min} range={range} onChange={(min) => onChange({ ...mapping, min })} />
+    {mapping.axis !== 'NONE' && <NumberField label="to" value={mapping.max} range={range} onChange={(max) => onChange({ ...mapping, max })} />}
+  </div>
+);
+
+const VoiceEditor = ({ voice, onChange }: { voice: VoicePatch; onChange: (voice: VoicePatch) => void }) => {
+  const r = PATCH_RANGES;
+  const setOsc = (i: number, patch: Partial<OscillatorPatch>) =>
+    onChange({ ...voice, oscillators: voice.oscillators.map((o, k) => (k === i ? { ...o, ...patch } : o)) });
+  const env = voice.envelope;
+
+  return (
+    <div className="space-y-2">
+      {voice.oscillators.map((osc, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2">
+          <span className="w-20 text-gray-400">osc {i + 1}</span>
+          <Choice value={osc.waveform} options={WAVEFORMS} onChange={(waveform: Waveform) => setOsc(i, { waveform })} />
+          <NumberField label="oct" value={osc.octave} range={r.octave} onChange={(octave) => setOsc(i, { octave })} />
+          <NumberField label="cents" value={osc.detune} range={r.detune} onChange={(detune) => setOsc(i, { detune })} />
+          <NumberField label="unison" value={osc.unison} range={r.unison} onChange={(unison) => setOsc(i, { unison })} />
+          <NumberField label="spread" value={osc.spread} range={r.spread} onChange={(spread) => setOsc(i, { spread })} />
+          <NumberField label="level" value={osc.level} range={r.level} onChange={(level) => setOsc(i, { level })} />
+          {voice.oscillators.length > 1 && (
+            <button
+              onClick={() => onChange({ ...voice, oscillators: voice.oscillators.filter((_, k) => k !== i) })}
+              className="text-gray-500 hover:text-red-400"
+              title="Remove oscillator"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+      {voice.oscillators.length < MAX_OSCILLATORS && (
+        <button
+          onClick={() => onChange({ ...voice, oscillators: [...voice.oscillators, { ...voice.oscillators[voice.oscillators.length - 1] }] })}
+          className="text-gray-500 hover:text-white"
+        >
+          + OSC
+        </button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 text-gray-400">envelope</span>
+        <Choice label="gate" value={voice.gate} options={GATES} onChange={(gate: Gate) => onChange({ ...voice, gate })} />
+        <NumberField label="A" value={env.attack} range={r.attack} onChange={(attack) => onChange({ ...voice, envelope: { ...env, attack } })} />
+        <NumberField label="D" value={env.decay} range={r.decay} onChange={(decay) => onChange({ ...voice, envelope: { ...env, decay } })} />
+        <NumberField label="S" value={env.sustain} range={r.sustain} onChange={(sustain) => onChange({ ...voice, envelope: { ...env, sustain } })} />
+        <NumberField label="R" value={env.release} range={r.release} onChange={(release) => onChange({ ...voice, envelope: { ...env, release } })} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 text-gray-400">filter</span>
+        <Choice value={voice.filter.type} options={FILTER_TYPES} onChange={(type: FilterType) => onChange({ ...voice, filter: { ...voice.filter, type } })} />
+      </div>
+      <MappingField label="cutoff Hz" mapping={voice.filter.cutoff} range={r.cutoff} onChange={(cutoff) => onChange({ ...voice, filter: { ...voice.filter, cutoff } })} />
+      <MappingField label="resonance" mapping={voice.filter.resonance} range={r.resonance} onChange={(resonance) => onChange({ ...voice, filter: { ...voice.filter, resonance } })} />
+      <MappingField label="level" mapping={voice.level} range={r.level} onChange={(level) => onChange({ ...voice, level })} />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 text-gray-400">vibrato</span>
+        <NumberField label="Hz" value={voice.vibrato.rate} range={r.vibratoRate} onChange={(rate) => onChange({ ...voice, vibrato: { ...voice.vibrato, rate } })} />
+      </div>
+      <MappingField label="depth ¢" mapping={voice.vibrato.depth} range={r.vibratoDepth} onChange={(depth) => onChange({ ...voice, vibrato: { ...voice.vibrato, depth } })} />
+    </div>
+  );
+};
+
+const EffectsEditor = ({ effects, onChange }: { effects: EffectsPatch; onChange: (effects: EffectsPatch) => void }) => {
+  const r = PATCH_RANGES;
+  const { distortion, delay, reverb } = effects;
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 text-gray-400">distortion</span>
+        <NumberField label="drive" value={distortion.amount} range={r.distortion} onChange={(amount) => onChange({ ...effects, distortion: { ...distortion, amount } })} />
+        <NumberField label="mix" value={distortion.mix} range={r.mix} onChange={(mix) => onChange({ ...effects, distortion: { ...distortion, mix } })} />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 text-gray-400">delay</span>
+        <NumberField label="s" value={delay.time} range={r.delayTime} onChange={(time) => onChange({ ...effects, delay: { ...delay, time } })} />
+        <NumberField label="feedback" value={delay.feedback} range={r.feedback} onChange={(feedback) => onChange({ ...effects, delay: { ...delay, feedback } })} />
+        <NumberField label="mix" value={delay.mix} range={r.mix} onChange={(mix) => onChange({ ...effects, delay: { ...delay, mix } })} />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 text-gray-400">reverb</span>
+        <NumberField label="mix" value={reverb.mix} range={r.mix} onChange={(mix) => onChange({ ...effects, reverb: { mix } })} />
+      </div>
+    </div>
+  );
+};
+
+// Patch picker for THEREMIN mode, with saved patches, JSON files and an editor
+const SynthControls: React.FC<Props> = ({ patch, onChange }) => {
+  const [custom, setCustom] = useState<Record<string, SynthPatch>>(loadCustomPatches);
+  const [editing, setEditing] = useState(false);
+  const [tab, setTab] = useState<Tab>('lead');
+  const [saveName, setSaveName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const pickerRef = useRef<HTMLInputElement>(null);
+
+  const all = [...BUILTIN_PATCHES, ...Object.values(custom)];
+  const stored = all.find(p => p.name === patch.name);
+  const edited = !stored || serializePatch(stored) !== serializePatch(patch);
+
+  const commit = (next: Record<string, SynthPatch>) => {
+    setCustom(next);
+    saveCustomPatches(next);
+  };
+
+  const handleSave = () => {
+    const name = saveName.trim() || patch.name;
+    if (isBuiltinPatch(name)) {
+      setMessage(`"${name}" is a built-in patch; choose another name`);
+      return;
+    }
+    const saved = { ...patch, name };
+    commit({ ...custom, [name]: saved });
+    onChange(saved);
+    setSaveName('');
+    setMessage(null);
+  };
+
+  const handleDelete = () => {
+    const next = { ...custom };
+    delete next[patch.name];
+    commit(next);
+  };
+
+  const importFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    try {
+      const imported = await Promise.all(Array.from(files).map(async file =>
+        parsePatch(await file.text(), file.name.replace(/\.[^.]+$/, '') || 'Imported')
+      ));
+      const next = { ...custom };
+      let last = patch;
+      for (const p of imported) {
+        // Imports never replace built-ins
+        const name = isBuiltinPatch(p.name) ? `${p.name} (imported)` : p.name;
+        next[name] = last = { ...p, name };
+      }
+      commit(next);
+      onChange(last);
+      setMessage(null);
+    } catch (e) {
+      setMessage(`Import failed: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const setVoice = (name: VoiceName, voice: VoicePatch) => onChange({ ...patch, [name]: voice });
+
+  return (
+    <div className="mt-2 max-w-xl pointer-events-auto">
+      <div className="flex flex-wrap gap-2 items-center">
+        <span className="text-xs font-mono text-gray-500 mr-1">PATCH</span>
+        <select
+          value={stored ? patch.name : ''}
+          onChange={(e) => { const p = all.find(p => p.name === e.target.value); if (p) onChange(p); }}
+          className={SELECT}
+        >
+          {!stored && <option value="">{patch.name}</option>}
+          {all.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+        </select>
+        {edited && stored && <span className="text-xs font-mono text-yellow-400">edited</span>}
+        <button onClick={() => setEditing(!editing)} className={`${BUTTON} ${editing ? ACTIVE : IDLE}`}>EDIT</button>
+        <button
+          onClick={() => downloadBlob(new Blob([serializePatch(patch)], { type: 'application/json' }), `${fileSafe(patch.name)}.json`)}
+          className={`${BUTTON} ${IDLE}`}
+        >
+          EXPORT
+        </button>
+        <button onClick={() => pickerRef.current?.click()} className={`${BUTTON} ${IDLE}`}>IMPORT</button>
+        <input
+          ref={pickerRef}
+          type="file"
+          accept=".json,application/json"
+          multiple
+          className="hidden"
+          onChange={(e) => { importFiles(e.target.files); e.target.value = ''; }}
+        />
+      </div>
+      {message && <p className="mt-1 text-xs font-mono text-red-300">{message}</p>}
+
+      {editing && (
+        <div className="mt-2 text-[11px] font-mono text-gray-300 bg-black/60 border border-white/10 rounded-lg p-3 space-y-3 max-h-80 overflow-y-auto">
+          <div className="flex gap-2">
+            {(['bass', 'lead', 'effects'] as Tab[]).map(t => (
+              <button key={t} onClick={() => setTab(t)} className={`${BUTTON} ${tab === t ? ACTIVE : IDLE}`}>
+                {t === 'bass' ? 'BASS (L)' : t === 'lead' ? 'LEAD (R)' : 'EFFECTS'}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'effects'
+            ? <EffectsEditor effects={patch.effects} onChange={(effects) => onChange({ ...patch, effects })} />
+            : <VoiceEditor voice={patch[tab]} onChange={(voice) => setVoice(tab, voice)} />}
+
+          <div className="flex gap-1 pt-1 border-t border-white/10">
+            <input
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder={patch.name}
+              className={`${FIELD} flex-1 px-2`}
+            />
+            <button onClick={handleSave} className="px-2 border border-gray-600 rounded hover:text-white hover:border-white">SAVE</button>
+            {custom[patch.name] && (
+              <button onClick={handleDelete} className="px-2 border border-gray-600 rounded hover:text-red-400 hover:border-red-400">DELETE</button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SynthControls;
@@ -0,0 +1,326 @@
+import { clampTo, oneOf, asRecord } from './Sanitize';
+
+// Sound of the THEREMIN synth as data: two voices (left-hand bass, right-hand
+// lead) of stacked oscillators through a filter and an ADSR envelope, then a
+// shared effects chain. Patches are plain JSON, so they can be saved, shared
+// and loaded; Synth.ts turns one into Web Audio nodes.
+
+export type Waveform = 'sine' | 'square' | 'sawtooth' | 'triangle';
+export const WAVEFORMS: Waveform[] = ['sine', 'square', 'sawtooth', 'triangle'];
+
+export type FilterType = 'lowpass' | 'highpass' | 'bandpass';
+export const FILTER_TYPES: FilterType[] = ['lowpass', 'highpass', 'bandpass'];
+
+// Hand values a parameter can follow. X and Y run 0-1 across the frame,
+// PINCH runs 0 (open) to 1 (thumb and index together)
+export type HandAxis = 'NONE' | 'LEFT_X' | 'LEFT_Y' | 'LEFT_PINCH' | 'RIGHT_X' | 'RIGHT_Y' | 'RIGHT_PINCH';
+export const HAND_AXES: HandAxis[] = ['NONE', 'LEFT_X', 'LEFT_Y', 'LEFT_PINCH', 'RIGHT_X', 'RIGHT_Y', 'RIGHT_PINCH'];
+
+// A parameter at `min` when its axis is 0 and `max` at 1; with no axis it
+// stays at `min`. min > max inverts the axis
+export type AxisMapping = { axis: HandAxis; min: number; max: number };
+
+// What opens a voice's envelope
+export type Gate = 'PINCH' | 'PRESENCE';
+export const GATES: Gate[] = ['PINCH', 'PRESENCE'];
+
+export type OscillatorPatch = {
+  waveform: Waveform;
+  octave: number;  // Octaves above the played pitch
+  detune: number;  // Cents
+  unison: number;  // Copies of the oscillator, spread in pitch
+  spread: number;  // Cents between the outermost unison copies
+  level: number;   // 0-1
+};
+
+export type EnvelopePatch = {
+  attack: number;  // Seconds
+  decay: number;   // Seconds
+  sustain: number; // 0-1 of the peak
+  release: number; // Seconds
+};
+
+export type FilterPatch = {
+  type: FilterType;
+  cutoff: AxisMapping;    // Hz, followed on a log scale
+  resonance: AxisMapping; // Q
+};
+
+export type VoicePatch = {
+  oscillators: OscillatorPatch[];
+  gate: Gate;
+  envelope: EnvelopePatch;
+  filter: FilterPatch;
+  level: AxisMapping;     // Output gain
+  vibrato: { rate: number; depth: AxisMapping }; // Hz, cents
+};
+
+export type EffectsPatch = {
+  distortion: { amount: number; mix: number };          // amount 0-1
+  delay: { time: number; feedback: number; mix: number }; // seconds, 0-0.95
+  reverb: { mix: number };
+};
+
+export type SynthPatch = {
+  name: string;
+  bass: VoicePatch;
+  lead: VoicePatch;
+  effects: EffectsPatch;
+};
+
+export type VoiceName = 'bass' | 'lead';
+
+type Range = { min: number; max: number; step: number };
+
+// Ranges of every numeric field, shared by the editor and sanitizePatch()
+export const PATCH_RANGES = {
+  octave: { min: -2, max: 2, step: 1 },
+  detune: { min: -100, max: 100, step: 1 },
+  unison: { min: 1, max: 7, step: 1 },
+  spread: { min: 0, max: 100, step: 1 },
+  level: { min: 0, max: 1, step: 0.01 },
+  attack: { min: 0.001, max: 4, step: 0.001 },
+  decay: { min: 0.001, max: 4, step: 0.001 },
+  sustain: { min: 0, max: 1, step: 0.01 },
+  release: { min: 0.001, max: 8, step: 0.001 },
+  cutoff: { min: 20, max: 20000, step: 1 },
+  resonance: { min: 0.0001, max: 30, step: 0.1 },
+  vibratoRate: { min: 0, max: 20, step: 0.1 },
+  vibratoDepth: { min: 0, max: 200, step: 1 },
+  distortion: { min: 0, max: 1, step: 0.01 },
+  delayTime: { min: 0.01, max: 2, step: 0.01 },
+  feedback: { min: 0, max: 0.95, step: 0.01 },
+  mix: { min: 0, max: 1, step: 0.01 },
+} satisfies Record<string, Range>;
+
+export const MAX_OSCILLATORS = 3;
+
+// --- Built-in patches ---
+
+const osc = (waveform: Waveform, patch: Partial<OscillatorPatch> = {}): OscillatorPatch => ({
+  waveform, octave: 0, detune: 0, unison: 1, spread: 0, level: 1, ...patch,
+});
+
+const fixed = (value: number): AxisMapping => ({ axis: 'NONE', min: value, max: value });
+const DRY: EffectsPatch = { distortion: { amount: 0, mix: 0 }, delay: { time: 0.3, feedback: 0.3, mix: 0 }, reverb: { mix: 0 } };
+
+export const BUILTIN_PATCHES: SynthPatch[] = [
+  {
+    // The theremin's original sound: the bass louder as the left hand opens,
+    // the lead on while the right hand is up, pinch deepening its vibrato
+    name: 'Classic',
+    bass: {
+      oscillators: [osc('sawtooth')],
+      gate: 'PRESENCE',
+      envelope: { attack: 0.15, decay: 0.001, sustain: 1, release: 0.3 },
+      filter: { type: 'lowpass', cutoff: fixed(300), resonance: fixed(1) },
+      level: { axis: 'LEFT_PINCH', min: 0.5, max: 0 },
+      vibrato: { rate: 6, depth: fixed(0) },
+    },
+    lead: {
+      oscillators: [osc('triangle')],
+      gate: 'PRESENCE',
+      envelope: { attack: 0.15, decay: 0.001, sustain: 1, release: 0.3 },
+      filter: { type: 'lowpass', cutoff: fixed(20000), resonance: fixed(0.0001) },
+      level: fixed(0.3),
+      vibrato: { rate: 6, depth: { axis: 'RIGHT_PINCH', min: 0, max: 80 } },
+    },
+    effects: DRY,
+  },
+  {
+    name: 'Supersaw Pad',
+    bass: {
+      oscillators: [osc('sawtooth', { unison: 3, spread: 12 }), osc('sine', { octave: -1, level: 0.6 })],
+      gate: 'PINCH',
+      envelope: { attack: 0.8, decay: 0.5, sustain: 0.8, release: 2 },
+      filter: { type: 'lowpass', cutoff: { axis: 'LEFT_X', min: 200, max: 2000 }, resonance: fixed(2) },
+      level: fixed(0.35),
+      vibrato: { rate: 0.3, depth: fixed(5) },
+    },
+    lead: {
+      oscillators: [osc('sawtooth', { unison: 5, spread: 30 }), osc('square', { octave: 1, level: 0.25 })],
+      gate: 'PINCH',
+      envelope: { attack: 0.6, decay: 0.8, sustain: 0.7, release: 2.5 },
+      filter: { type: 'lowpass', cutoff: { axis: 'RIGHT_Y', min: 400, max: 8000 }, resonance: fixed(1.5) },
+      level: fixed(0.25),
+      vibrato: { rate: 5, depth: fixed(8) },
+    },
+    effects: { distortion: { amount: 0, mix: 0 }, delay: { time: 0.45, feedback: 0.35, mix: 0.25 }, reverb: { mix: 0.6 } },
+  },
+  {
+    name: 'Acid',
+    bass: {
+      oscillators: [osc('square')],
+      gate: 'PINCH',
+      envelope: { attack: 0.005, decay: 0.2, sustain: 0.4, release: 0.15 },
+      filter: { type: 'lowpass', cutoff: { axis: 'LEFT_X', min: 120, max: 3000 }, resonance: { axis: 'RIGHT_PINCH', min: 4, max: 18 } },
+      level: fixed(0.4),
+      vibrato: { rate: 0, depth: fixed(0) },
+    },
+    lead: {
+      oscillators: [osc('sawtooth')],
+      gate: 'PINCH',
+      envelope: { attack: 0.005, decay: 0.15, sustain: 0.3, release: 0.1 },
+      filter: { type: 'lowpass', cutoff: { axis: 'RIGHT_Y', min: 200, max: 6000 }, resonance: fixed(14) },
+      level: fixed(0.3),
+      vibrato: { rate: 0, depth: fixed(0) },
+    },
+    effects: { distortion: { amount: 0.5, mix: 0.6 }, delay: { time: 0.375, feedback: 0.45, mix: 0.3 }, reverb: { mix: 0.15 } },
+  },
+  {
+    name: 'Glass Pluck',
+    bass: {
+      oscillators: [osc('triangle'), osc('sine', { octave: 1, level: 0.4 })],
+      gate: 'PINCH',
+      envelope: { attack: 0.002, decay: 0.6, sustain: 0, release: 0.4 },
+      filter: { type: 'lowpass', cutoff: fixed(1200), resonance: fixed(1) },
+      level: fixed(0.5),
+      vibrato: { rate: 0, depth: fixed(0) },
+    },
+    lead: {
+      oscillators: [osc('sine', { octave: 1 }), osc('triangle', { detune: 7, level: 0.5 })],
+      gate: 'PRESENCE',
+      envelope: { attack: 0.002, decay: 0.35, sustain: 0.15, release: 0.5 },
+      filter: { type: 'bandpass', cutoff: { axis: 'RIGHT_Y', min: 600, max: 5000 }, resonance: fixed(2) },
+      level: fixed(0.4),
+      vibrato: { rate: 5, depth: { axis: 'RIGHT_PINCH', min: 0, max: 30 } },
+    },
+    effects: { distortion: { amount: 0, mix: 0 }, delay: { time: 0.25, feedback: 0.5, mix: 0.35 }, reverb: { mix: 0.45 } },
+  },
+];
+
+export const DEFAULT_PATCH = BUILTIN_PATCHES[0];
+
+export const isBuiltinPatch = (name: string) => BUILTIN_PATCHES.some(p => p.name === name);
+
+// --- Validation ---
+
+const sanitizeMapping = (raw: unknown, fallback: AxisMapping, range: Range): AxisMapping => {
+  const src = asRecord(raw);
+  return {
+    axis: oneOf(src.axis, HAND_AXES, fallback.axis),
+    min: clampTo(src.min, fallback.min, range),
+    max: clampTo(src.max, fallback.max, range),
+  };
+};
+
+const sanitizeOscillator = (raw: unknown): OscillatorPatch => {
+  const src = asRecord(raw);
+  const d = osc('sawtooth');
+  const r = PATCH_RANGES;
+  return {
+    waveform: oneOf(src.waveform, WAVEFORMS, d.waveform),
+    octave: Math.round(clampTo(src.octave, d.octave, r.octave)),
+    detune: clampTo(src.detune, d.detune, r.detune),
+    unison: Math.round(clampTo(src.unison, d.unison, r.unison)),
+    spread: clampTo(src.spread, d.spread, r.spread),
+    level: clampTo(src.level, d.level, r.level),
+  };
+};
+
+const sanitizeVoice = (raw: unknown, fallback: VoicePatch): VoicePatch => {
+  const src = asRecord(raw);
+  const r = PATCH_RANGES;
+  const env = asRecord(src.envelope);
+  const filter = asRecord(src.filter);
+  const vibrato = asRecord(src.vibrato);
+  const oscillators = Array.isArray(src.oscillators) && src.oscillators.length > 0
+    ? src.oscillators.slice(0, MAX_OSCILLATORS).map(sanitizeOscillator)
+    : fallback.oscillators.map(o => ({ ...o }));
+  return {
+    oscillators,
+    gate: oneOf(src.gate, GATES, fallback.gate),
+    envelope: {
+      attack: clampTo(env.attack, fallback.envelope.attack, r.attack),
+      decay: clampTo(env.decay, fallback.envelope.decay, r.decay),
+      sustain: clampTo(env.sustain, fallback.envelope.sustain, r.sustain),
+      release: clampTo(env.release, fallback.envelope.release, r.release),
+    },
+    filter: {
+      type: oneOf(filter.type, FILTER_TYPES, fallback.filter.type),
+      cutoff: sanitizeMapping(filter.cutoff, fallback.filter.cutoff, r.cutoff),
+      resonance: sanitizeMapping(filter.resonance, fallback.filter.resonance, r.resonance),
+    },
+    level: sanitizeMapping(src.level, fallback.level, r.level),
+    vibrato: {
+      rate: clampTo(vibrato.rate, fallback.vibrato.rate, r.vibratoRate),
+      depth: sanitizeMapping(vibrato.depth, fallback.vibrato.depth, r.vibratoDepth),
+    },
+  };
+};
+
+/**
+ * Builds a complete patch from untrusted input (a file or localStorage).
+ * Missing or invalid values fall back to the default patch and numbers are
+ * clamped to PATCH_RANGES.
+ */
+export const sanitizePatch = (raw: unknown, fallbackName = 'Imported'): SynthPatch => {
+  const src = asRecord(raw);
+  const r = PATCH_RANGES;
+  const effects = asRecord(src.effects);
+  const distortion = asRecord(effects.distortion);
+  const delay = asRecord(effects.delay);
+  const reverb = asRecord(effects.reverb);
+  const d = DEFAULT_PATCH.effects;
+  return {
+    name: typeof src.name === 'string' && src.name.trim() ? src.name.trim().slice(0, 64) : fallbackName,
+    bass: sanitizeVoice(src.bass, DEFAULT_PATCH.bass),
+    lead: sanitizeVoice(src.lead, DEFAULT_PATCH.lead),
+    effects: {
+      distortion: {
+        amount: clampTo(distortion.amount, d.distortion.amount, r.distortion),
+        mix: clampTo(distortion.mix, d.distortion.mix, r.mix),
+      },
+      delay: {
+        time: clampTo(delay.time, d.delay.time, r.delayTime),
+        feedback: clampTo(delay.feedback, d.delay.feedback, r.feedback),
+        mix: clampTo(delay.mix, d.delay.mix, r.mix),
+      },
+      reverb: { mix: clampTo(reverb.mix, d.reverb.mix, r.mix) },
+    },
+  };
+};
+
+// --- JSON files ---
+
+export const serializePatch = (patch: SynthPatch) => JSON.stringify(patch, null, 2);
+
+// Throws on text that isn't JSON; anything parseable becomes a valid patch
+export const parsePatch = (text: string, fallbackName: string) => sanitizePatch(JSON.parse(text), fallbackName);
+
+// --- Storage (localStorage) ---
+
+const PATCHES_KEY = 'scs-synth-patches';
+const CURRENT_KEY = 'scs-synth-patch';
+
+// Saved patches by name (built-ins are never stored)
+export const loadCustomPatches = (): Record<string, SynthPatch> => {
+  try {
+    const stored = asRecord(JSON.parse(localStorage.getItem(PATCHES_KEY) || '{}'));
+    const patches: Record<string, SynthPatch> = {};
+    for (const name of Object.keys(stored)) {
+      if (!isBuiltinPatch(name)) patches[name] = sanitizePatch({ ...asRecord(stored[name]), name }, name);
+    }
+    return patches;
+  } catch {
+    return {};
+  }
+};
+
+export const saveCustomPatches = (patches: Record<string, SynthPatch>) => {
+  localStorage.setItem(PATCHES_KEY, JSON.stringify(patches));
+};
+
+// The patch that was playing, edits included
+export const loadCurrentPatch = (): SynthPatch => {
+  try {
+    const stored = localStorage.getItem(CURRENT_KEY);
+    return stored ? sanitizePatch(JSON.parse(stored), DEFAULT_PATCH.name) : DEFAULT_PATCH;
+  } catch {
+    return DEFAULT_PATCH;
+  }
+};
+
+export const saveCurrentPatch = (patch: SynthPatch) => {
+  localStorage.setItem(CURRENT_KEY, JSON.stringify(patch));
+};
@@ -0,0 +1,212 @@
+import { clampTo, oneOf, asRecord } from './Sanitize';
+
+// Pitch for THEREMIN mode: the hands' continuous pitches, optionally snapped
+// to a key and scale, or stepped through the chord on the lead's note.
+//
+// Pure music math plus the note store the UI's indicator reads; the nodes
+// themselves live in AudioManager.
+
+export type ScaleName = 'MAJOR' | 'MINOR' | 'PENTATONIC' | 'DORIAN' | 'CHROMATIC';
+
+// Semitones above the root
+export const SCALES: { scale: ScaleName; label: string; steps: number[] }[] = [
+  { scale: 'MAJOR', label: 'Major', steps: [0, 2, 4, 5, 7, 9, 11] },
+  { scale: 'MINOR', label: 'Minor', steps: [0, 2, 3, 5, 7, 8, 10] },
+  { scale: 'PENTATONIC', label: 'Pentatonic', steps: [0, 2, 4, 7, 9] },
+  { scale: 'DORIAN', label: 'Dorian', steps: [0, 2, 3, 5, 7, 9, 10] },
+  { scale: 'CHROMATIC', label: 'Chromatic', steps: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] },
+];
+
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export type ArpPattern = 'UP' | 'DOWN' | 'UP_DOWN';
+export const ARP_PATTERNS: ArpPattern[] = ['UP', 'DOWN', 'UP_DOWN'];
+
+export type ThereminSettings = {
+  quantize: boolean;      // Snap both hands to the scale; off plays the raw pitch
+  root: number;           // Pitch class of the key, 0 = C
+  scale: ScaleName;
+  glide: number;          // Seconds to slide into a new quantized note
+  arpeggio: boolean;      // Lead steps through the chord on its note (always in the scale)
+  arpPattern: ArpPattern;
+  arpBpm: number;         // Four steps per beat
+};
+
+export const DEFAULT_THEREMIN: ThereminSettings = {
+  quantize: false,
+  root: 0,
+  scale: 'PENTATONIC',
+  glide: 0.08,
+  arpeggio: false,
+  arpPattern: 'UP',
+  arpBpm: 110,
+};
+
+export const GLIDE_RANGE = { min: 0, max: 0.5, step: 0.01 };
+export const ARP_BPM_RANGE = { min: 40, max: 240, step: 1 };
+
+// Hand position (0-1) to pitch in Hz, the ranges the theremin has always had
+export const BASS_HZ = [50, 150] as const;
+export const LEAD_HZ = [140, 740] as const;
+
+export const hzToMidi = (hz: number) => 69 + 12 * Math.log2(hz / 440);
+export const midiToHz = (midi: number) => 440 * 2 ** ((midi - 69) / 12);
+
+export const noteName = (midi: number) => {
+  const n = Math.round(midi);
+  return `${NOTE_NAMES[((n % 12) + 12) % 12]}${Math.floor(n / 12) - 1}`;
+};
+
+const stepsOf = (scale: ScaleName) => (SCALES.find(s => s.scale === scale) ?? SCALES[0]).steps;
+
+// MIDI note of a scale degree counted from the root in octave -1; degrees
+// past the scale's length climb octaves
+export const scaleNote = (root: number, scale: ScaleName, degree: number) => {
+  const steps = stepsOf(scale);
+  const octave = Math.floor(degree / steps.length);
+  return root + 12 * octave + steps[degree - octave * steps.length];
+};
+
+// Degree of the scale note nearest to a (fractional) MIDI pitch
+export const nearestDegree = (midi: number, root: number, scale: ScaleName) => {
+  const steps = stepsOf(scale);
+  const octave = Math.floor((midi - root) / 12);
+  let best = 0;
+  let bestDistance = Infinity;
+  // The neighbours one octave either side catch notes across the octave line
+  for (let degree = (octave - 1) * steps.length; degree < (octave + 2) * steps.length; degree++) {
+    const distance = Math.abs(scaleNote(root, scale, degree) - midi);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = degree;
+    }
+  }
+  return best;
+};
+
+export const quantizeMidi = (midi: number, root: number, scale: ScaleName) =>
+  scaleNote(root, scale, nearestDegree(midi, root, scale));
+
+/**
+ * Chord tones on the scale note nearest `midi`: the triad stacked in thirds
+ * of the scale, plus the octave. The chromatic scale has no thirds of its
+ * own, so it gets a major triad.
+ */
+export const chordTones = (midi: number, root: number, scale: ScaleName) => {
+  if (scale === 'CHROMATIC') {
+    const note = Math.round(midi);
+    return [note, note + 4, note + 7, note + 12];
+  }
+  const degree = nearestDegree(midi, root, scale);
+  const base = scaleNote(root, scale, degree);
+  return [base, scaleNote(root, scale, degree + 2), scaleNote(root, scale, degree + 4), base + 12];
+};
+
+// Which chord tone plays on a step
+export const arpIndex = (pattern: ArpPattern, step: number, n: number) => {
+  if (n <= 1) return 0;
+  switch (pattern) {
+    case 'DOWN':
+      return n - 1 - (step % n);
+    case 'UP_DOWN': {
+      const period = 2 * n - 2;
+      const i = step % period;
+      return i < n ? i : period - i;
+    }
+    case 'UP':
+    default:
+      return step % n;
+  }
+};
+
+/**
+ * Steps through chord tones on the audio clock. Call schedule() every frame
+ * with how far ahead to look; it emits each step once, at its exact time, so
+ * the rhythm doesn't follow the frame rate.
+ */
+export class Arpeggiator {
+  private nextTime: number | null = null;
+  private step = 0;
+
+  schedule(
+    now: number,
+    lookahead: number,
+    chord: number[],
+    pattern: ArpPattern,
+    stepSeconds: number,
+    emit: (time: number, note: number, step: number) => void
+  ) {
+    // Starting, or back after a stall: begin now rather than catching up
+    if (this.nextTime === null || this.nextTime < now - stepSeconds) this.nextTime = now;
+    while (this.nextTime < now + lookahead) {
+      emit(this.nextTime, chord[arpIndex(pattern, this.step, chord.length)], this.step);
+      this.step++;
+      this.nextTime += stepSeconds;
+    }
+  }
+
+  reset() {
+    this.nextTime = null;
+    this.step = 0;
+  }
+}
+
+// --- Note indicator ---
+
+export type NoteReading = { midi: number; cents: number }; // Nearest note and how far off it is
+export type ThereminNotes = { bass: NoteReading | null; lead: NoteReading | null };
+
+let notes: ThereminNotes = { bass: null, lead: null };
+const noteListeners = new Set<(notes: ThereminNotes) => void>();
+
+// Reading of a pitch; cents are rounded to 5 so a steady hand doesn't re-render
+export const readNote = (midi: number): NoteReading => {
+  const nearest = Math.round(midi);
+  return { midi: nearest, cents: Math.round((midi - nearest) * 20) * 5 };
+};
+
+const sameReading = (a: NoteReading | null, b: NoteReading | null) =>
+  a === b || (!!a && !!b && a.midi === b.midi && a.cents === b.cents);
+
+export const setThereminNotes = (next: ThereminNotes) => {
+  if (sameReading(notes.bass, next.bass) && sameReading(notes.lead, next.lead)) return;
+  notes = next;
+  noteListeners.forEach(listener => listener(notes));
+};
+
+export const getThereminNotes = () => notes;
+
+export const onThereminNotes = (listener: (notes: ThereminNotes) => void) => {
+  noteListeners.add(listener);
+  return () => { noteListeners.delete(listener); };
+};
+
+// --- Storage (localStorage) ---
+
+const THEREMIN_KEY = 'scs-theremin';
+
+export const sanitizeTheremin = (raw: unknown): ThereminSettings => {
+  const src = asRecord(raw);
+  const d = DEFAULT_THEREMIN;
+  return {
+    quantize: typeof src.quantize === 'boolean' ? src.quantize : d.quantize,
+    root: typeof src.root === 'number' && Number.isInteger(src.root) && src.root >= 0 && src.root < 12 ? src.root : d.root,
+    scale: oneOf(src.scale, SCALES.map(s => s.scale), d.scale),
+    glide: clampTo(src.glide, d.glide, GLIDE_RANGE),
+    arpeggio: typeof src.arpeggio === 'boolean' ? src.arpeggio : d.arpeggio,
+    arpPattern: oneOf(src.arpPattern, ARP_PATTERNS, d.arpPattern),
+    arpBpm: clampTo(src.arpBpm, d.arpBpm, ARP_BPM_RANGE),
+  };
+};
+
+export const loadTheremin = (): ThereminSettings => {
+  try {
+    return sanitizeTheremin(JSON.parse(localStorage.getItem(THEREMIN_KEY) || '{}'));
+  } catch {
+    return { ...DEFAULT_THEREMIN };
+  }
+};
+
+export const saveTheremin = (theremin: ThereminSettings) => {
+  localStorage.setItem(THEREMIN_KEY, JSON.stringify(theremin));
+};
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ThereminSettings, NoteReading, SCALES, ScaleName, NOTE_NAMES, ARP_PATTERNS, ArpPattern,
+  GLIDE_RANGE, ARP_BPM_RANGE, noteName, getThereminNotes, onThereminNotes
+} from './Theremin';
+
+interface Props {
+  theremin: ThereminSettings;
+  onChange: (theremin: ThereminSettings) => void;
+}
+
+const BUTTON = 'px-3 py-1 rounded-full text-xs font-bold border transition-all duration-300';
+const IDLE = 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white';
+const ACTIVE = 'bg-white text-black border-white';
+const SELECT = 'bg-black/50 text-gray-300 border border-gray-600 rounded-full px-3 py-1 text-xs font-mono';
+
+// One hand's note, with how far the raw pitch is from it
+const NoteBadge: React.FC<{ label: string; reading: NoteReading | null; color: string }> = ({ label, reading, color }) => (
+  <span className="flex items-baseline gap-1">
+    <span className="text-gray-500">{label}</span>
+    <span className={`text-lg font-bold w-10 ${reading ? color : 'text-gray-700'}`}>{reading ? noteName(reading.midi) : '--'}</span>
+    {reading && reading.cents !== 0 && (
+      <span className="text-gray-400 w-8">{reading.cents > 0 ? '+' : ''}{reading.cents}¢</span>
+    )}
+  </span>
+);
+
+// Scale quantizer, arpeggiator and note indicator for THEREMIN mode
+const ThereminControls: React.FC<Props> = ({ theremin, onChange }) => {
+  const [notes, setNotes] = useState(getThereminNotes);
+  useEffect(() => onThereminNotes(setNotes), []);
+  const set = (patch: Partial<ThereminSettings>) => onChange({ ...theremin, ...patch });
+
+  return (
+    <div className="mt-3 max-w-xl pointer-events-auto">
+      <div className="flex flex-wrap gap-2 items-center">
+        <span className="text-xs font-mono text-gray-500 mr-1">SCALE</span>
+        <button
+          onClick={() => set({ quantize: !theremin.quantize })}
+          className={`${BUTTON} ${theremin.quantize ? ACTIVE : IDLE}`}
+          title="Snap the hands' pitches to the key and scale, or play them continuously"
+        >
+          {theremin.quantize ? 'QUANTIZED' : 'CONTINUOUS'}
+        </button>
+        <select value={theremin.root} onChange={(e) => set({ root: Number(e.target.value) })} className={SELECT}>
+          {NOTE_NAMES.map((name, i) => <option key={name} value={i}>{name}</option>)}
+        </select>
+        <select value={theremin.scale} onChange={(e) => set({ scale: e.target.value as ScaleName })} className={SELECT}>
+          {SCALES.map(s => <option key={s.scale} value={s.scale}>{s.label}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-xs font-mono text-gray-400" title="Time to slide into each new note">
+          glide
+          <input
+            type="range"
+            min={GLIDE_RANGE.min}
+            max={GLIDE_RANGE.max}
+            step={GLIDE_RANGE.step}
+            value={theremin.glide}
+            onChange={(e) => set({ glide: Number(e.target.value) })}
+            className="w-20 accent-white"
+          />
+          <span className="w-10">{Math.round(theremin.glide * 1000)}ms</span>
+        </label>
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-2 items-center">
+        <span className="text-xs font-mono text-gray-500 mr-1">ARP</span>
+        <button
+          onClick={() => set({ arpeggio: !theremin.arpeggio })}
+          className={`${BUTTON} ${theremin.arpeggio ? ACTIVE : IDLE}`}
+          title="The right hand picks a chord in the scale; its tones play in turn"
+        >
+          {theremin.arpeggio ? 'ON' : 'OFF'}
+        </button>
+        <select value={theremin.arpPattern} onChange={(e) => set({ arpPattern: e.target.value as ArpPattern })} className={SELECT}>
+          {ARP_PATTERNS.map(p => <option key={p} value={p}>{p.replace('_', ' ')}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-xs font-mono text-gray-400" title="Four steps per beat">
+          <input
+            type="range"
+            min={ARP_BPM_RANGE.min}
+            max={ARP_BPM_RANGE.max}
+            step={ARP_BPM_RANGE.step}
+            value={theremin.arpBpm}
+            onChange={(e) => set({ arpBpm: Number(e.target.value) })}
+            className="w-24 accent-white"
+          />
+          <span className="w-14">{theremin.arpBpm} BPM</span>
+        </label>
+      </div>
+
+      <div className="mt-2 flex gap-6 items-baseline text-xs font-mono">
+        <NoteBadge label="L" reading={notes.bass} color="text-cyan-400" />
+        <NoteBadge label="R" reading={notes.lead} color="text-orange-400" />
+      </div>
+    </div>
+  );
+};
+
+export default ThereminControls;
@@ -1,13 +1,65 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import * as THREE from 'three';
-import { AudioMode } from '../App';
+import { AudioMode, InputMode, MaterialMode } from '../App';
+import { Session } from './SessionRecorder';
+import { AssetError, onAssetErrors } from '../assets';
+import { listSculptureGenerators, onSculptureGenerators } from './Sculptures';
+import CaptureControls from './CaptureControls';
+import ExportControls from './ExportControls';
+import FilePlayerControls from './FilePlayerControls';
+import ThereminControls from './ThereminControls';
+import { ThereminSettings } from './Theremin';
+import SynthControls from './SynthControls';
+import { SynthPatch } from './SynthPatch';
 
 interface Props {
   audioMode: AudioMode;
   setAudioMode: (mode: AudioMode) => void;
+  theremin: ThereminSettings;
+  setTheremin: (theremin: ThereminSettings) => void;
+  synthPatch: SynthPatch;
+  setSynthPatch: (patch: SynthPatch) => void;
+  inputMode: InputMode;
+  setInputMode: (mode: InputMode) => void;
+  materialMode: MaterialMode;
+  setMaterialMode: (mode: MaterialMode) => void;
+  sculpture: string;
+  setSculpture: (id: string) => void;
+  isRecording: boolean;
+  onToggleRecording: () => void;
+  recordAudio: boolean;
+  setRecordAudio: (value: boolean) => void;
+  session: Session | null;
+  onDownloadSession: () => void;
+  basePalette: string;
+  showPaletteEditor: boolean;
+  setShowPaletteEditor: (value: boolean) => void;
+  showGestureLog: boolean;
+  setShowGestureLog: (value: boolean) => void;
+  profileNames: string[];
+  activeProfile: string | null;
+  onSelectProfile: (name: string | null) => void;
+  onDeleteProfile: (name: string) => void;
+  onCalibrate: () => void;
 }
 
-const UI: React.FC<Props> = ({ audioMode, setAudioMode }) => {
+export const MATERIAL_MODES: { mode: MaterialMode; label: string }[] = [
+  { mode: 'GLASS', label: 'GLASS' },
+  { mode: 'PAINTED', label: 'PAINTED NOISE' },
+  { mode: 'CRYSTAL', label: 'CRYSTAL' },
+];
+
+const UI: React.FC<Props> = ({ 
+  audioMode, setAudioMode, theremin, setTheremin, synthPatch, setSynthPatch, inputMode, setInputMode, materialMode, setMaterialMode,
+  sculpture, setSculpture, isRecording, onToggleRecording, recordAudio, setRecordAudio, session, onDownloadSession,
+  basePalette, showPaletteEditor, setShowPaletteEditor, showGestureLog, setShowGestureLog,
+  profileNames, activeProfile, onSelectProfile, onDeleteProfile, onCalibrate
+}) => {
+  const [assetErrors, setAssetErrors] = useState<AssetError[]>([]);
+  useEffect(() => onAssetErrors(setAssetErrors), []);
+  // Generators can be registered at any time
+  const [generators, setGenerators] = useState(listSculptureGenerators);
+  useEffect(() => onSculptureGenerators(() => setGenerators(listSculptureGenerators())), []);
   
   const handleModeChange = (mode: AudioMode) => {
     // CRITICAL: Resume AudioContext immediately on user gesture (click)
@@ -24,6 +76,15 @@ const UI: React.FC<Props> = ({ audioMode, setAudioMode }) => {
         <h1 className="text-4xl font-light tracking-tighter text-white opacity-90 drop-shadow-lg">
           Spatial Color Slices
         </h1>
+
+        {assetErrors.length > 0 && (
+            <div className="mt-4 max-w-xl text-xs font-mono text-red-200 bg-red-900/60 border border-red-500/60 rounded-lg p-3 pointer-events-auto">
+                <p className="font-bold text-red-100 mb-1">Missing assets</p>
+                {assetErrors.map(e => (
+                    <p key={e.url} className="break-all">{e.name}: {e.url} ({e.reason})</p>
+                ))}
+            </div>
+        )}
         
         <div className="mt-6 flex flex-wrap gap-4 pointer-events-auto items-center">
             <button 
@@ -44,13 +105,135 @@ const UI: React.FC<Props> = ({ audioMode, setAudioMode }) => {
             >
                 THEREMIN SYNTH
             </button>
+            <button 
+                onClick={() => handleModeChange('FILE')}
+                className={`px-6 py-2 rounded-full text-sm font-bold border transition-all duration-300 ${audioMode === 'FILE' ? 'bg-white text-black border-white shadow-[0_0_15px_rgba(255,255,255,0.5)]' : 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white'}`}
+            >
+                FILE PLAYER
+            </button>
             
             {/* Status Indicator */}
             <div className={`text-xs font-mono px-3 py-1 rounded border transition-colors ${audioMode !== 'OFF' ? 'text-green-400 border-green-900 bg-green-900/20' : 'text-gray-500 border-gray-800 bg-black/20'}`}>
-               STATUS: {audioMode === 'OFF' ? 'IDLE' : audioMode === 'MIC' ? 'LISTENING' : 'SYNTH ACTIVE'}
+               STATUS: {audioMode === 'OFF' ? 'IDLE' : audioMode === 'MIC' ? 'LISTENING' : audioMode === 'FILE' ? 'PLAYING FILE' : 'SYNTH ACTIVE'}
             </div>
         </div>
 
+        <FilePlayerControls active={audioMode === 'FILE'} onActivate={() => handleModeChange('FILE')} />
+        {audioMode === 'THEREMIN' && (
+            <>
+                <ThereminControls theremin={theremin} onChange={setTheremin} />
+                <SynthControls patch={synthPatch} onChange={setSynthPatch} />
+            </>
+        )}
+
+        <div className="mt-3 flex flex-wrap gap-2 pointer-events-auto items-center">
+            <span className="text-xs font-mono text-gray-500 mr-1">INPUT</span>
+            <button 
+                onClick={() => setInputMode('CAMERA')}
+                className={`px-4 py-1 rounded-full text-xs font-bold border transition-all duration-300 ${inputMode === 'CAMERA' ? 'bg-white text-black border-white' : 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white'}`}
+            >
+                CAMERA
+            </button>
+            <button 
+                onClick={() => setInputMode('FALLBACK')}
+                className={`px-4 py-1 rounded-full text-xs font-bold border transition-all duration-300 ${inputMode === 'FALLBACK' ? 'bg-white text-black border-white' : 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white'}`}
+            >
+                MOUSE / KEYS / PAD
+            </button>
+            <button 
+                onClick={() => setInputMode('BRIDGE')}
+                className={`px-4 py-1 rounded-full text-xs font-bold border transition-all duration-300 ${inputMode === 'BRIDGE' ? 'bg-white text-black border-white' : 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white'}`}
+            >
+                OSC BRIDGE
+            </button>
+            <button 
+                onClick={() => setInputMode('REPLAY')}
+                className={`px-4 py-1 rounded-full text-xs font-bold border transition-all duration-300 ${inputMode === 'REPLAY' ? 'bg-white text-black border-white' : 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white'}`}
+            >
+                REPLAY
+            </button>
+
+            <span className="text-xs font-mono text-gray-500 ml-4 mr-1">SESSION</span>
+            <button 
+                onClick={onToggleRecording}
+                disabled={inputMode === 'REPLAY' && !isRecording}
+                title={inputMode === 'REPLAY' ? "Switch to a live input to record" : undefined}
+                className={`px-4 py-1 rounded-full text-xs font-bold border transition-all duration-300 disabled:opacity-50 ${isRecording ? 'bg-red-500 text-white border-red-400 animate-pulse' : 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white'}`}
+            >
+                {isRecording ? '■ STOP' : '● REC'}
+            </button>
+            <label className="flex items-center gap-1 text-xs font-mono text-gray-400">
+                <input 
+                    type="checkbox" 
+                    checked={recordAudio} 
+                    disabled={isRecording}
+                    onChange={(e) => setRecordAudio(e.target.checked)} 
+                />
+                + audio
+            </label>
+            {session && !isRecording && (
+                <button 
+                    onClick={onDownloadSession}
+                    className="px-4 py-1 rounded-full text-xs font-bold border bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white transition-all duration-300"
+                >
+                    DOWNLOAD ({(session.duration / 1000).toFixed(1)}s)
+                </button>
+            )}
+
+            <span className="text-xs font-mono text-gray-500 ml-4 mr-1">CALIBRATION</span>
+            <select
+                value={activeProfile ?? ''}
+                onChange={(e) => onSelectProfile(e.target.value || null)}
+                className="bg-black/50 text-gray-300 border border-gray-600 rounded-full px-3 py-1 text-xs font-mono"
+            >
+                <option value="">Default</option>
+                {profileNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <button 
+                onClick={onCalibrate}
+                className="px-4 py-1 rounded-full text-xs font-bold border bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white transition-all duration-300"
+            >
+                CALIBRATE
+            </button>
+            {activeProfile && (
+                <button 
+                    onClick={() => onDeleteProfile(activeProfile)}
+                    className="px-3 py-1 rounded-full text-xs font-bold border bg-black/50 text-gray-400 border-gray-600 hover:text-red-400 hover:border-red-400 transition-all duration-300"
+                >
+                    DELETE
+                </button>
+            )}
+        </div>
+
+        <div className="mt-3 flex flex-wrap gap-2 pointer-events-auto items-center">
+            <span className="text-xs font-mono text-gray-500 mr-1">MATERIAL</span>
+            {MATERIAL_MODES.map(({ mode, label }) => (
+                <button 
+                    key={mode}
+                    onClick={() => setMaterialMode(mode)}
+                    className={`px-4 py-1 rounded-full text-xs font-bold border transition-all duration-300 ${materialMode === mode ? 'bg-white text-black border-white' : 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white'}`}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+
+        <div className="mt-3 flex flex-wrap gap-2 pointer-events-auto items-center">
+            <span className="text-xs font-mono text-gray-500 mr-1">FORM</span>
+            {generators.map(({ id, label }) => (
+                <button 
+                    key={id}
+                    onClick={() => setSculpture(id)}
+                    className={`px-4 py-1 rounded-full text-xs font-bold border transition-all duration-300 ${sculpture === id ? 'bg-white text-black border-white' : 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white'}`}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+
+        <CaptureControls />
+        <ExportControls />
+
         <div className="mt-4 flex gap-4">
             <div className="text-sm text-gray-300 font-mono space-y-1 bg-black/40 backdrop-blur-md p-4 rounded-lg inline-block border border-white/10 pointer-events-auto">
             <p className="font-bold text-white mb-2">Controls ({audioMode === 'THEREMIN' ? 'Instrument' : 'Sculpture'})</p>
@@ -74,6 +257,22 @@ const UI: React.FC<Props> = ({ audioMode, setAudioMode }) => {
                 </span>
                 </div>
             </div>
+
+            <div className="text-xs text-gray-400 mt-2">
+                ✊ Fist: Orbit | ✊✊ Both Fists: Freeze Springs | ✋ Open Palm: Chaos Burst | 🤏 Pinch: Pluck
+            </div>
+            <div className="text-xs text-gray-400">
+                🤏🤏 Spread: Zoom | Swipe ↑: Reset View | ↓: Auto-Rotate
+            </div>
+            <div className="text-xs text-gray-400">
+                Swipe ←→ Left: Material | Right: Palette ({basePalette})
+            </div>
+            <button 
+                onClick={() => setShowGestureLog(!showGestureLog)}
+                className={`mt-2 px-3 py-0.5 rounded-full text-[10px] font-bold border transition-all duration-300 ${showGestureLog ? 'bg-white text-black border-white' : 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white'}`}
+            >
+                GESTURE LOG
+            </button>
             </div>
 
             <div className="text-sm text-gray-300 font-mono space-y-1 bg-black/40 backdrop-blur-md p-4 rounded-lg inline-block border border-white/10 pointer-events-auto">
@@ -91,6 +290,12 @@ const UI: React.FC<Props> = ({ audioMode, setAudioMode }) => {
                     <span className="text-blue-400 font-bold">😠 Frown</span>
                     <span className="text-xs text-gray-400">Deep Ocean</span>
                 </div>
+                <button 
+                    onClick={() => setShowPaletteEditor(!showPaletteEditor)}
+                    className={`mt-2 px-3 py-0.5 rounded-full text-[10px] font-bold border transition-all duration-300 ${showPaletteEditor ? 'bg-white text-black border-white' : 'bg-black/50 text-gray-400 border-gray-600 hover:text-white hover:border-white'}`}
+                >
+                    EDIT PALETTES
+                </button>
             </div>
         </div>
       </header>
@@ -0,0 +1,226 @@
+import { InputData, HandData, FaceData, createEmptyInputData } from './HandTracker';
+import { BaseInputSource } from './InputSource';
+import { asRecord, sanitizeHandUpdate, sanitizeFaceUpdate } from './Sanitize';
+
+export const DEFAULT_BRIDGE_URL = 'ws://localhost:8765';
+
+// A hand/face that hasn't been mentioned for this long is considered gone
+const STALE_MS = 1000;
+const MAX_RECONNECT_MS = 5000;
+
+type Part = 'left' | 'right' | 'face';
+type OscArg = number | string | boolean;
+type OscMessage = { address: string; args: OscArg[] };
+
+// --- Minimal OSC 1.0 decoder (messages + bundles) ---
+
+const readOscString = (view: DataView, offset: number): [string, number] => {
+  let end = offset;
+  while (end < view.byteLength && view.getUint8(end) !== 0) end++;
+  const str = new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + offset, end - offset));
+  // Strings are null-terminated and padded to a multiple of 4 bytes
+  return [str, (end + 4) & ~3];
+};
+
+export const decodeOsc = (buffer: ArrayBuffer, offset = 0, length = buffer.byteLength): OscMessage[] => {
+  const view = new DataView(buffer, offset, length);
+  const [head, afterHead] = readOscString(view, 0);
+
+  if (head === '#bundle') {
+    const messages: OscMessage[] = [];
+    let pos = afterHead + 8; // skip timetag
+    while (pos + 4 <= view.byteLength) {
+      const size = view.getInt32(pos);
+      pos += 4;
+      messages.push(...decodeOsc(buffer, offset + pos, size));
+      pos += size;
+    }
+    return messages;
+  }
+
+  const [tags, afterTags] = readOscString(view, afterHead);
+  if (!tags.startsWith(',')) throw new Error(`OSC message ${head} has no type tags`);
+
+  const args: OscArg[] = [];
+  let pos = afterTags;
+  for (const tag of tags.slice(1)) {
+    switch (tag) {
+      case 'f': args.push(view.getFloat32(pos)); pos += 4; break;
+      case 'i': args.push(view.getInt32(pos)); pos += 4; break;
+      case 'd': args.push(view.getFloat64(pos)); pos += 8; break;
+      case 's': { const [s, next] = readOscString(view, pos); args.push(s); pos = next; break; }
+      case 'T': args.push(true); break;
+      case 'F': args.push(false); break;
+      default: throw new Error(`Unsupported OSC type tag '${tag}'`);
+    }
+  }
+  return [{ address: head, args }];
+};
+
+const toNumber = (arg: OscArg | undefined) =>
+  typeof arg === 'number' ? arg : typeof arg === 'boolean' ? Number(arg) : undefined;
+
+/**
+ * Receives InputData from external tools (TouchDesigner, Max, Kinect rigs...)
+ * over a local WebSocket, usually via scripts/input-relay.mjs.
+ *
+ * Text frames carry JSON, binary frames carry OSC packets. Both are partial
+ * updates merged onto the last known state. See README "External Input Bridge"
+ * for the full message format.
+ */
+export class WebSocketSource extends BaseInputSource {
+  readonly name = 'WebSocket Bridge';
+  readonly url: string;
+
+  private socket: WebSocket | null = null;
+  private state: InputData = createEmptyInputData();
+  private lastSeen: Record<Part, number> = { left: 0, right: 0, face: 0 };
+  private staleTimer = 0;
+  private reconnectTimer = 0;
+  private reconnectDelay = 500;
+  private running = false;
+
+  constructor(url = DEFAULT_BRIDGE_URL) {
+    super();
+    this.url = url;
+  }
+
+  async start() {
+    if (this.running) return;
+    this.running = true;
+    this.state = createEmptyInputData();
+    this.connect();
+
+    // Drop parts that stopped being sent (sender crashed, person left the rig)
+    this.staleTimer = window.setInterval(() => {
+      const now = performance.now();
+      let changed = false;
+      (['left', 'right'] as const).forEach(hand => {
+        if (this.state.hands[hand].present && now - this.lastSeen[hand] > STALE_MS) {
+          this.state.hands[hand] = { ...this.state.hands[hand], present: false };
+          changed = true;
+        }
+      });
+      if (this.state.face.present && now - this.lastSeen.face > STALE_MS) {
+        this.state.face = { ...this.state.face, present: false };
+        changed = true;
+      }
+      if (changed) this.emitState();
+    }, 250);
+  }
+
+  stop() {
+    this.running = false;
+    clearInterval(this.staleTimer);
+    clearTimeout(this.reconnectTimer);
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    this.setStatus('idle', "Stopped");
+  }
+
+  private connect() {
+    this.setStatus('starting', `Connecting to ${this.url}...`);
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (e) {
+      this.setStatus('error', "Bad URL: " + (e instanceof Error && e.message ? e.message : this.url));
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = 500;
+      this.setStatus('active', "Bridge connected");
+    };
+
+    socket.onmessage = (e: MessageEvent) => {
+      try {
+        if (typeof e.data === 'string') this.applyJson(JSON.parse(e.data));
+        else this.applyOsc(decodeOsc(e.data as ArrayBuffer));
+        this.emitState();
+      } catch (err) {
+        console.warn("Bridge message ignored:", err);
+      }
+    };
+
+    socket.onclose = () => {
+      if (!this.running) return;
+      this.setStatus('error', `Bridge offline, retrying in ${(this.reconnectDelay / 1000).toFixed(1)}s`);
+      this.reconnectTimer = window.setTimeout(() => this.connect(), this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_MS);
+    };
+  }
+
+  private emitState() {
+    // Hand out a copy; state keeps mutating as messages arrive
+    this.emit({
+      hands: { left: { ...this.state.hands.left }, right: { ...this.state.hands.right } },
+      face: { ...this.state.face }
+    });
+  }
+
+  private touch(part: Part) {
+    this.lastSeen[part] = performance.now();
+  }
+
+  private mergeHand(hand: 'left' | 'right', update: unknown) {
+    const next = { ...this.state.hands[hand], present: true, ...sanitizeHandUpdate(update) };
+    this.state.hands[hand] = next;
+    if (next.present) this.touch(hand);
+  }
+
+  private mergeFace(update: unknown) {
+    const next = { ...this.state.face, present: true, ...sanitizeFaceUpdate(update) };
+    this.state.face = next;
+    if (next.present) this.touch('face');
+  }
+
+  private applyJson(raw: unknown) {
+    const msg = asRecord(raw);
+    if (msg.type !== 'input') return;
+    const hands = asRecord(msg.hands);
+    if (hands.left) this.mergeHand('left', hands.left);
+    if (hands.right) this.mergeHand('right', hands.right);
+    if (msg.face) this.mergeFace(msg.face);
+  }
+
+  private applyOsc(messages: OscMessage[]) {
+    for (const { address, args } of messages) {
+      const parts = address.split('/').filter(Boolean);
+      const [kind, a, b] = parts;
+      const n = args.map(toNumber);
+
+      if (kind === 'hand' && (a === 'left' || a === 'right')) {
+        if (b === undefined) {
+          const patch: Partial<HandData> = {};
+          if (n[0] !== undefined) patch.x = n[0];
+          if (n[1] !== undefined) patch.y = n[1];
+          if (n[2] !== undefined) patch.pinch = n[2];
+          this.mergeHand(a, patch);
+        } else if (b === 'present') {
+          this.mergeHand(a, { present: Boolean(n[0]) });
+        } else if ((b === 'x' || b === 'y' || b === 'pinch') && n[0] !== undefined) {
+          this.mergeHand(a, { [b]: n[0] });
+        }
+      } else if (kind === 'face') {
+        if (a === undefined) {
+          const patch: Partial<FaceData> = {};
+          if (n[0] !== undefined) patch.smile = n[0];
+          if (n[1] !== undefined) patch.mouthOpen = n[1];
+          if (n[2] !== undefined) patch.browDown = n[2];
+          this.mergeFace(patch);
+        } else if (a === 'present') {
+          this.mergeFace({ present: Boolean(n[0]) });
+        } else if ((a === 'smile' || a === 'mouthOpen' || a === 'browDown') && n[0] !== undefined) {
+          this.mergeFace({ [a]: n[0] });
+        }
+      }
+    }
+  }
+}
@@ -17,8 +17,22 @@ export const PALETTES = {
   ]
 };
 
+export type PaletteName = keyof typeof PALETTES;
+
 export const PALETTE_COLORS = PALETTES.DEFAULT; // Fallback
 
+// --- Emotion Detection ---
+// An emotion is entered above `enter` and held until its score drops below
+// `exit` (hysteresis). Checked in priority order: JOY, SURPRISE, MOODY.
+
+export const EMOTION = {
+  JOY: { score: 'smile' as const, enter: 0.4, exit: 0.3 },
+  SURPRISE: { score: 'mouthOpen' as const, enter: 0.2, exit: 0.12 },
+  MOODY: { score: 'browDown' as const, enter: 0.3, exit: 0.2 },
+  minDwellMs: 400,  // Shortest time an emotion is held before it may change
+  blendMs: 350,     // Time constant of the palette/lighting cross-fade
+};
+
 export const CONFIG = {
   sliceCount: 60, 
   radius: 1.5,
@@ -26,6 +40,58 @@ export const CONFIG = {
   tubeThickness: 0.05, 
   animationSpeed: 0.4,
   noiseScale: 2.5,
-  bloomThreshold: 0.2,
-  bloomIntensity: 1.5,
-};
\ No newline at end of file
+  bloomThreshold: 0.5,
+  bloomIntensity: 0.8,
+  // Coupled spring chain through the slices (see SpringChain)
+  chainStiffness: 20,
+  chainWaveSpeed: 0.4,
+  chainDamping: 1.5,
+  chainMassTaper: 1,
+};
+
+// --- Spring Physics ---
+// Each 1/60 s step: velocity = velocity * damping + (target - value) * stiffness.
+// Steps are fixed, so the feel is the same at any display refresh rate.
+
+export const SPRINGS = {
+  stackHeight: { stiffness: 0.05, damping: 0.85 }, // Bouncy spine
+  twist: { stiffness: 0.03, damping: 0.90 },       // Flowy twist
+  radiusScale: { stiffness: 0.1, damping: 0.8 },   // Punchy radius
+  chaos: { stiffness: 0.05, damping: 0.9 },        // Slow decay chaos
+};
+
+// --- Dynamic Gesture Thresholds ---
+// Positions are in input units (-1 to 1 across the frame), speeds per second.
+
+export const GESTURE_EVENTS = {
+  swipeMinDistance: 0.5,   // Travel needed within the window
+  swipeMinSpeed: 1.5,      // Average speed over that travel
+  swipeWindowMs: 300,
+  swipeAxisRatio: 2.0,     // Dominant axis must beat the other by this much
+  swipeCooldownMs: 600,    // Ignore the hand's follow-through
+  grabConfidence: 0.7,     // Fist confidence that starts a grab
+  pinchEnter: 0.25,        // Pinch distance that counts as closed...
+  pinchExit: 0.4,          // ...and that must be exceeded to open again
+  spreadPinch: 0.25,       // Both hands pinched below this start a spread
+  spreadMinChange: 0.005,  // Ignore distance jitter below this ratio
+  orbitSpeed: 2.5,         // Radians per unit of grab movement
+};
+
+// --- Audio Analysis ---
+// Times in seconds. See AudioAnalyzer for how they're used.
+
+export const AUDIO_ANALYSIS = {
+  onsetWindow: 1.0,        // Flux history the adaptive onset threshold looks at
+  onsetSensitivity: 1.5,   // Threshold = mean + this many standard deviations
+  onsetFloor: 0.005,       // Flux below this is never an onset (silence, hiss)
+  onsetMinInterval: 0.1,   // Onsets closer than this are one onset
+  kickMaxHz: 150,          // Kicks are onsets in the spectrum below this
+  envelopeRate: 60,        // Onset envelope resampling for tempo, Hz
+  tempoWindow: 6,          // Envelope history searched for a tempo
+  tempoInterval: 0.5,      // Time between tempo estimates
+  minBpm: 60,
+  maxBpm: 180,
+  preferredBpm: 120,       // Centre of the tempo prior (breaks half/double ties)
+  phaseGain: 0.25,         // How far each onset pulls the beat phase onto itself
+  minConfidence: 0.1,      // Beats are only reported above this tempo confidence
+};
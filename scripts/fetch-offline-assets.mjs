@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+// Downloads everything an offline build needs that isn't already in
+// node_modules (the MediaPipe wasm is copied from the npm package at build time).
+// Run once on a connected machine, then `npm run build:offline`.
+//
+// Usage: npm run fetch-assets [-- --force]
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const OUT_DIR = path.join(ROOT, 'offline-assets');
+const FORCE = process.argv.includes('--force');
+
+const DOWNLOADS = {
+  'mediapipe/hand_landmarker.task':
+    'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+  'mediapipe/face_landmarker.task':
+    'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
+  // Same file drei loads for <Environment preset="forest">
+  'hdri/forest_slope_1k.hdr':
+    'https://raw.githack.com/pmndrs/drei-assets/456060a26bbeb8fdf79326f224b6d99b8bcce736/hdri/forest_slope_1k.hdr',
+  'tailwind.js': 'https://cdn.tailwindcss.com',
+};
+
+let failed = false;
+
+for (const [rel, url] of Object.entries(DOWNLOADS)) {
+  const target = path.join(OUT_DIR, rel);
+  if (!FORCE && fs.existsSync(target)) {
+    console.log(`skip     ${rel} (exists)`);
+    continue;
+  }
+  try {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = Buffer.from(await res.arrayBuffer());
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, data);
+    console.log(`fetched  ${rel} (${(data.length / 1024).toFixed(0)} KB)`);
+  } catch (e) {
+    console.error(`FAILED   ${rel} from ${url}: ${e.message}`);
+    failed = true;
+  }
+}
+
+process.exit(failed ? 1 : 0);
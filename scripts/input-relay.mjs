@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+// Local relay for the OSC BRIDGE input source.
+//
+//  - WebSocket server (default ws://localhost:8765): every message from one
+//    client is forwarded to all others, so a sender script and the browser
+//    can simply both connect.
+//  - UDP OSC listener (default 127.0.0.1:9000): raw OSC packets from
+//    TouchDesigner, Max, Kinect tools etc. are forwarded to the browser as
+//    binary frames. Pass --osc-host 0.0.0.0 to accept packets from other
+//    machines on the network.
+//  - --demo: broadcasts a synthetic performance so the bridge can be tested
+//    without any external tool.
+//
+// Usage: npm run relay -- [--port 8765] [--osc-port 9000] [--osc-host 127.0.0.1] [--demo]
+
+import dgram from 'node:dgram';
+import { WebSocketServer, WebSocket } from 'ws';
+
+const args = process.argv.slice(2);
+const stringOption = (name, fallback) => {
+  const i = args.indexOf(name);
+  return i >= 0 && args[i + 1] ? args[i + 1] : fallback;
+};
+const option = (name, fallback) => Number(stringOption(name, fallback));
+
+const WS_PORT = option('--port', 8765);
+const OSC_PORT = option('--osc-port', 9000);
+const OSC_HOST = stringOption('--osc-host', '127.0.0.1');
+const DEMO = args.includes('--demo');
+
+const wss = new WebSocketServer({ host: '127.0.0.1', port: WS_PORT });
+
+const broadcast = (data, isBinary, except) => {
+  for (const client of wss.clients) {
+    if (client !== except && client.readyState === WebSocket.OPEN) {
+      client.send(data, { binary: isBinary });
+    }
+  }
+};
+
+wss.on('connection', (socket, req) => {
+  console.log(`[ws] client connected (${req.socket.remoteAddress}), ${wss.clients.size} total`);
+  socket.on('message', (data, isBinary) => broadcast(data, isBinary, socket));
+  socket.on('close', () => console.log(`[ws] client left, ${wss.clients.size} total`));
+});
+
+wss.on('listening', () => console.log(`[ws] relay listening on ws://localhost:${WS_PORT}`));
+
+const udp = dgram.createSocket('udp4');
+udp.on('message', (packet) => broadcast(packet, true));
+udp.on('error', (err) => console.error('[osc] UDP error:', err.message));
+udp.bind(OSC_PORT, OSC_HOST, () => console.log(`[osc] forwarding UDP OSC from ${OSC_HOST}:${OSC_PORT}`));
+
+if (DEMO) {
+  console.log('[demo] broadcasting a synthetic performance at 30 fps');
+  const start = Date.now();
+  setInterval(() => {
+    const t = (Date.now() - start) / 1000;
+    broadcast(JSON.stringify({
+      type: 'input',
+      hands: {
+        left: { present: true, x: Math.sin(t * 0.7) * 0.8, y: Math.cos(t * 0.5) * 0.6, pinch: 0.5 + 0.5 * Math.sin(t * 1.3) },
+        right: { present: true, x: Math.sin(t * 0.9) * 0.7, y: Math.sin(t * 1.8) * 0.5, pinch: 0.5 + 0.5 * Math.cos(t) }
+      },
+      face: {
+        present: true,
+        smile: Math.max(0, Math.sin(t * 0.25)),
+        mouthOpen: Math.max(0, Math.sin(t * 0.25 + 2.1)),
+        browDown: Math.max(0, Math.sin(t * 0.25 + 4.2))
+      }
+    }), false);
+  }, 33);
+}
@@ -1,18 +1,90 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// --- Offline Asset Bundling ---
+// `--mode offline` (or OFFLINE_ASSETS=true) copies the MediaPipe wasm from
+// node_modules plus the files fetched by scripts/fetch-offline-assets.mjs
+// into <outDir>/offline-assets/, and serves them from the dev server.
+
+const OFFLINE_DIR = 'offline-assets';
+const WASM_DIR = 'node_modules/@mediapipe/tasks-vision/wasm';
+const FETCHED_ASSETS = [
+  'mediapipe/hand_landmarker.task',
+  'mediapipe/face_landmarker.task',
+  'hdri/forest_slope_1k.hdr',
+  'tailwind.js',
+];
+
+const offlineAssets = (): Plugin => {
+  let files = new Map<string, string>();
+
+  // Output path (relative to offline-assets/) -> source file on disk
+  const collect = () => {
+    const map = new Map<string, string>();
+    const missing = FETCHED_ASSETS.filter(rel => !fs.existsSync(path.resolve(__dirname, OFFLINE_DIR, rel)));
+    if (missing.length > 0) {
+      throw new Error(`Offline build is missing ${missing.join(', ')}. Run \`npm run fetch-assets\` first.`);
+    }
+    FETCHED_ASSETS.forEach(rel => map.set(rel, path.resolve(__dirname, OFFLINE_DIR, rel)));
+    fs.readdirSync(path.resolve(__dirname, WASM_DIR)).forEach(file => {
+      map.set(`mediapipe/wasm/${file}`, path.resolve(__dirname, WASM_DIR, file));
+    });
+    return map;
+  };
+
+  return {
+    name: 'offline-assets',
+    buildStart() {
+      files = collect();
+    },
+    configureServer(server) {
+      server.middlewares.use(`/${OFFLINE_DIR}`, (req, res, next) => {
+        const rel = decodeURIComponent((req.url || '').split('?')[0]).replace(/^\//, '');
+        const file = files.get(rel);
+        if (!file) return next();
+        res.setHeader('Content-Type', rel.endsWith('.wasm') ? 'application/wasm' : rel.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      files.forEach((file, rel) => {
+        this.emitFile({ type: 'asset', fileName: `${OFFLINE_DIR}/${rel}`, source: fs.readFileSync(file) });
+      });
+    },
+    transformIndexHtml: {
+      order: 'pre',
+      handler(html) {
+        // Everything is bundled, so drop the CDN import map and use the local Tailwind copy
+        let out = html
+          .replace(/<script type="importmap">[\s\S]*?<\/script>/, '')
+          .replace('https://cdn.tailwindcss.com', `./${OFFLINE_DIR}/tailwind.js`);
+        if (!out.includes('/index.tsx')) {
+          out = out.replace('</body>', '  <script type="module" src="/index.tsx"></script>\n  </body>');
+        }
+        return out;
+      }
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const offline = mode === 'offline' || env.OFFLINE_ASSETS === 'true';
     return {
+      // Relative base so an offline build can be served from any folder
+      base: offline ? './' : '/',
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), ...(offline ? [offlineAssets()] : [])],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.OFFLINE_ASSETS': JSON.stringify(offline ? 'true' : 'false'),
+        'process.env.ASSET_BASE_URL': JSON.stringify(env.ASSET_BASE_URL || '')
       },
       resolve: {
         alias: {